@@ -14,8 +14,9 @@ module.exports = function(config) {
     files: [
       'test/*.js',
       'test/**/*.js',
-      'src/*.ts',
-      'src/**/*.ts',
+      // bundled through the specs by webpack
+      { pattern: 'src/*.ts', included: false },
+      { pattern: 'src/**/*.ts', included: false },
     ],
 
     // logs
@@ -7,7 +7,12 @@ const Config = Object.freeze({
   // リソースのエントリーポイント
   ResourceBaseUrl: 'assets/',
   // ユニット枠最大数
-  MaxUnitSlotCount: 5
+  MaxUnitSlotCount: 5,
+  // スキル枠最大数
+  MaxSkillSlotCount: 3,
+  // デバッグ機能を有効にするかどうか
+  // webpack の mode に応じて NODE_ENV が置換されるため本番ビルドでは無効になる
+  IsDebug: process.env.NODE_ENV !== 'production'
 });
 
 PIXI.loader.baseUrl = Config.ResourceBaseUrl;
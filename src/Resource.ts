@@ -24,6 +24,9 @@ const Resource = Object.freeze({
     Stage: (stageId: number): string => {
       return `master/stage_master_${stageId}.json`;
     },
+    AllStageInfo: (): string => {
+      return 'master/stage_list_master.json';
+    },
     Unit: (unitIds: number[]): string => {
       const query = unitIds.join('&unitId[]=');
       return `master/unit_master.json?unitId[]=${query}`;
@@ -31,6 +34,21 @@ const Resource = Object.freeze({
     AllUnit: (): string => {
       return 'master/unit_master.json';
     },
+    AllUnitGrowth: (): string => {
+      return 'master/unit_growth_master.json';
+    },
+    AllSynergy: (): string => {
+      return 'master/synergy_master.json';
+    },
+    AllSkill: (): string => {
+      return 'master/skill_master.json';
+    },
+    AllBoss: (): string => {
+      return 'master/boss_master.json';
+    },
+    AllCostLevel: (): string => {
+      return 'master/cost_level_master.json';
+    },
     UnitAnimation: (unitIds: number[]): string => {
       const query = unitIds.join('&unitId[]=');
       return `master/unit_animation_master.json?unitId[]=${query}`;
@@ -1,7 +1,10 @@
 import * as PIXI from 'pixi.js';
 import Resource from 'Resource';
 import UpdateObject from 'interfaces/UpdateObject';
+import BattleOutcome from 'interfaces/BattleOutcome';
 import GameManager from 'managers/GameManager';
+import BattleTimeController from 'modules/BattleTimeController';
+import Star from 'display/common/Star';
 
 /**
  * ゲーム結果を表現する
@@ -19,10 +22,32 @@ export default class BattleResult
    */
   public onAnimationEnded: () => void = () => {};
 
+  /**
+   * 獲得した星の色
+   */
+  public starColor: number = 0xffdd22;
+  /**
+   * 獲得していない星の色
+   */
+  public emptyStarColor: number = 0x444444;
+  /**
+   * 星の半径
+   */
+  public starRadius: number = 28;
+  /**
+   * 勝敗表示が止まる画面の高さに対する比率
+   */
+  public stopPositionRate: number = 0.35;
+
   /**
    * 表示する PIXI.Sprite インスタンス
    */
   private sprite!: PIXI.Sprite;
+  /**
+   * 星と戦績を表示するコンテナ
+   * 勝敗表示が止まった後に表示する
+   */
+  private details: PIXI.Container = new PIXI.Container();
 
   /**
    * このエフェクトで使用するリソースリスト
@@ -37,10 +62,10 @@ export default class BattleResult
   /**
    * コンストラクタ
    */
-  constructor(win: boolean) {
+  constructor(outcome: BattleOutcome) {
     super();
 
-    const textureCacheName = (win)
+    const textureCacheName = (outcome.isPlayerWon)
       ? Resource.Static.BattleResultWin
       : Resource.Static.BattleResultLose;
     const texture = PIXI.utils.TextureCache[textureCacheName];
@@ -52,6 +77,12 @@ export default class BattleResult
     this.sprite.position.y = -(this.sprite.height * 0.5);
 
     this.addChild(this.sprite);
+
+    this.details.visible = false;
+    this.addChild(this.details);
+
+    this.createStars(outcome);
+    this.createStats(outcome);
   }
 
   /**
@@ -73,9 +104,59 @@ export default class BattleResult
 
     this.sprite.position.y += 4;
 
-    if (this.sprite.position.y >= GameManager.instance.game.view.height * 0.5) {
+    const stopY = GameManager.instance.game.view.height * this.stopPositionRate;
+    if (this.sprite.position.y >= stopY) {
+      this.sprite.position.y = stopY;
+      this.details.position.y = stopY + this.sprite.height * 0.5;
+      this.details.visible = true;
+
       this.animationEnded = true;
       this.onAnimationEnded();
     }
   }
+
+  /**
+   * 獲得可能な数の星を並べ、獲得した数だけ色をつける
+   */
+  private createStars(outcome: BattleOutcome): void {
+    const centerX = GameManager.instance.game.view.width * 0.5;
+    const interval = this.starRadius * 2.5;
+    const startX = centerX - interval * (outcome.maxStars - 1) * 0.5;
+
+    for (let i = 0; i < outcome.maxStars; i++) {
+      const color = (i < outcome.stars) ? this.starColor : this.emptyStarColor;
+      const star = new Star(this.starRadius, color);
+      star.position.set(startX + interval * i, this.starRadius * 1.5);
+
+      this.details.addChild(star);
+    }
+  }
+
+  /**
+   * 経過時間や生成ユニット数などの戦績を表示する
+   */
+  private createStats(outcome: BattleOutcome): void {
+    const seconds =
+      outcome.frameCount / BattleTimeController.logicalFramesPerSecond;
+    const lines = [
+      `TIME   ${seconds.toFixed(1)}s`,
+      `UNITS  ${outcome.spawnedUnitCount}`,
+      `COST   ${Math.floor(outcome.spentCost)}`,
+      `DAMAGE ${Math.floor(outcome.damageDealt)}`
+    ];
+
+    const text = new PIXI.Text(lines.join('\n'), {
+      fontFamily: Resource.FontFamily.Default,
+      fontSize: 32,
+      fill: 0xffffff,
+      padding: 4
+    });
+    text.anchor.set(0.5, 0);
+    text.position.set(
+      GameManager.instance.game.view.width * 0.5,
+      this.starRadius * 3.5
+    );
+
+    this.details.addChild(text);
+  }
 }
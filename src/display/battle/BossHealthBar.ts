@@ -0,0 +1,109 @@
+import * as PIXI from 'pixi.js';
+import Resource from 'Resource';
+
+/**
+ * ボスの体力を UI レイヤーに表示するゲージ
+ * フェーズに移行する体力比率の位置に目盛りを表示する
+ */
+export default class BossHealthBar extends PIXI.Container {
+  /**
+   * ゲージの幅
+   */
+  public gaugeWidth: number = 480;
+  /**
+   * ゲージの高さ
+   */
+  public gaugeHeight: number = 20;
+
+  /**
+   * 背景の色
+   */
+  public backgroundColor: number = 0x222222;
+  /**
+   * 残り体力の色
+   */
+  public healthColor: number = 0xCC2222;
+  /**
+   * 枠線と目盛りの色
+   */
+  public lineColor: number = 0xFFFFFF;
+
+  /**
+   * 背景用の PIXI.Graphics
+   */
+  private background: PIXI.Graphics = new PIXI.Graphics();
+  /**
+   * ゲージ用の PIXI.Graphics
+   */
+  private gauge: PIXI.Graphics = new PIXI.Graphics();
+  /**
+   * 目盛り用の PIXI.Graphics
+   */
+  private marks: PIXI.Graphics = new PIXI.Graphics();
+  /**
+   * ボス名のテキスト
+   */
+  private nameText: PIXI.Text = new PIXI.Text('', {
+    fontFamily: Resource.FontFamily.Default,
+    fontSize: 24,
+    fill: 0xffffff,
+    padding: 4
+  });
+
+  /**
+   * コンストラクタ
+   */
+  constructor() {
+    super();
+
+    this.nameText.anchor.set(0.5, 1.0);
+    this.nameText.position.set(this.gaugeWidth * 0.5, -4);
+
+    this.background.lineStyle(2, this.lineColor, 1);
+    this.background.beginFill(this.backgroundColor, 1);
+    this.background.drawRect(0, 0, this.gaugeWidth, this.gaugeHeight);
+    this.background.endFill();
+
+    this.addChild(this.nameText);
+    this.addChild(this.background);
+    this.addChild(this.gauge);
+    this.addChild(this.marks);
+
+    this.visible = false;
+  }
+
+  /**
+   * 表示するボスの名前とフェーズの閾値を設定して表示する
+   */
+  public init(name: string, phaseHealthRates: number[]): void {
+    this.nameText.text = name;
+
+    this.marks.clear();
+    this.marks.lineStyle(2, this.lineColor, 1);
+    for (let i = 0; i < phaseHealthRates.length; i++) {
+      const x = this.gaugeWidth * phaseHealthRates[i];
+      this.marks.moveTo(x, 0);
+      this.marks.lineTo(x, this.gaugeHeight);
+    }
+
+    this.updateGauge(1);
+    this.visible = true;
+  }
+
+  /**
+   * 体力の比率に応じて表示を更新する
+   */
+  public updateGauge(rate: number): void {
+    const clampedRate = Math.max(0, Math.min(rate, 1));
+
+    this.gauge.clear();
+    this.gauge.beginFill(this.healthColor, 1);
+    this.gauge.drawRect(
+      1,
+      1,
+      (this.gaugeWidth - 2) * clampedRate,
+      this.gaugeHeight - 2
+    );
+    this.gauge.endFill();
+  }
+}
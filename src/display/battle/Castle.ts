@@ -1,6 +1,7 @@
 import * as PIXI from 'pixi.js';
 import Resource from 'Resource';
 import SoundManager from 'managers/SoundManager';
+import Random from 'modules/Random';
 import Attackable from 'display/battle/Attackable';
 import CollapseExplodeEffect
     from 'display/battle/single_shot/CollapseExplodeEffect';
@@ -21,6 +22,10 @@ export default class Castle extends Attackable {
    * 拠点 ID
    */
   protected castleId!: number;
+  /**
+   * 爆発エフェクトの配置に用いる乱数生成器
+   */
+  protected random!: Random;
 
   /**
    * このクラスで利用するリソースリスト
@@ -34,11 +39,13 @@ export default class Castle extends Attackable {
    */
   constructor(
     castleId: number,
-    spawnPosition: { x: number, y: number }
+    spawnPosition: { x: number, y: number },
+    random: Random
   ) {
     super(spawnPosition);
 
     this.castleId = castleId;
+    this.random = random;
 
     this.animationType = Resource.AnimationTypes.Castle.IDLE;
 
@@ -137,11 +144,11 @@ export default class Castle extends Attackable {
    * 破壊時の爆発を生成する
    */
   private spawnCollapseExplode(): void {
-    const scale = 1.0 + Math.random() % 0.8 - 0.4;
+    const scale = 1.0 + this.random.next() % 0.8 - 0.4;
 
     const effect = new CollapseExplodeEffect();
-    effect.position.x = Math.random() * this.sprite.width;
-    effect.position.y = Math.random() * this.sprite.height;
+    effect.position.x = this.random.next() * this.sprite.width;
+    effect.position.y = this.random.next() * this.sprite.height;
     effect.scale.set(scale);
 
     this.explodeContainer.addChild(effect);
@@ -0,0 +1,93 @@
+import * as PIXI from 'pixi.js';
+import Resource from 'Resource';
+
+/**
+ * 大砲の発射をリクエストするための UI 用のボタン
+ * ゲージの溜まり具合を表示する
+ */
+export default class CastleCannonButton extends PIXI.Container {
+  /**
+   * ボタンの幅
+   */
+  public buttonWidth: number = 220;
+  /**
+   * ボタンの高さ
+   */
+  public buttonHeight: number = 56;
+
+  /**
+   * 背景の色
+   */
+  public backgroundColor: number = 0x222222;
+  /**
+   * 溜まっているゲージの色
+   */
+  public chargingColor: number = 0x886622;
+  /**
+   * ゲージが上限に達している時の色
+   */
+  public chargedColor: number = 0xFFAA22;
+  /**
+   * 枠線の色
+   */
+  public lineColor: number = 0xFFFFFF;
+
+  /**
+   * 背景用の PIXI.Graphics
+   */
+  private background: PIXI.Graphics = new PIXI.Graphics();
+  /**
+   * ゲージ用の PIXI.Graphics
+   */
+  private gauge: PIXI.Graphics = new PIXI.Graphics();
+  /**
+   * ラベルテキスト
+   */
+  private text: PIXI.Text = new PIXI.Text('CANNON', {
+    fontFamily: Resource.FontFamily.Default,
+    fontSize: 32,
+    fill: 0xffffff,
+    padding: 4
+  });
+
+  /**
+   * コンストラクタ
+   */
+  constructor() {
+    super();
+
+    this.background.lineStyle(2, this.lineColor, 1);
+    this.background.beginFill(this.backgroundColor, 1);
+    this.background.drawRect(0, 0, this.buttonWidth, this.buttonHeight);
+    this.background.endFill();
+
+    this.text.anchor.set(0.5);
+    this.text.position.set(this.buttonWidth * 0.5, this.buttonHeight * 0.5);
+
+    this.addChild(this.background);
+    this.addChild(this.gauge);
+    this.addChild(this.text);
+
+    this.updateGauge(0);
+  }
+
+  /**
+   * ゲージの比率に応じて表示を更新する
+   */
+  public updateGauge(rate: number): void {
+    const clampedRate = Math.max(0, Math.min(rate, 1));
+    const color = (clampedRate >= 1) ? this.chargedColor : this.chargingColor;
+
+    this.gauge.clear();
+    this.gauge.beginFill(color, 1);
+    this.gauge.drawRect(
+      1,
+      1,
+      (this.buttonWidth - 2) * clampedRate,
+      this.buttonHeight - 2
+    );
+    this.gauge.endFill();
+
+    this.text.alpha = (clampedRate >= 1) ? 1.0 : 0.5;
+  }
+}
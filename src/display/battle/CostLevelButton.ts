@@ -0,0 +1,110 @@
+import * as PIXI from 'pixi.js';
+import Resource from 'Resource';
+
+/**
+ * コストレベルの上昇をリクエストするための UI 用のボタン
+ * 現在のレベルと次のレベルに上げるために必要なコストを表示する
+ */
+export default class CostLevelButton extends PIXI.Container {
+  /**
+   * ボタンの幅
+   */
+  public buttonWidth: number = 220;
+  /**
+   * ボタンの高さ
+   */
+  public buttonHeight: number = 56;
+
+  /**
+   * 背景の色
+   */
+  public backgroundColor: number = 0x222222;
+  /**
+   * コストが足りている時の背景の色
+   */
+  public affordableColor: number = 0x228844;
+  /**
+   * 枠線の色
+   */
+  public lineColor: number = 0xFFFFFF;
+
+  /**
+   * 次のレベルに上げるために必要なコスト
+   * 最大レベルに達している場合は -1
+   */
+  public nextPrice: number = -1;
+
+  /**
+   * 背景用の PIXI.Graphics
+   */
+  private background: PIXI.Graphics = new PIXI.Graphics();
+  /**
+   * ラベルテキスト
+   */
+  private text: PIXI.Text = new PIXI.Text('', {
+    fontFamily: Resource.FontFamily.Default,
+    fontSize: 28,
+    fill: 0xffffff,
+    padding: 4
+  });
+  /**
+   * 利用可能なコスト
+   */
+  private availableCost: number = 0;
+
+  /**
+   * コンストラクタ
+   */
+  constructor() {
+    super();
+
+    this.text.anchor.set(0.5);
+    this.text.position.set(this.buttonWidth * 0.5, this.buttonHeight * 0.5);
+
+    this.addChild(this.background);
+    this.addChild(this.text);
+
+    this.updateLevel(1, null);
+  }
+
+  /**
+   * 現在のレベルと次のレベルに上げるために必要なコストで表示を更新する
+   * 次のレベルがない場合は最大レベルとして表示する
+   */
+  public updateLevel(level: number, nextPrice: number | null): void {
+    this.nextPrice = (nextPrice === null) ? -1 : nextPrice;
+    this.text.text = (nextPrice === null)
+      ? `LV${level} MAX`
+      : `LV${level} UP:${nextPrice}`;
+
+    this.updateBackground();
+  }
+
+  /**
+   * 利用可能なコストに応じて表示を更新する
+   */
+  public updateAvailableCost(cost: number): void {
+    if (this.availableCost === cost) {
+      return;
+    }
+    this.availableCost = cost;
+    this.updateBackground();
+  }
+
+  /**
+   * レベルを上げられる状態であれば背景とラベルを強調する
+   */
+  private updateBackground(): void {
+    const isReady = this.nextPrice >= 0
+      && this.availableCost >= this.nextPrice;
+    const color = isReady ? this.affordableColor : this.backgroundColor;
+
+    this.background.clear();
+    this.background.lineStyle(2, this.lineColor, 1);
+    this.background.beginFill(color, 1);
+    this.background.drawRect(0, 0, this.buttonWidth, this.buttonHeight);
+    this.background.endFill();
+
+    this.text.alpha = isReady ? 1.0 : 0.5;
+  }
+}
@@ -1,6 +1,7 @@
 import * as PIXI from 'pixi.js';
 import Resource from 'Resource';
 import GameManager from 'managers/GameManager';
+import Random from 'modules/Random';
 
 /**
  * ユニットや拠点が配置されるバトル背景のクラス
@@ -10,6 +11,22 @@ export default class Field extends PIXI.Container {
    * 最後に要素を追加した zLine のインデックス
    */
   public lastZlineIndex: number = -1;
+  /**
+   * レーンの数
+   */
+  public laneCount: number = 1;
+  /**
+   * レーン間の Y 座標の間隔
+   */
+  public laneGap: number = 48;
+  /**
+   * タップとして扱う移動量の上限
+   */
+  public tapThreshold: number = 8;
+  /**
+   * レーンがタップされた時のコールバック
+   */
+  public onLaneTapped: (lane: number) => void = () => {};
 
   /**
    * タップダウン数カウント
@@ -21,6 +38,11 @@ export default class Field extends PIXI.Container {
    * スクロール処理のために保持する
    */
   private lastPointerPositionX: number = 0;
+  /**
+   * タップ押下からの X 方向の移動量
+   * スクロール操作とタップを区別するために保持する
+   */
+  private pointerMovedDistance: number = 0;
 
   /**
    * スクロールの限界座標値
@@ -41,6 +63,15 @@ export default class Field extends PIXI.Container {
    * ユニットが配置される前景の PIXI.Container 配列
    */
   private foreZLines: PIXI.Container[] = [];
+  /**
+   * レーンの範囲を示すガイド
+   */
+  private laneGuide: PIXI.Graphics = new PIXI.Graphics();
+
+  /**
+   * 配置する zLine の決定に用いる乱数生成器
+   */
+  private random!: Random;
 
   /**
    * このクラスで利用するリソースリスト
@@ -65,9 +96,11 @@ export default class Field extends PIXI.Container {
   /**
    * コンストラクタ
    */
-  constructor() {
+  constructor(random: Random) {
     super();
 
+    this.random = random;
+
     type InteractionEvent = PIXI.interaction.InteractionEvent;
 
     // ユーザ操作で画面をスクロールできるようにする
@@ -75,14 +108,19 @@ export default class Field extends PIXI.Container {
     this.on('pointerdown',   (e: InteractionEvent) => this.onPointerDown(e));
     this.on('pointermove',   (e: InteractionEvent) => this.onPointerMove(e));
     this.on('pointercancel', (e: InteractionEvent) => this.onPointerUp(e));
-    this.on('pointerup',     (e: InteractionEvent) => this.onPointerUp(e));
+    this.on('pointerup',     (e: InteractionEvent) => this.onPointerTap(e));
     this.on('pointerout',    (e: InteractionEvent) => this.onPointerUp(e));
   }
 
   /**
    * フィールドの長さとユニットを配置するラインの数で初期化する
+   * レーンが複数ある場合はラインをレーン毎に分割する
    */
-  public init(options: any = { fieldLength: 3000, zLines: 8 }): void {
+  public init(
+    options: any = { fieldLength: 3000, zLines: 8, lanes: 1 }
+  ): void {
+    this.laneCount = Math.max(options.lanes || 1, 1);
+
     const tiles: { [key: string]: string[] } = {
       fore:   Resource.Static.BattleBgFores,
       middle: Resource.Static.BattleBgMiddles,
@@ -118,6 +156,12 @@ export default class Field extends PIXI.Container {
       this.containers.fore.addChild(line);
     }
 
+    if (this.laneCount > 1) {
+      this.drawLaneGuide(options.fieldLength);
+      this.laneGuide.visible = false;
+      this.containers.fore.addChildAt(this.laneGuide, 1);
+    }
+
     // 的拠点よりも少し後ろを見せるための余剰スクロール範囲
     const spareLength = GameManager.instance.game.view.width * 0.75;
     this.foregroundScrollLimit = -(options.fieldLength - spareLength);
@@ -138,17 +182,21 @@ export default class Field extends PIXI.Container {
   }
   /**
    * 最後に追加した zLine とは異なるインデクスを返す
+   * レーンが指定された場合はそのレーンに属する zLine から選ぶ
    */
-  public getDifferentZlineIndex(): number {
+  public getDifferentZlineIndex(lane: number = -1): number {
+    const range = (lane >= 0)
+      ? this.getLaneZlineRange(lane)
+      : { start: 0, end: this.zLineCount };
     // Field に追加する重なり順を決定する
-    const zLineCount = this.zLineCount;
-    let index = Math.floor(Math.random() * this.zLineCount);
+    const zLineCount = range.end - range.start;
+    let index = range.start + this.random.int(zLineCount);
 
     // 最後に追加された Zline と同じ場合は表示が重なって見えてしまうので避ける
     if (index === this.lastZlineIndex) {
       index++;
-      if (index > (zLineCount - 1)) {
-        index = 0;
+      if (index > (range.end - 1)) {
+        index = range.start;
       }
     }
 
@@ -159,7 +207,72 @@ export default class Field extends PIXI.Container {
    * 指定した zLine インデックスの基準 Y 座標を返す
    */
   public getZlineBaseY(zlineIndex: number): number {
-    return this.containers.fore.height * 0.5 + zlineIndex * 16;
+    const laneOffset = this.getLaneOfZline(zlineIndex) * this.laneGap;
+    return this.containers.fore.height * 0.5 + zlineIndex * 16 + laneOffset;
+  }
+
+  /**
+   * 指定したレーンに属する zLine インデックスの範囲を返す
+   * end は範囲に含まない
+   */
+  public getLaneZlineRange(lane: number): { start: number, end: number } {
+    const zLineCount = this.zLineCount;
+    const start = Math.floor(lane * zLineCount / this.laneCount);
+    const end = Math.floor((lane + 1) * zLineCount / this.laneCount);
+    return { start, end: Math.max(end, start + 1) };
+  }
+
+  /**
+   * レーンの範囲を示すガイドの表示を切り替える
+   */
+  public setLaneGuideVisible(visible: boolean): void {
+    this.laneGuide.visible = visible;
+  }
+
+  /**
+   * 指定した zLine インデックスが属するレーンを返す
+   */
+  private getLaneOfZline(zlineIndex: number): number {
+    if (this.zLineCount === 0) {
+      return 0;
+    }
+    return Math.floor(zlineIndex * this.laneCount / this.zLineCount);
+  }
+
+  /**
+   * 前景内の Y 座標から最も近いレーンを返す
+   */
+  private getLaneByY(y: number): number {
+    let lane = 0;
+    let minDistance = Infinity;
+    for (let i = 0; i < this.laneCount; i++) {
+      const range = this.getLaneZlineRange(i);
+      const centerY = (
+        this.getZlineBaseY(range.start) + this.getZlineBaseY(range.end - 1)
+      ) * 0.5;
+      const distance = Math.abs(centerY - y);
+      if (distance < minDistance) {
+        minDistance = distance;
+        lane = i;
+      }
+    }
+    return lane;
+  }
+
+  /**
+   * レーンの範囲を示すガイドを描画する
+   */
+  private drawLaneGuide(fieldLength: number): void {
+    this.laneGuide.clear();
+    for (let i = 0; i < this.laneCount; i++) {
+      const range = this.getLaneZlineRange(i);
+      const top = this.getZlineBaseY(range.start) - this.laneGap * 0.5;
+      const bottom = this.getZlineBaseY(range.end - 1) + this.laneGap * 0.5;
+      const color = (i % 2 === 0) ? 0xffffff : 0xffff88;
+      this.laneGuide.beginFill(color, 0.2);
+      this.laneGuide.drawRect(0, top, fieldLength, bottom - top);
+      this.laneGuide.endFill();
+    }
   }
 
   /**
@@ -169,6 +282,7 @@ export default class Field extends PIXI.Container {
     this.pointerDownCount++;
     if (this.pointerDownCount === 1) {
       this.lastPointerPositionX = event.data.global.x;
+      this.pointerMovedDistance = 0;
     }
   }
 
@@ -182,6 +296,7 @@ export default class Field extends PIXI.Container {
 
     const xPos = event.data.global.x;
     const distance = xPos - this.lastPointerPositionX;
+    this.pointerMovedDistance += Math.abs(distance);
 
     let newForegroundPos = this.containers.fore.position.x + distance;
 
@@ -199,6 +314,21 @@ export default class Field extends PIXI.Container {
     this.lastPointerPositionX = xPos;
   }
 
+  /**
+   * タップ終了時にスクロール操作でなければタップされたレーンを通知する
+   */
+  private onPointerTap(event: PIXI.interaction.InteractionEvent): void {
+    const isTap = this.pointerDownCount === 1 &&
+      this.pointerMovedDistance < this.tapThreshold;
+
+    this.onPointerUp(event);
+
+    if (isTap) {
+      const position = event.data.getLocalPosition(this.containers.fore);
+      this.onLaneTapped(this.getLaneByY(position.y));
+    }
+  }
+
   /**
    * タップ終了時の制御コールバック
    */
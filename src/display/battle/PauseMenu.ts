@@ -0,0 +1,89 @@
+import * as PIXI from 'pixi.js';
+import Resource from 'Resource';
+import GameManager from 'managers/GameManager';
+
+/**
+ * 一時停止中に表示するメニュー
+ * 画面全体を覆い、背後の UI への入力を遮る
+ */
+export default class PauseMenu extends PIXI.Container {
+  /**
+   * 背景の色
+   */
+  public backgroundColor: number = 0x000000;
+  /**
+   * 背景の透明度
+   */
+  public backgroundAlpha: number = 0.6;
+  /**
+   * 項目の間隔
+   */
+  public itemMargin: number = 96;
+
+  /**
+   * 再開が選択された時のコールバック
+   */
+  public onResumeSelected: () => void = () => {};
+  /**
+   * リタイアが選択された時のコールバック
+   */
+  public onRetireSelected: () => void = () => {};
+
+  /**
+   * 背景用の PIXI.Graphics
+   */
+  private background: PIXI.Graphics = new PIXI.Graphics();
+
+  /**
+   * コンストラクタ
+   */
+  constructor() {
+    super();
+
+    const width = GameManager.instance.game.view.width;
+    const height = GameManager.instance.game.view.height;
+
+    this.background.beginFill(this.backgroundColor, this.backgroundAlpha);
+    this.background.drawRect(0, 0, width, height);
+    this.background.endFill();
+    // 背後の UI をタップさせない
+    this.background.interactive = true;
+    this.addChild(this.background);
+
+    const centerX = width * 0.5;
+    const centerY = height * 0.5;
+
+    const title = this.createText('PAUSE', 64);
+    title.position.set(centerX, centerY - this.itemMargin);
+    this.addChild(title);
+
+    const resume = this.createText('RESUME', 48);
+    resume.position.set(centerX, centerY + this.itemMargin * 0.5);
+    resume.interactive = true;
+    resume.on('pointerdown', () => this.onResumeSelected());
+    this.addChild(resume);
+
+    const retire = this.createText('RETIRE', 48);
+    retire.position.set(centerX, centerY + this.itemMargin * 1.5);
+    retire.interactive = true;
+    retire.on('pointerdown', () => this.onRetireSelected());
+    this.addChild(retire);
+
+    this.visible = false;
+  }
+
+  /**
+   * 中央揃えのテキストを生成する
+   */
+  private createText(text: string, fontSize: number): PIXI.Text {
+    const node = new PIXI.Text(text, {
+      fontSize,
+      fontFamily: Resource.FontFamily.Default,
+      fill: 0xffffff,
+      padding: 4
+    });
+    node.anchor.set(0.5);
+
+    return node;
+  }
+}
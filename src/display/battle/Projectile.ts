@@ -0,0 +1,75 @@
+import * as PIXI from 'pixi.js';
+
+/**
+ * 飛翔体の見た目に関する処理を行う
+ * 発射地点から標的までを放物線を描いて移動する
+ */
+export default class Projectile extends PIXI.Container {
+  /**
+   * デフォルトの表示色
+   */
+  public static readonly defaultColor: number = 0xFFFFFF;
+  /**
+   * 飛翔体の半径
+   */
+  public static readonly radius: number = 6;
+
+  /**
+   * 発射地点の座標
+   */
+  private from!: PIXI.Point;
+  /**
+   * 着弾地点の座標
+   */
+  private to!: PIXI.Point;
+  /**
+   * 弾道の最高点の高さ
+   */
+  private arcHeight: number = 0;
+  /**
+   * 描画物
+   */
+  private graphic: PIXI.Graphics = new PIXI.Graphics();
+
+  /**
+   * コンストラクタ
+   */
+  constructor(
+    from: { x: number, y: number },
+    to: { x: number, y: number },
+    arcHeight: number = 0,
+    color: number = Projectile.defaultColor
+  ) {
+    super();
+
+    this.from = new PIXI.Point(from.x, from.y);
+    this.to = new PIXI.Point(to.x, to.y);
+    this.arcHeight = arcHeight;
+
+    this.graphic.beginFill(color, 1);
+    this.graphic.drawCircle(0, 0, Projectile.radius);
+    this.graphic.endFill();
+    this.addChild(this.graphic);
+
+    this.position.set(from.x, from.y);
+  }
+
+  /**
+   * 着弾地点を更新する
+   * 標的が移動した場合に用いる
+   */
+  public updateDestination(to: { x: number, y: number }): void {
+    this.to.set(to.x, to.y);
+  }
+
+  /**
+   * 飛翔の進捗率に応じて座標を更新する
+   */
+  public updateFlight(flightRate: number): void {
+    const x = this.from.x + (this.to.x - this.from.x) * flightRate;
+    const y = this.from.y + (this.to.y - this.from.y) * flightRate;
+    const arc = Math.sin(flightRate * Math.PI) * this.arcHeight;
+
+    this.position.set(x, y - arc);
+  }
+}
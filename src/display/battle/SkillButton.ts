@@ -0,0 +1,149 @@
+import * as PIXI from 'pixi.js';
+import Resource from 'Resource';
+
+/**
+ * スキルの発動をリクエストするための UI 用のボタン
+ * ゲージの溜まり具合と、コストが足りているかを表示する
+ */
+export default class SkillButton extends PIXI.Container {
+  /**
+   * ボタンの幅
+   */
+  public buttonWidth: number = 160;
+  /**
+   * ボタンの高さ
+   */
+  public buttonHeight: number = 48;
+
+  /**
+   * 背景の色
+   */
+  public backgroundColor: number = 0x222222;
+  /**
+   * 溜まっているゲージの色
+   */
+  public chargingColor: number = 0x226688;
+  /**
+   * ゲージが上限に達している時の色
+   */
+  public chargedColor: number = 0x22AAFF;
+  /**
+   * 枠線の色
+   */
+  public lineColor: number = 0xFFFFFF;
+
+  /**
+   * ボタン枠のインデックス
+   */
+  public slotIndex: number = -1;
+  /**
+   * ボタンに割り当てられたスキルの ID
+   */
+  public skillId: number = -1;
+  /**
+   * 発動に必要なコスト
+   */
+  public skillCost: number = 0;
+
+  /**
+   * 背景用の PIXI.Graphics
+   */
+  private background: PIXI.Graphics = new PIXI.Graphics();
+  /**
+   * ゲージ用の PIXI.Graphics
+   */
+  private gauge: PIXI.Graphics = new PIXI.Graphics();
+  /**
+   * スキル名テキスト
+   */
+  private text: PIXI.Text = new PIXI.Text('', {
+    fontFamily: Resource.FontFamily.Default,
+    fontSize: 24,
+    fill: 0xffffff,
+    padding: 4
+  });
+  /**
+   * ゲージの比率
+   */
+  private chargeRate: number = 0;
+  /**
+   * 利用可能なコスト
+   */
+  private availableCost: number = 0;
+
+  /**
+   * コンストラクタ
+   */
+  constructor() {
+    super();
+
+    this.background.lineStyle(2, this.lineColor, 1);
+    this.background.beginFill(this.backgroundColor, 1);
+    this.background.drawRect(0, 0, this.buttonWidth, this.buttonHeight);
+    this.background.endFill();
+
+    this.text.anchor.set(0.5);
+    this.text.position.set(this.buttonWidth * 0.5, this.buttonHeight * 0.5);
+
+    this.addChild(this.background);
+    this.addChild(this.gauge);
+    this.addChild(this.text);
+  }
+
+  /**
+   * ボタン枠インデックスとスキルで初期化する
+   * スキルが割り当てられていない場合は表示しない
+   */
+  public init(
+    slotIndex: number,
+    skill?: { skillId: number, name: string, cost: number }
+  ): void {
+    this.slotIndex = slotIndex;
+    this.skillId = skill ? skill.skillId : -1;
+    this.skillCost = skill ? skill.cost : 0;
+    this.text.text = skill ? skill.name : '';
+    this.visible = !!skill;
+
+    this.updateGauge(0);
+  }
+
+  /**
+   * ゲージの比率に応じて表示を更新する
+   */
+  public updateGauge(rate: number): void {
+    this.chargeRate = Math.max(0, Math.min(rate, 1));
+
+    const color = (this.chargeRate >= 1)
+      ? this.chargedColor
+      : this.chargingColor;
+
+    this.gauge.clear();
+    this.gauge.beginFill(color, 1);
+    this.gauge.drawRect(
+      1,
+      1,
+      (this.buttonWidth - 2) * this.chargeRate,
+      this.buttonHeight - 2
+    );
+    this.gauge.endFill();
+
+    this.updateTextAlpha();
+  }
+
+  /**
+   * 利用可能なコストに応じて表示を更新する
+   */
+  public updateAvailableCost(cost: number): void {
+    this.availableCost = cost;
+    this.updateTextAlpha();
+  }
+
+  /**
+   * 発動できる状態であればスキル名を強調する
+   */
+  private updateTextAlpha(): void {
+    const isReady = this.chargeRate >= 1
+      && this.availableCost >= this.skillCost;
+    this.text.alpha = isReady ? 1.0 : 0.5;
+  }
+}
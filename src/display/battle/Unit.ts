@@ -29,6 +29,15 @@ export default class Unit extends Attackable {
    */
   protected healthGauge: HealthGauge | null = null;
 
+  /**
+   * 直前の論理フレームでの座標
+   */
+  private previousPosition: PIXI.Point;
+  /**
+   * 現在の論理フレームでの座標
+   */
+  private logicalPosition: PIXI.Point;
+
   /**
    * コンストラクタ
    */
@@ -40,6 +49,50 @@ export default class Unit extends Attackable {
 
     this.animationType = Resource.AnimationTypes.Unit.WAIT;
     this.animationMaster = animationMaster;
+
+    this.previousPosition = new PIXI.Point(spawnPosition.x, spawnPosition.y);
+    this.logicalPosition = new PIXI.Point(spawnPosition.x, spawnPosition.y);
+  }
+
+  /**
+   * 現在の論理フレームでの座標を更新する
+   * 表示上の座標は interpolatePosition で反映される
+   */
+  public setLogicalPosition(x: number, y: number): void {
+    this.logicalPosition.set(x, y);
+  }
+
+  /**
+   * 論理フレームを進める前に現在の座標を直前の座標として保持する
+   */
+  public commitLogicalPosition(): void {
+    this.previousPosition.copy(this.logicalPosition);
+  }
+
+  /**
+   * 直前と現在の論理フレームの座標を補間して表示上の座標に反映する
+   */
+  public interpolatePosition(rate: number): void {
+    if (this.destroyed) {
+      return;
+    }
+
+    const from = this.previousPosition;
+    const to = this.logicalPosition;
+    this.sprite.position.set(
+      from.x + (to.x - from.x) * rate,
+      from.y + (to.y - from.y) * rate
+    );
+  }
+
+  /**
+   * アニメーション情報を差し替える
+   * 現在のアニメーション種別は維持し、先頭のフレームから再生し直す
+   */
+  public setAnimationMaster(animationMaster: UnitAnimationMaster): void {
+    this.animationMaster = animationMaster;
+    this.elapsedFrameCount = 0;
+    this.animationFrameId = 1;
   }
 
   /**
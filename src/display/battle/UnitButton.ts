@@ -31,6 +31,14 @@ export default class UnitButton extends PIXI.Container {
    * フィルター
    */
   private filter: PIXI.filters.ColorMatrixFilter = new PIXI.filters.ColorMatrixFilter();
+  /**
+   * クールダウン表示用の PIXI.Graphics
+   */
+  private cooldownOverlay: PIXI.Graphics = new PIXI.Graphics();
+  /**
+   * 選択中であることを示す枠線
+   */
+  private selectionFrame: PIXI.Graphics = new PIXI.Graphics();
 
   /**
    * コンストラクタ
@@ -48,6 +56,8 @@ export default class UnitButton extends PIXI.Container {
     }
 
     this.addChild(this.button);
+    this.addChild(this.cooldownOverlay);
+    this.addChild(this.selectionFrame);
     this.addChild(this.text);
   }
 
@@ -66,6 +76,36 @@ export default class UnitButton extends PIXI.Container {
     this.filter.enabled = enabled;
   }
 
+  /**
+   * クールダウンの残り比率に応じてボタン上部から覆う表示を更新する
+   * 0 の場合は表示しない
+   */
+  public updateCooldown(rate: number): void {
+    this.cooldownOverlay.clear();
+    if (rate <= 0) {
+      return;
+    }
+
+    const width = this.button.width;
+    const height = this.button.height * Math.min(rate, 1);
+    this.cooldownOverlay.beginFill(0x000000, 0.6);
+    this.cooldownOverlay.drawRect(0, 0, width, height);
+    this.cooldownOverlay.endFill();
+  }
+
+  /**
+   * 選択中の枠線の表示を切り替える
+   */
+  public toggleSelected(selected: boolean): void {
+    this.selectionFrame.clear();
+    if (!selected) {
+      return;
+    }
+
+    this.selectionFrame.lineStyle(4, 0xffff44, 1);
+    this.selectionFrame.drawRect(0, 0, this.button.width, this.button.height);
+  }
+
   /**
    * ユニットを変更する
    */
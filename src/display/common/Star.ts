@@ -0,0 +1,31 @@
+import * as PIXI from 'pixi.js';
+
+/**
+ * 獲得した評価を表す星
+ * 中心を原点として描画する
+ */
+export default class Star extends PIXI.Graphics {
+  /**
+   * 外周の半径に対する内周の半径の比率
+   */
+  public static readonly innerRadiusRate: number = 0.45;
+
+  /**
+   * コンストラクタ
+   */
+  constructor(radius: number, color: number) {
+    super();
+
+    const points = [];
+    const innerRadius = radius * Star.innerRadiusRate;
+    for (let i = 0; i < 10; i++) {
+      const r = (i % 2 === 0) ? radius : innerRadius;
+      const angle = Math.PI * i / 5 - Math.PI * 0.5;
+      points.push(Math.cos(angle) * r, Math.sin(angle) * r);
+    }
+
+    this.beginFill(color, 1);
+    this.drawPolygon(points);
+    this.endFill();
+  }
+}
@@ -0,0 +1,290 @@
+import * as PIXI from 'pixi.js';
+import Resource from 'Resource';
+import GameManager from 'managers/GameManager';
+
+/**
+ * 編成名を入力するモーダル
+ * 画面上のキーボードか物理キーボードで入力する
+ * 背景をタップするか CANCEL を押すと変更せずに閉じる
+ */
+export default class DeckNameModal extends PIXI.Container {
+  /**
+   * 画面上のキーボードの文字の並び
+   */
+  public static readonly keyRows: string[] = [
+    '1234567890',
+    'QWERTYUIOP',
+    'ASDFGHJKL-',
+    'ZXCVBNM.!?'
+  ];
+
+  /**
+   * パネルの幅
+   */
+  public panelWidth: number = 760;
+  /**
+   * パネルの高さ
+   */
+  public panelHeight: number = 552;
+  /**
+   * 余白
+   */
+  public padding: number = 24;
+  /**
+   * キーの大きさ
+   */
+  public keySize: number = 64;
+  /**
+   * キーの間隔
+   */
+  public keyMargin: number = 8;
+
+  /**
+   * 入力が確定された時のコールバック
+   */
+  public onSubmitted: (name: string) => void = () => {};
+  /**
+   * 閉じられた時のコールバック
+   */
+  public onClosed: () => void = () => {};
+
+  /**
+   * 入力中の編成名
+   */
+  private inputName: string;
+  /**
+   * 編成名の最大文字数
+   */
+  private maxLength: number;
+  /**
+   * 入力中の編成名を表示するテキスト
+   */
+  private nameText: PIXI.Text;
+
+  /**
+   * コンストラクタ
+   */
+  constructor(params: {
+    name: string,
+    maxLength: number
+  }) {
+    super();
+
+    this.maxLength = params.maxLength;
+    this.inputName = params.name.substr(0, this.maxLength);
+
+    const width = GameManager.instance.game.view.width;
+    const height = GameManager.instance.game.view.height;
+
+    const background = new PIXI.Graphics();
+    background.beginFill(0x000000, 0.6);
+    background.drawRect(0, 0, width, height);
+    background.endFill();
+    // 背後の UI をタップさせない
+    background.interactive = true;
+    background.on('pointerdown', () => this.close());
+    this.addChild(background);
+
+    const panel = new PIXI.Container();
+    panel.position.set(
+      (width - this.panelWidth) * 0.5,
+      (height - this.panelHeight) * 0.5
+    );
+    // パネル内のタップで背景のタップが発火しないようにする
+    panel.interactive = true;
+    panel.hitArea = new PIXI.Rectangle(0, 0, this.panelWidth, this.panelHeight);
+    this.addChild(panel);
+
+    const panelBackground = new PIXI.Graphics();
+    panelBackground.lineStyle(2, 0xffffff, 1);
+    panelBackground.beginFill(0x222222, 1);
+    panelBackground.drawRect(0, 0, this.panelWidth, this.panelHeight);
+    panelBackground.endFill();
+    panel.addChild(panelBackground);
+
+    const title = this.createText('DECK NAME', 40);
+    title.position.set(this.padding, this.padding);
+    panel.addChild(title);
+
+    const innerWidth = this.panelWidth - this.padding * 2;
+    const fieldY = this.padding * 2 + 40;
+
+    const field = new PIXI.Graphics();
+    field.lineStyle(2, 0x888888, 1);
+    field.beginFill(0x000000, 1);
+    field.drawRect(0, 0, innerWidth, this.keySize);
+    field.endFill();
+    field.position.set(this.padding, fieldY);
+    panel.addChild(field);
+
+    this.nameText = this.createText('', 36);
+    this.nameText.anchor.set(0, 0.5);
+    this.nameText.position.set(
+      this.padding * 2,
+      fieldY + this.keySize * 0.5
+    );
+    panel.addChild(this.nameText);
+
+    const keyPitch = this.keySize + this.keyMargin;
+    let keyY = fieldY + this.keySize + this.padding;
+    for (let i = 0; i < DeckNameModal.keyRows.length; i++) {
+      const row = DeckNameModal.keyRows[i];
+      for (let j = 0; j < row.length; j++) {
+        const char = row.charAt(j);
+        const key = this.createKey(char, this.keySize, () => this.input(char));
+        key.position.set(this.padding + keyPitch * j, keyY);
+        panel.addChild(key);
+      }
+      keyY += keyPitch;
+    }
+
+    // 最下段は 4 つの操作キーを並べる
+    const actionWidth = (innerWidth - this.keyMargin * 3) / 4;
+    const actions = [
+      { label: 'SPACE', callback: () => this.input(' ') },
+      { label: 'DEL', callback: () => this.deleteChar() },
+      { label: 'CANCEL', callback: () => this.close() },
+      { label: 'OK', callback: () => this.submit() }
+    ];
+    for (let i = 0; i < actions.length; i++) {
+      const action = actions[i];
+      const key = this.createKey(action.label, actionWidth, action.callback);
+      key.position.set(
+        this.padding + (actionWidth + this.keyMargin) * i,
+        keyY
+      );
+      panel.addChild(key);
+    }
+
+    this.updateNameText();
+
+    document.addEventListener('keydown', this.onKeyDown);
+  }
+
+  /**
+   * PIXI.Container メソッドオーバーライド
+   * 破棄時にイベントリスナを解除する
+   */
+  public destroy(options?: PIXI.DestroyOptions | boolean): void {
+    document.removeEventListener('keydown', this.onKeyDown);
+    super.destroy(options);
+  }
+
+  /**
+   * モーダルを閉じて破棄する
+   */
+  public close(): void {
+    if (this._destroyed) {
+      return;
+    }
+
+    this.destroy({ children: true });
+    this.onClosed();
+  }
+
+  /**
+   * 入力中の編成名の末尾に文字を追加する
+   */
+  private input(char: string): void {
+    if (this.inputName.length >= this.maxLength) {
+      return;
+    }
+
+    this.inputName += char;
+    this.updateNameText();
+  }
+
+  /**
+   * 入力中の編成名の末尾の文字を削除する
+   */
+  private deleteChar(): void {
+    this.inputName = this.inputName.substr(0, this.inputName.length - 1);
+    this.updateNameText();
+  }
+
+  /**
+   * 入力を確定して閉じる
+   * 空白のみの場合は確定しない
+   */
+  private submit(): void {
+    const name = this.inputName.trim();
+    if (!name) {
+      return;
+    }
+
+    this.onSubmitted(name);
+    this.close();
+  }
+
+  /**
+   * 入力中の編成名の表示を更新する
+   * 最大文字数に達していなければカーソルを表示する
+   */
+  private updateNameText(): void {
+    const cursor = (this.inputName.length < this.maxLength) ? '_' : '';
+    this.nameText.text = `${this.inputName}${cursor}`;
+  }
+
+  /**
+   * 物理キーボードの入力を処理する
+   */
+  private onKeyDown = (event: KeyboardEvent): void => {
+    switch (event.key) {
+      case 'Enter': this.submit(); break;
+      case 'Escape': this.close(); break;
+      case 'Backspace': this.deleteChar(); break;
+      default: {
+        // 修飾キーなどの名前を持つキーは無視する
+        if (event.key.length !== 1 || event.ctrlKey || event.metaKey) {
+          return;
+        }
+        this.input(event.key.toUpperCase());
+        break;
+      }
+    }
+
+    // ブラウザの戻る操作などを抑止する
+    event.preventDefault();
+  }
+
+  /**
+   * キーを生成する
+   */
+  private createKey(
+    label: string,
+    width: number,
+    callback: () => void
+  ): PIXI.Container {
+    const key = new PIXI.Container();
+
+    const background = new PIXI.Graphics();
+    background.lineStyle(2, 0xffffff, 1);
+    background.beginFill(0x444444, 1);
+    background.drawRect(0, 0, width, this.keySize);
+    background.endFill();
+    key.addChild(background);
+
+    const text = this.createText(label, 28);
+    text.anchor.set(0.5, 0.5);
+    text.position.set(width * 0.5, this.keySize * 0.5);
+    key.addChild(text);
+
+    key.interactive = true;
+    key.buttonMode = true;
+    key.on('pointertap', callback);
+
+    return key;
+  }
+
+  /**
+   * テキストを生成する
+   */
+  private createText(text: string, fontSize: number): PIXI.Text {
+    return new PIXI.Text(text, {
+      fontSize,
+      fontFamily: Resource.FontFamily.Default,
+      fill: 0xffffff,
+      padding: 4
+    });
+  }
+}
@@ -0,0 +1,182 @@
+import * as PIXI from 'pixi.js';
+import Resource from 'Resource';
+import GameManager from 'managers/GameManager';
+import UpdateObject from 'interfaces/UpdateObject';
+import UnitMaster from 'interfaces/master/UnitMaster';
+import UnitAnimationMaster from 'interfaces/master/UnitAnimationMaster';
+import UnitStatusFormatter from 'modules/UnitStatusFormatter';
+import Unit from 'display/battle/Unit';
+
+/**
+ * 編成画面でユニットの詳細を表示するモーダル
+ * 能力値と、歩行と攻撃を交互に繰り返すアニメーションのプレビューを表示する
+ * 画面のどこかをタップすると閉じる
+ */
+export default class UnitDetailModal
+    extends PIXI.Container
+    implements UpdateObject {
+  /**
+   * パネルの幅
+   */
+  public panelWidth: number = 760;
+  /**
+   * パネルの高さ
+   */
+  public panelHeight: number = 440;
+  /**
+   * 余白
+   */
+  public padding: number = 24;
+  /**
+   * 能力値の行間
+   */
+  public lineHeight: number = 42;
+  /**
+   * プレビューで歩行アニメーションを再生するフレーム数
+   */
+  public walkFrames: number = 120;
+  /**
+   * プレビューで攻撃アニメーションを再生するフレーム数
+   */
+  public attackFrames: number = 120;
+
+  /**
+   * 閉じられた時のコールバック
+   */
+  public onClosed: () => void = () => {};
+
+  /**
+   * プレビュー用の Unit インスタンス
+   */
+  private preview: Unit;
+  /**
+   * 経過フレーム数
+   */
+  private elapsedFrameCount: number = 0;
+
+  /**
+   * コンストラクタ
+   */
+  constructor(params: {
+    unitMaster: UnitMaster,
+    animationMaster: UnitAnimationMaster,
+    level: number
+  }) {
+    super();
+
+    const width = GameManager.instance.game.view.width;
+    const height = GameManager.instance.game.view.height;
+
+    const background = new PIXI.Graphics();
+    background.beginFill(0x000000, 0.6);
+    background.drawRect(0, 0, width, height);
+    background.endFill();
+    // 背後の UI をタップさせない
+    background.interactive = true;
+    background.on('pointerdown', () => this.close());
+    this.addChild(background);
+
+    const panel = new PIXI.Container();
+    panel.position.set(
+      (width - this.panelWidth) * 0.5,
+      (height - this.panelHeight) * 0.5
+    );
+    this.addChild(panel);
+
+    const panelBackground = new PIXI.Graphics();
+    panelBackground.lineStyle(2, 0xffffff, 1);
+    panelBackground.beginFill(0x222222, 1);
+    panelBackground.drawRect(0, 0, this.panelWidth, this.panelHeight);
+    panelBackground.endFill();
+    panel.addChild(panelBackground);
+
+    const master = params.unitMaster;
+    const title = this.createText(
+      `UNIT ${master.unitId}  Lv ${params.level}`,
+      40
+    );
+    title.position.set(this.padding, this.padding);
+    panel.addChild(title);
+
+    const previewAreaWidth = this.panelWidth * 0.45;
+    const groundY = this.panelHeight - this.padding * 2;
+
+    const ground = new PIXI.Graphics();
+    ground.lineStyle(2, 0x888888, 1);
+    ground.moveTo(this.padding, groundY);
+    ground.lineTo(previewAreaWidth - this.padding, groundY);
+    panel.addChild(ground);
+
+    this.preview = new Unit(params.animationMaster, {
+      x: previewAreaWidth * 0.5,
+      y: groundY
+    });
+    this.preview.requestAnimation(Resource.AnimationTypes.Unit.WALK);
+    panel.addChild(this.preview.sprite);
+
+    const lines = UnitStatusFormatter.format(master);
+    const statusX = previewAreaWidth + this.padding;
+    let statusY = this.padding * 2 + this.lineHeight;
+    for (let i = 0; i < lines.length; i++) {
+      const text = this.createText(lines[i], 28);
+      text.position.set(statusX, statusY);
+      panel.addChild(text);
+      statusY += this.lineHeight;
+    }
+  }
+
+  /**
+   * UpdateObject インターフェース実装
+   * 削除フラグが立っているか返す
+   */
+  public isDestroyed(): boolean {
+    return this._destroyed;
+  }
+
+  /**
+   * UpdateObject インターフェース実装
+   * 歩行と攻撃のアニメーションを交互に再生する
+   */
+  public update(dt: number): void {
+    if (this.isDestroyed()) {
+      return;
+    }
+
+    const cycleFrames = this.walkFrames + this.attackFrames;
+    const frame = this.elapsedFrameCount % cycleFrames;
+    if (frame === 0) {
+      this.preview.requestAnimation(Resource.AnimationTypes.Unit.WALK);
+    } else if (frame === this.walkFrames) {
+      this.preview.requestAnimation(Resource.AnimationTypes.Unit.ATTACK);
+    }
+
+    this.preview.update(dt);
+
+    this.elapsedFrameCount++;
+  }
+
+  /**
+   * モーダルを閉じて破棄する
+   */
+  public close(): void {
+    if (this.isDestroyed()) {
+      return;
+    }
+
+    this.preview.destroy();
+    this.destroy({ children: true });
+    this.onClosed();
+  }
+
+  /**
+   * テキストを生成する
+   */
+  private createText(text: string, fontSize: number): PIXI.Text {
+    return new PIXI.Text(text, {
+      fontSize,
+      fontFamily: Resource.FontFamily.Default,
+      fill: 0xffffff,
+      padding: 4
+    });
+  }
+}
@@ -0,0 +1,219 @@
+import * as PIXI from 'pixi.js';
+import Resource from 'Resource';
+
+/**
+ * ユニットのパネルが押下された時のコールバックの型
+ */
+type UnitPointerDownCallback = (
+  unitId: number,
+  e: PIXI.interaction.InteractionEvent
+) => void;
+
+/**
+ * 編成可能なユニットのパネルを格子状に並べて表示する一覧
+ * 表示しきれない場合はページを切り替えて表示する
+ */
+export default class UnitRoster extends PIXI.Container {
+  /**
+   * 1 ユニット分の枠の幅
+   */
+  public cellWidth: number = 88;
+  /**
+   * 1 ユニット分の枠の高さ
+   */
+  public cellHeight: number = 84;
+  /**
+   * ページ切り替え表示の幅
+   */
+  public pagerWidth: number = 80;
+  /**
+   * 編成済みのユニットの透明度
+   */
+  public deployedAlpha: number = 0.4;
+
+  /**
+   * ユニットのパネルが押下された時のコールバック
+   */
+  public onUnitPointerDown: UnitPointerDownCallback = () => {};
+
+  /**
+   * 表示領域の幅
+   */
+  private viewWidth: number;
+  /**
+   * 表示領域の高さ
+   */
+  private viewHeight: number;
+  /**
+   * ユニットのパネルを保持するコンテナ
+   */
+  private content: PIXI.Container = new PIXI.Container();
+  /**
+   * 現在のページに表示しているユニット ID と紐つけたパネル
+   */
+  private cells: Map<number, PIXI.Sprite> = new Map();
+  /**
+   * ページ番号表示用のテキスト
+   */
+  private pageText: PIXI.Text;
+  /**
+   * 表示するユニット
+   */
+  private units: { unitId: number, texture: PIXI.Texture }[] = [];
+  /**
+   * 編成済みのユニット ID
+   */
+  private deployedUnitIds: number[] = [];
+  /**
+   * 現在のページのインデックス
+   */
+  private page: number = 0;
+
+  /**
+   * コンストラクタ
+   */
+  constructor(viewWidth: number, viewHeight: number) {
+    super();
+
+    this.viewWidth = viewWidth;
+    this.viewHeight = viewHeight;
+
+    const background = new PIXI.Graphics();
+    background.beginFill(0x000000, 0.4);
+    background.drawRect(0, 0, viewWidth, viewHeight);
+    background.endFill();
+    this.addChild(background);
+    this.addChild(this.content);
+
+    const pagerX = viewWidth - this.pagerWidth * 0.5;
+
+    const prev = this.createText('<', 40);
+    prev.position.set(pagerX, viewHeight * 0.2);
+    prev.interactive = true;
+    prev.on('pointerdown', () => this.changePage(-1));
+    this.addChild(prev);
+
+    this.pageText = this.createText('', 24);
+    this.pageText.position.set(pagerX, viewHeight * 0.5);
+    this.addChild(this.pageText);
+
+    const next = this.createText('>', 40);
+    next.position.set(pagerX, viewHeight * 0.8);
+    next.interactive = true;
+    next.on('pointerdown', () => this.changePage(1));
+    this.addChild(next);
+
+    // 一覧の外でドラッグを離した場合にも通知を受けられるようにする
+    this.hitArea = new PIXI.Rectangle(0, 0, viewWidth, viewHeight);
+    this.interactive = true;
+  }
+
+  /**
+   * 1 ページに表示できるユニット数を返す
+   */
+  public get pageSize(): number {
+    const rows = Math.floor(this.viewHeight / this.cellHeight);
+    return this.columnCount * Math.max(rows, 1);
+  }
+
+  /**
+   * 1 行に表示できるユニット数を返す
+   */
+  public get columnCount(): number {
+    const columns = Math.floor(
+      (this.viewWidth - this.pagerWidth) / this.cellWidth
+    );
+    return Math.max(columns, 1);
+  }
+
+  /**
+   * ページ数を返す
+   */
+  public get pageCount(): number {
+    return Math.max(Math.ceil(this.units.length / this.pageSize), 1);
+  }
+
+  /**
+   * 表示するユニットを設定する
+   */
+  public setUnits(units: { unitId: number, texture: PIXI.Texture }[]): void {
+    this.units = units;
+    this.page = 0;
+    this.updateCells();
+  }
+
+  /**
+   * 編成済みのユニット ID を設定し、該当するユニットを半透明にする
+   */
+  public setDeployedUnitIds(unitIds: number[]): void {
+    this.deployedUnitIds = unitIds.slice();
+
+    this.cells.forEach((cell, unitId) => {
+      const deployed = this.deployedUnitIds.indexOf(unitId) !== -1;
+      cell.alpha = deployed ? this.deployedAlpha : 1.0;
+    });
+  }
+
+  /**
+   * ページを切り替える
+   * 範囲外になる場合は反対側のページに戻る
+   */
+  public changePage(addValue: number): void {
+    const pageCount = this.pageCount;
+    this.page = (this.page + addValue + pageCount) % pageCount;
+    this.updateCells();
+  }
+
+  /**
+   * 現在のページのユニットのパネルを並べ直す
+   */
+  private updateCells(): void {
+    this.content.removeChildren();
+    this.cells.clear();
+
+    const pageSize = this.pageSize;
+    const columns = this.columnCount;
+    const start = this.page * pageSize;
+    const end = Math.min(start + pageSize, this.units.length);
+
+    for (let i = start; i < end; i++) {
+      const unit = this.units[i];
+      const index = i - start;
+
+      const cell = new PIXI.Sprite(unit.texture);
+      const scale = Math.min(
+        (this.cellWidth - 8) / unit.texture.width,
+        (this.cellHeight - 8) / unit.texture.height
+      );
+      cell.scale.set(scale);
+      cell.position.set(
+        (index % columns) * this.cellWidth + 4,
+        Math.floor(index / columns) * this.cellHeight + 4
+      );
+      cell.interactive = true;
+      cell.on('pointerdown', (e: PIXI.interaction.InteractionEvent) => {
+        this.onUnitPointerDown(unit.unitId, e);
+      });
+      this.content.addChild(cell);
+      this.cells.set(unit.unitId, cell);
+    }
+
+    this.pageText.text = `${this.page + 1}/${this.pageCount}`;
+    this.setDeployedUnitIds(this.deployedUnitIds);
+  }
+
+  /**
+   * 中央揃えのテキストを生成する
+   */
+  private createText(text: string, fontSize: number): PIXI.Text {
+    const node = new PIXI.Text(text, {
+      fontSize,
+      fontFamily: Resource.FontFamily.Default,
+      fill: 0xffffff,
+      padding: 4
+    });
+    node.anchor.set(0.5);
+
+    return node;
+  }
+}
@@ -0,0 +1,159 @@
+import * as PIXI from 'pixi.js';
+import Resource from 'Resource';
+import StageInfoMaster from 'interfaces/master/StageInfoMaster';
+import Star from 'display/common/Star';
+
+/**
+ * ステージ選択画面で 1 ステージ分の情報を表示するカード
+ */
+export default class StageCard extends PIXI.Container {
+  /**
+   * カードの幅
+   */
+  public static readonly cardWidth: number = 300;
+  /**
+   * カードの高さ
+   */
+  public static readonly cardHeight: number = 380;
+  /**
+   * 表示する星の最大数
+   */
+  public static readonly maxStars: number = 3;
+
+  /**
+   * 余白
+   */
+  public padding: number = 10;
+  /**
+   * サムネイルの高さ
+   */
+  public thumbnailHeight: number = 160;
+  /**
+   * 背景の色
+   */
+  public backgroundColor: number = 0x222222;
+  /**
+   * 枠線の色
+   */
+  public lineColor: number = 0xffffff;
+  /**
+   * 獲得した星の色
+   */
+  public starColor: number = 0xffdd22;
+  /**
+   * 獲得していない星の色
+   */
+  public emptyStarColor: number = 0x555555;
+
+  /**
+   * ステージ ID
+   */
+  public readonly stageId: number;
+  /**
+   * ロックされているかどうか
+   */
+  public readonly locked: boolean;
+
+  /**
+   * コンストラクタ
+   */
+  constructor(master: StageInfoMaster, bestStars: number, locked: boolean) {
+    super();
+
+    this.stageId = master.stageId;
+    this.locked = locked;
+
+    const width = StageCard.cardWidth;
+    const height = StageCard.cardHeight;
+    const innerWidth = width - this.padding * 2;
+
+    const background = new PIXI.Graphics();
+    background.lineStyle(2, this.lineColor, 1);
+    background.beginFill(this.backgroundColor, 1);
+    background.drawRect(0, 0, width, height);
+    background.endFill();
+    this.addChild(background);
+
+    this.addThumbnail(master.thumbnail, innerWidth);
+
+    let y = this.padding * 2 + this.thumbnailHeight;
+
+    const name = this.createText(master.name, 32);
+    name.position.set(this.padding, y);
+    this.addChild(name);
+    y += 48;
+
+    const cost = this.createText(`COST ${master.recommendedCost}`, 24);
+    cost.position.set(this.padding, y);
+    this.addChild(cost);
+    y += 64;
+
+    const starRadius = 20;
+    const interval = innerWidth / StageCard.maxStars;
+    for (let i = 0; i < StageCard.maxStars; i++) {
+      const color = (i < bestStars) ? this.starColor : this.emptyStarColor;
+      const star = new Star(starRadius, color);
+      star.position.set(this.padding + interval * (i + 0.5), y);
+      this.addChild(star);
+    }
+
+    if (locked) {
+      this.addLockedCover();
+    }
+  }
+
+  /**
+   * サムネイルを枠に収まるように切り抜いて表示する
+   */
+  private addThumbnail(url: string, width: number): void {
+    const texture = PIXI.utils.TextureCache[url];
+    if (!texture) {
+      return;
+    }
+
+    const thumbnail = new PIXI.Sprite(texture);
+    const scale = Math.max(
+      width / texture.width,
+      this.thumbnailHeight / texture.height
+    );
+    thumbnail.scale.set(scale);
+    thumbnail.position.set(this.padding, this.padding);
+
+    const mask = new PIXI.Graphics();
+    mask.beginFill(0xffffff, 1);
+    mask.drawRect(this.padding, this.padding, width, this.thumbnailHeight);
+    mask.endFill();
+    thumbnail.mask = mask;
+
+    this.addChild(mask);
+    this.addChild(thumbnail);
+  }
+
+  /**
+   * ロック中であることを示す覆いを表示する
+   */
+  private addLockedCover(): void {
+    const cover = new PIXI.Graphics();
+    cover.beginFill(0x000000, 0.7);
+    cover.drawRect(0, 0, StageCard.cardWidth, StageCard.cardHeight);
+    cover.endFill();
+    this.addChild(cover);
+
+    const text = this.createText('LOCKED', 40);
+    text.anchor.set(0.5);
+    text.position.set(StageCard.cardWidth * 0.5, StageCard.cardHeight * 0.5);
+    this.addChild(text);
+  }
+
+  /**
+   * テキストを生成する
+   */
+  private createText(text: string, fontSize: number): PIXI.Text {
+    return new PIXI.Text(text, {
+      fontSize,
+      fontFamily: Resource.FontFamily.Default,
+      fill: 0xffffff,
+      padding: 4
+    });
+  }
+}
@@ -0,0 +1,171 @@
+import * as PIXI from 'pixi.js';
+import StageInfoMaster from 'interfaces/master/StageInfoMaster';
+import StageCard from 'display/stage_select/StageCard';
+
+/**
+ * StageCard を横に並べ、ドラッグで横スクロールさせるリスト
+ */
+export default class StageCardList extends PIXI.Container {
+  /**
+   * カードの間隔
+   */
+  public cardMargin: number = 32;
+  /**
+   * タップとみなすポインタの移動量の閾値
+   */
+  public tapThreshold: number = 8;
+
+  /**
+   * ロックされていないカードがタップされた時のコールバック
+   */
+  public onStageSelected: (stageId: number) => void = () => {};
+
+  /**
+   * 表示領域の幅
+   */
+  private viewWidth: number;
+  /**
+   * 表示領域の高さ
+   */
+  private viewHeight: number;
+  /**
+   * カードを保持し、スクロールさせるコンテナ
+   */
+  private content: PIXI.Container = new PIXI.Container();
+  /**
+   * ドラッグ中のポインタの直前の X 座標
+   * ドラッグ中でなければ null
+   */
+  private dragLastX: number | null = null;
+  /**
+   * ポインタが押されてからの移動量
+   */
+  private pointerMovedDistance: number = 0;
+
+  /**
+   * コンストラクタ
+   */
+  constructor(viewWidth: number, viewHeight: number) {
+    super();
+
+    this.viewWidth = viewWidth;
+    this.viewHeight = viewHeight;
+
+    // 表示領域外のカードを隠し、領域全体でドラッグを受け付ける
+    const mask = new PIXI.Graphics();
+    mask.beginFill(0xffffff, 1);
+    mask.drawRect(0, 0, viewWidth, viewHeight);
+    mask.endFill();
+    this.addChild(mask);
+    this.content.mask = mask;
+    this.addChild(this.content);
+
+    this.hitArea = new PIXI.Rectangle(0, 0, viewWidth, viewHeight);
+    this.interactive = true;
+    this.on('pointerdown', (e: PIXI.interaction.InteractionEvent) => {
+      this.onPointerDown(e);
+    });
+    this.on('pointermove', (e: PIXI.interaction.InteractionEvent) => {
+      this.onPointerMove(e);
+    });
+    this.on('pointerup', () => this.onPointerUp());
+    this.on('pointerupoutside', () => this.onPointerUp());
+  }
+
+  /**
+   * 表示するステージを設定する
+   */
+  public setStages(stages: {
+    master: StageInfoMaster,
+    bestStars: number,
+    locked: boolean
+  }[]): void {
+    this.content.removeChildren();
+
+    const y = (this.viewHeight - StageCard.cardHeight) * 0.5;
+    for (let i = 0; i < stages.length; i++) {
+      const stage = stages[i];
+      const card = new StageCard(stage.master, stage.bestStars, stage.locked);
+      card.position.set(
+        this.cardMargin + (StageCard.cardWidth + this.cardMargin) * i,
+        y
+      );
+      card.interactive = true;
+      card.on('pointertap', () => this.onCardTapped(card));
+      this.content.addChild(card);
+    }
+
+    this.scrollTo(0);
+  }
+
+  /**
+   * 渡されたステージのカードが表示領域に収まるようにスクロールする
+   */
+  public scrollToStage(stageId: number): void {
+    for (let i = 0; i < this.content.children.length; i++) {
+      const card = this.content.children[i] as StageCard;
+      if (card.stageId !== stageId) {
+        continue;
+      }
+      const center = card.position.x + StageCard.cardWidth * 0.5;
+      this.scrollTo(this.viewWidth * 0.5 - center);
+      return;
+    }
+  }
+
+  /**
+   * スクロール範囲内に丸めて content の X 座標を更新する
+   */
+  private scrollTo(x: number): void {
+    const contentWidth = this.content.children.length
+      * (StageCard.cardWidth + this.cardMargin) + this.cardMargin;
+    const minX = Math.min(0, this.viewWidth - contentWidth);
+    this.content.position.x = Math.max(minX, Math.min(0, x));
+  }
+
+  /**
+   * ドラッグを開始する
+   */
+  private onPointerDown(e: PIXI.interaction.InteractionEvent): void {
+    this.dragLastX = e.data.global.x;
+    this.pointerMovedDistance = 0;
+  }
+
+  /**
+   * ドラッグ中であれば移動量だけスクロールする
+   */
+  private onPointerMove(e: PIXI.interaction.InteractionEvent): void {
+    if (this.dragLastX === null) {
+      return;
+    }
+
+    const x = e.data.global.x;
+    const dx = x - this.dragLastX;
+    this.dragLastX = x;
+    this.pointerMovedDistance += Math.abs(dx);
+
+    this.scrollTo(this.content.position.x + dx);
+  }
+
+  /**
+   * ドラッグを終了する
+   */
+  private onPointerUp(): void {
+    this.dragLastX = null;
+  }
+
+  /**
+   * カードがタップされた時の処理
+   * スクロール操作だった場合やロック中のカードは無視する
+   */
+  private onCardTapped(card: StageCard): void {
+    if (this.pointerMovedDistance > this.tapThreshold) {
+      return;
+    }
+    if (card.locked) {
+      return;
+    }
+
+    this.onStageSelected(card.stageId);
+  }
+}
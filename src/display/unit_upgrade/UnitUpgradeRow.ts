@@ -0,0 +1,162 @@
+import * as PIXI from 'pixi.js';
+import Resource from 'Resource';
+import UnitMaster from 'interfaces/master/UnitMaster';
+
+/**
+ * ユニット強化画面で 1 ユニット分のレベルと能力値、強化ボタンを表示する行
+ */
+export default class UnitUpgradeRow extends PIXI.Container {
+  /**
+   * 行の高さ
+   */
+  public static readonly rowHeight: number = 84;
+
+  /**
+   * 余白
+   */
+  public padding: number = 6;
+  /**
+   * 強化ボタンの幅
+   */
+  public buttonWidth: number = 200;
+  /**
+   * 背景の色
+   */
+  public backgroundColor: number = 0x222222;
+  /**
+   * 強化可能な時のボタンの色
+   */
+  public buttonColor: number = 0x2266cc;
+  /**
+   * 強化できない時のボタンの色
+   */
+  public disabledButtonColor: number = 0x555555;
+
+  /**
+   * ユニット ID
+   */
+  public readonly unitId: number;
+
+  /**
+   * 強化ボタンがタップされた時のコールバック
+   * 強化できない状態ではコールされない
+   */
+  public onUpgradeTapped: (unitId: number) => void = () => {};
+
+  /**
+   * レベル表示用のテキスト
+   */
+  private levelText: PIXI.Text;
+  /**
+   * 能力値表示用のテキスト
+   */
+  private statusText: PIXI.Text;
+  /**
+   * 強化ボタンの背景
+   */
+  private button: PIXI.Graphics = new PIXI.Graphics();
+  /**
+   * 強化ボタンのテキスト
+   */
+  private buttonText: PIXI.Text;
+  /**
+   * 強化可能かどうか
+   */
+  private upgradable: boolean = false;
+
+  /**
+   * コンストラクタ
+   */
+  constructor(unitId: number, panelTexture: PIXI.Texture, width: number) {
+    super();
+
+    this.unitId = unitId;
+
+    const height = UnitUpgradeRow.rowHeight;
+
+    const background = new PIXI.Graphics();
+    background.beginFill(this.backgroundColor, 0.8);
+    background.drawRect(0, 0, width, height);
+    background.endFill();
+    this.addChild(background);
+
+    const panel = new PIXI.Sprite(panelTexture);
+    const panelSize = height - this.padding * 2;
+    panel.scale.set(panelSize / Math.max(panel.width, panel.height));
+    panel.position.set(this.padding, this.padding);
+    this.addChild(panel);
+
+    const textX = panelSize + this.padding * 4;
+
+    this.levelText = this.createText('', 32);
+    this.levelText.position.set(textX, this.padding);
+    this.addChild(this.levelText);
+
+    this.statusText = this.createText('', 24);
+    this.statusText.position.set(textX, height * 0.5 + this.padding);
+    this.addChild(this.statusText);
+
+    this.button.position.set(width - this.buttonWidth - this.padding * 2, 0);
+    this.button.interactive = true;
+    this.button.on('pointerdown', () => {
+      if (this.upgradable) {
+        this.onUpgradeTapped(this.unitId);
+      }
+    });
+    this.addChild(this.button);
+
+    this.buttonText = this.createText('', 32);
+    this.buttonText.anchor.set(0.5);
+    this.buttonText.position.set(this.buttonWidth * 0.5, height * 0.5);
+    this.button.addChild(this.buttonText);
+  }
+
+  /**
+   * 表示内容を更新する
+   * upgradeCost が負の値の場合は最大レベルとして扱う
+   */
+  public setStatus(params: {
+    level: number,
+    maxLevel: number,
+    unitMaster: UnitMaster,
+    upgradeCost: number,
+    affordable: boolean
+  }): void {
+    const master = params.unitMaster;
+    const isMaxLevel = params.upgradeCost < 0;
+
+    this.upgradable = !isMaxLevel && params.affordable;
+
+    this.levelText.text = `Lv ${params.level}/${params.maxLevel}`;
+    this.statusText.text = [
+      `HP ${master.maxHealth}`,
+      `ATK ${master.power}`,
+      `SPD ${Math.round(master.speed * 100) / 100}`
+    ].join('  ');
+    this.buttonText.text = isMaxLevel ? 'MAX' : `UP ${params.upgradeCost}`;
+
+    const height = UnitUpgradeRow.rowHeight;
+    const color = this.upgradable ? this.buttonColor : this.disabledButtonColor;
+    this.button.clear();
+    this.button.beginFill(color, 1);
+    this.button.drawRect(
+      0,
+      this.padding * 2,
+      this.buttonWidth,
+      height - this.padding * 4
+    );
+    this.button.endFill();
+  }
+
+  /**
+   * テキストを生成する
+   */
+  private createText(text: string, fontSize: number): PIXI.Text {
+    return new PIXI.Text(text, {
+      fontSize,
+      fontFamily: Resource.FontFamily.Default,
+      fill: 0xffffff,
+      padding: 4
+    });
+  }
+}
@@ -1,3 +1,5 @@
+import StatusEffectEntity from 'entity/StatusEffectEntity';
+
 /**
  * 拠点のパラメータ
  */
@@ -35,10 +37,40 @@ export default class AttackableEntity {
    * 拠点からの距離
    */
   public distance: number = 0;
+  /**
+   * 所属するレーンのインデックス
+   * -1 の場合は全てのレーンに属する
+   */
+  public lane: number = 0;
+  /**
+   * 当たり判定の幅
+   */
+  public hitbox: number = 0;
+  /**
+   * 射程
+   * 0 の場合は接触した敵とのみ接敵する
+   */
+  public range: number = 0;
+  /**
+   * マスターの攻撃力に対する倍率
+   */
+  public powerRate: number = 1;
+  /**
+   * マスターの移動速度に対する倍率
+   */
+  public speedRate: number = 1;
+  /**
+   * ノックバックしないかどうか
+   */
+  public isKnockBackImmune: boolean = false;
   /**
    * 接敵中のエンティティ
    */
   public engagedEntity: AttackableEntity | null = null;
+  /**
+   * かかっている状態効果
+   */
+  public statusEffects: StatusEffectEntity[] = [];
 
   /**
    * コンストラクタ
@@ -9,6 +9,10 @@ export default class CastleEntity extends AttackableEntity {
    * 拠点 ID
    */
   public castleId: number = 0;
+  /**
+   * 次の攻撃までの残りフレーム数
+   */
+  public attackCooldownFrameCount: number = 0;
 
   /**
    * コンストラクタ
@@ -19,5 +23,8 @@ export default class CastleEntity extends AttackableEntity {
     this.castleId = master.castleId;
     this.maxHealth = master.maxHealth;
     this.currentHealth = this.maxHealth;
+    this.range = master.range || 0;
+    // 拠点は全てのレーンから攻撃される
+    this.lane = -1;
   }
 }
@@ -0,0 +1,63 @@
+import AttackableEntity from 'entity/AttackableEntity';
+import ProjectileMaster from 'interfaces/master/ProjectileMaster';
+import SplashMaster from 'interfaces/master/SplashMaster';
+import StatusEffectMaster from 'interfaces/master/StatusEffectMaster';
+
+/**
+ * 飛翔体のパラメータ
+ */
+export default class ProjectileEntity {
+  /**
+   * 一意の ID
+   * エンティティ生成順に動的に割り当てられる
+   */
+  public id: number = 0;
+  /**
+   * 発射したエンティティ
+   */
+  public attacker: AttackableEntity;
+  /**
+   * 標的のエンティティ
+   */
+  public target: AttackableEntity;
+  /**
+   * 着弾時に与えるダメージ
+   */
+  public power: number = 0;
+  /**
+   * 着弾時の範囲攻撃
+   */
+  public splash: SplashMaster | null = null;
+  /**
+   * 着弾時に与える状態効果
+   */
+  public effects: StatusEffectMaster[] = [];
+  /**
+   * 発射からの経過フレーム数
+   */
+  public elapsedFrameCount: number = 0;
+  /**
+   * 飛翔体マスター
+   */
+  public master: ProjectileMaster;
+
+  /**
+   * コンストラクタ
+   */
+  constructor(
+    attacker: AttackableEntity,
+    target: AttackableEntity,
+    master: ProjectileMaster
+  ) {
+    this.attacker = attacker;
+    this.target = target;
+    this.master = master;
+  }
+
+  /**
+   * 着弾しているかどうかを返す
+   */
+  public isLanded(): boolean {
+    return this.elapsedFrameCount >= this.master.flightFrames;
+  }
+}
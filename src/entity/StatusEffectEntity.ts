@@ -0,0 +1,51 @@
+import AttackableEntity from 'entity/AttackableEntity';
+import StatusEffectMaster from 'interfaces/master/StatusEffectMaster';
+
+/**
+ * エンティティにかかっている状態効果のパラメータ
+ */
+export default class StatusEffectEntity {
+  /**
+   * 状態効果マスター
+   */
+  public master: StatusEffectMaster;
+  /**
+   * 効果を与えたエンティティ
+   */
+  public source: AttackableEntity;
+  /**
+   * 重ね掛けされている数
+   */
+  public stacks: number = 1;
+  /**
+   * 効果の残りフレーム数
+   */
+  public remainingFrameCount: number = 0;
+  /**
+   * 効果がかかってからの経過フレーム数
+   */
+  public elapsedFrameCount: number = 0;
+
+  /**
+   * コンストラクタ
+   */
+  constructor(master: StatusEffectMaster, source: AttackableEntity) {
+    this.master = master;
+    this.source = source;
+    this.remainingFrameCount = master.durationFrames;
+  }
+
+  /**
+   * 状態効果の種別を返す
+   */
+  public get type(): string {
+    return this.master.type;
+  }
+
+  /**
+   * 効果時間が終了しているかどうかを返す
+   */
+  public isExpired(): boolean {
+    return this.remainingFrameCount <= 0;
+  }
+}
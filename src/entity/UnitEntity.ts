@@ -8,6 +8,15 @@ export default class UnitEntity extends AttackableEntity {
    * ユニットID
    */
   public unitId: number  = 0;
+  /**
+   * 生成をリクエストした AIStrategy が付与したタグ
+   */
+  public tag: string | null = null;
+  /**
+   * ボスの現在のフェーズのインデックス
+   * ボスでないか、まだフェーズに移行していない場合は -1
+   */
+  public bossPhaseIndex: number = -1;
 
   /**
    * コンストラクタ
@@ -0,0 +1,9 @@
+/**
+ * AI の行動方針の種別
+ */
+const AIStrategyType = Object.freeze({
+  WAVE_TABLE: 'wave_table',
+  REACTIVE: 'reactive'
+});
+
+export default AIStrategyType;
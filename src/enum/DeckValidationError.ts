@@ -0,0 +1,13 @@
+/**
+ * 編成の検証で見つかった問題の種別
+ */
+const DeckValidationError = Object.freeze({
+  // ユニットが 1 体も編成されていない
+  EMPTY: 'empty',
+  // 同じユニットが複数の枠に編成されている
+  DUPLICATE_UNIT: 'duplicate_unit',
+  // コストの合計がステージの上限を超えている
+  COST_OVER: 'cost_over'
+});
+
+export default DeckValidationError;
@@ -0,0 +1,13 @@
+/**
+ * プレイヤーが発動するスキルの種別
+ */
+const SkillType = Object.freeze({
+  // 最も前に出ている敵ユニットの周囲にダメージを与える
+  METEOR: 'meteor',
+  // 全ての敵ユニットに状態効果を与える
+  FREEZE: 'freeze',
+  // 利用可能なコストを即座に回復する
+  COST_REFUND: 'cost_refund'
+});
+
+export default SkillType;
@@ -0,0 +1,13 @@
+/**
+ * ステージの達成目標の種別
+ */
+const StageObjectiveType = Object.freeze({
+  // 指定フレーム数以内に勝利する
+  WIN_WITHIN_FRAMES: 'win_within_frames',
+  // プレイヤー拠点の体力比率を指定値以上に保って勝利する
+  CASTLE_HEALTH_ABOVE: 'castle_health_above',
+  // 消費コストを指定値以下に抑えて勝利する
+  COST_AT_MOST: 'cost_at_most'
+});
+
+export default StageObjectiveType;
@@ -0,0 +1,15 @@
+/**
+ * 状態異常、及び強化効果の種別
+ */
+const StatusEffectType = Object.freeze({
+  // 一定間隔でダメージを受ける
+  POISON: 'poison',
+  // 移動速度が変化する
+  SLOW: 'slow',
+  // 移動と攻撃ができなくなる
+  STUN: 'stun',
+  // 攻撃力が変化する
+  POWER_UP: 'power_up'
+});
+
+export default StatusEffectType;
@@ -0,0 +1,17 @@
+/**
+ * シナジーの効果の種別
+ */
+const SynergyEffectType = Object.freeze({
+  // ユニットの攻撃力を比率で上げる
+  UNIT_POWER_RATE: 'unit_power_rate',
+  // ユニットの最大体力を比率で上げる
+  UNIT_MAX_HEALTH_RATE: 'unit_max_health_rate',
+  // ユニットの移動速度を比率で上げる
+  UNIT_SPEED_RATE: 'unit_speed_rate',
+  // フレーム毎のコスト回復量を比率で上げる
+  COST_RECOVERY_RATE: 'cost_recovery_rate',
+  // 利用可能コストの上限値を加算する
+  MAX_COST: 'max_cost'
+});
+
+export default SynergyEffectType;
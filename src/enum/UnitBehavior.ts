@@ -0,0 +1,9 @@
+/**
+ * ユニットの振る舞い
+ */
+const UnitBehavior = Object.freeze({
+  ATTACKER: 'attacker',
+  HEALER: 'healer'
+});
+
+export default UnitBehavior;
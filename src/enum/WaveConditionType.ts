@@ -0,0 +1,13 @@
+/**
+ * ウェーブの開始条件の種別
+ */
+const WaveConditionType = Object.freeze({
+  // 指定フレーム数が経過した後
+  FRAME: 'frame',
+  // AI 拠点の体力比率が指定値を下回った時
+  AI_CASTLE_HEALTH: 'ai_castle_health',
+  // 指定したグループのユニットが全滅した時
+  GROUP_DEAD: 'group_dead'
+});
+
+export default WaveConditionType;
@@ -2,7 +2,9 @@ import * as WebFont from 'webfontloader';
 import 'Config';
 import Resource from 'Resource';
 import TitleScene from 'scenes/TitleScene';
+import BattleScene from 'scenes/BattleScene';
 import GameManager from 'managers/GameManager';
+import BattleReplayStorage from 'modules/BattleReplayStorage';
 
 /**
  * ゲームの初期化処理
@@ -18,6 +20,8 @@ function initGame() {
   Debug: {
     // コンソールからオブジェクトを調査できるように window に生やす
     (window as any).GameManager = GameManager;
+    (window as any).BattleScene = BattleScene;
+    (window as any).BattleReplayStorage = BattleReplayStorage;
 
     // 画面キャプチャ
     pixiAppOption.preserveDrawingBuffer = true;
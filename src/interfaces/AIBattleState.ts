@@ -0,0 +1,36 @@
+/**
+ * AIStrategy に渡すエンティティの状態
+ */
+export type AIUnitState = {
+  unitId: number;
+  tag: string | null;
+  lane: number;
+  distance: number;
+  range: number;
+  currentHealth: number;
+  maxHealth: number;
+};
+
+/**
+ * AIStrategy に渡すバトルの状況
+ * BattleLogic が毎フレーム作成する読み取り専用の情報
+ */
+export default interface AIBattleState {
+  passedFrameCount: number;
+  stageLength: number;
+  laneCount: number;
+  availableCost: number;
+  maxAvailableCost: number;
+  castles: {
+    player: {
+      currentHealth: number;
+      maxHealth: number;
+    };
+    ai: {
+      currentHealth: number;
+      maxHealth: number;
+    };
+  };
+  playerUnits: AIUnitState[];
+  aiUnits: AIUnitState[];
+}
@@ -0,0 +1,41 @@
+import AIBattleState from 'interfaces/AIBattleState';
+
+/**
+ * AIStrategy が返すユニット生成リクエスト
+ */
+export type AISpawnRequest = {
+  unitId: number;
+  /**
+   * 生成するレーン
+   * 指定がない場合は BattleLogic が順番に割り当てる
+   */
+  lane?: number;
+  /**
+   * 生成したユニットを識別するためのタグ
+   * AIBattleState の AI ユニットに引き継がれる
+   */
+  tag?: string;
+  /**
+   * 最大体力の倍率
+   */
+  healthRate?: number;
+  /**
+   * 攻撃力の倍率
+   */
+  powerRate?: number;
+};
+
+/**
+ * AI の行動方針のインターフェース
+ * BattleLogic が毎フレーム update を呼び出す
+ */
+export default interface AIStrategy {
+  /**
+   * ユニット生成時に AI のコストを消費するかどうか
+   */
+  readonly consumesCost: boolean;
+  /**
+   * バトルの状況から生成をリクエストするユニットを返す
+   */
+  update(state: AIBattleState): AISpawnRequest[];
+}
@@ -1,6 +1,13 @@
 import AttackableEntity from 'entity/AttackableEntity';
 import UnitEntity from 'entity/UnitEntity';
 import CastleEntity from 'entity/CastleEntity';
+import ProjectileEntity from 'entity/ProjectileEntity';
+import StatusEffectEntity from 'entity/StatusEffectEntity';
+import BattleOutcome from 'interfaces/BattleOutcome';
+import SkillMaster from 'interfaces/master/SkillMaster';
+import BossMaster from 'interfaces/master/BossMaster';
+import BossPhaseMaster from 'interfaces/master/BossPhaseMaster';
+import CostLevelMaster from 'interfaces/master/CostLevelMaster';
 
 /**
  * BattleLogic が委譲する処理を著したインターフェース
@@ -14,6 +21,19 @@ export default interface BattleLogicDelegate {
    * UnitEntity が生成された時のコールバック
    */
   onUnitEntitySpawned(entity: UnitEntity): void;
+  /**
+   * ボスの UnitEntity が生成された時のコールバック
+   * onUnitEntitySpawned の後に呼ばれる
+   */
+  onBossEntitySpawned(entity: UnitEntity, boss: BossMaster): void;
+  /**
+   * ボスのフェーズが移行した時のコールバック
+   */
+  onBossPhaseChanged(
+    entity: UnitEntity,
+    phase: BossPhaseMaster,
+    phaseIndex: number
+  ): void;
   /**
    * エンティティのステートが変更した際のコールバック
    */
@@ -39,6 +59,43 @@ export default interface BattleLogicDelegate {
     toHealth: number,
     maxHealth: number
   ): void;
+  /**
+   * 渡されたエンティティの health が回復した場合に呼ばれる
+   */
+  onAttackableEntityHealed(
+    healer: AttackableEntity,
+    target: AttackableEntity,
+    fromHealth: number,
+    toHealth: number,
+    maxHealth: number
+  ): void;
+  /**
+   * エンティティに状態効果がかかった時のコールバック
+   * 効果時間の更新や重ね掛けの際にも呼ばれる
+   */
+  onStatusEffectApplied(
+    entity: AttackableEntity,
+    effect: StatusEffectEntity
+  ): void;
+  /**
+   * エンティティの状態効果が切れた時のコールバック
+   */
+  onStatusEffectExpired(
+    entity: AttackableEntity,
+    effect: StatusEffectEntity
+  ): void;
+  /**
+   * ProjectileEntity が生成された時のコールバック
+   */
+  onProjectileEntitySpawned(entity: ProjectileEntity): void;
+  /**
+   * ProjectileEntity が移動した時のコールバック
+   */
+  onProjectileEntityMoved(entity: ProjectileEntity, flightRate: number): void;
+  /**
+   * ProjectileEntity が着弾、または消滅した時のコールバック
+   */
+  onProjectileEntityRemoved(entity: ProjectileEntity): void;
   /**
    * 利用可能コストが変動した際のコールバック
    */
@@ -47,23 +104,79 @@ export default interface BattleLogicDelegate {
     maxCost: number,
     availablePlayerUnitIds: number[]
   ): void;
+  /**
+   * プレイヤーユニットの生成クールダウンが変動した際のコールバック
+   * 残りフレーム数が 0 の場合はクールダウンが終了したことを示す
+   */
+  onSpawnCooldownUpdated(
+    unitId: number,
+    remainingFrameCount: number,
+    cooldownFrames: number
+  ): void;
+  /**
+   * 大砲のゲージが変動した際のコールバック
+   */
+  onCastleCannonChargeUpdated(charge: number, maxCharge: number): void;
+  /**
+   * 大砲が発射された際のコールバック
+   * 発射した拠点と攻撃対象となったエンティティを渡す
+   */
+  onCastleCannonFired(
+    castle: CastleEntity,
+    targets: AttackableEntity[]
+  ): void;
+  /**
+   * スキルのゲージが変動した際のコールバック
+   */
+  onSkillChargeUpdated(
+    skillId: number,
+    charge: number,
+    maxCharge: number
+  ): void;
+  /**
+   * スキルが発動した際のコールバック
+   * 効果を受けたエンティティと、範囲攻撃であれば中心のフィールド座標を渡す
+   */
+  onSkillActivated(
+    skill: SkillMaster,
+    targets: AttackableEntity[],
+    fieldPosition?: number
+  ): void;
+  /**
+   * コストレベルが上昇した際のコールバック
+   * 最大レベルに達した場合 nextCostLevel は null となる
+   */
+  onCostLevelUpdated(
+    costLevel: CostLevelMaster,
+    nextCostLevel: CostLevelMaster | null
+  ): void;
   /**
    * ゲームが終了した際のコールバック
+   * 勝敗と達成目標を評価した結果を渡す
+   */
+  onGameOver(outcome: BattleOutcome): void;
+  /**
+   * 以下は BattleLogic の判定を拒否するための任意のフック
+   * 実装されていなければ BattleLogic の判定のみで処理する
    */
-  onGameOver(isPlayerWon: boolean): void;
+
   /**
-   * 渡されたエンティティが接敵可能か返す
+   * 射程内のエンティティと接敵してよいか返す
    */
-  shouldEngageAttackableEntity(
+  shouldEngageAttackableEntity?(
     attacker: AttackableEntity,
     target: AttackableEntity
   ): boolean;
   /**
-   * 渡されたエンティティが攻撃可能か返す
+   * 射程内のエンティティに攻撃してよいか返す
+   */
+  shouldDamage?(attacker: AttackableEntity, target: AttackableEntity): boolean;
+  /**
+   * 回復範囲内のエンティティを回復してよいか返す
    */
-  shouldDamage(attacker: AttackableEntity, target: AttackableEntity): boolean;
+  shouldHeal?(healer: AttackableEntity, target: AttackableEntity): boolean;
   /**
-   * 渡されたユニットが移動可能か返す
+   * 渡されたユニットが移動してよいか返す
    */
-  shouldAttackableWalk(attackable: AttackableEntity): boolean;
+  shouldAttackableWalk?(attackable: AttackableEntity): boolean;
 }
@@ -0,0 +1,40 @@
+import StageObjectiveMaster from 'interfaces/master/StageObjectiveMaster';
+
+/**
+ * バトル終了時に BattleLogic が算出する結果のインターフェース
+ */
+export default interface BattleOutcome {
+  isPlayerWon: boolean;
+  /**
+   * 獲得した星の数
+   * 勝利で 1 つ、達成目標毎に 1 つ加算される
+   */
+  stars: number;
+  /**
+   * 獲得可能な星の数
+   */
+  maxStars: number;
+  /**
+   * 達成目標毎の達成状況
+   */
+  objectives: {
+    master: StageObjectiveMaster;
+    achieved: boolean;
+  }[];
+  /**
+   * 決着までの経過フレーム数
+   */
+  frameCount: number;
+  /**
+   * プレイヤーが生成したユニット数
+   */
+  spawnedUnitCount: number;
+  /**
+   * プレイヤーが消費したコスト
+   */
+  spentCost: number;
+  /**
+   * プレイヤー陣営が与えたダメージの合計
+   */
+  damageDealt: number;
+}
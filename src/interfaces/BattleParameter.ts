@@ -1,4 +1,8 @@
 import CastleMaster from 'interfaces/master/CastleMaster';
+import UnitMaster from 'interfaces/master/UnitMaster';
+import SynergyMaster from 'interfaces/master/SynergyMaster';
+import SkillMaster from 'interfaces/master/SkillMaster';
+import BattleReplay from 'interfaces/BattleReplay';
 /**
  * バトル開始時に渡すパラメータのインターフェース
  */
@@ -11,4 +15,25 @@ export default interface BattleParameter {
     recoveryPerFrame: number;
     max: number;
   };
+  /**
+   * バトル中の乱数生成に用いるシード値
+   */
+  seed: number;
+  /**
+   * レベルを反映したプレイヤーのユニットマスター
+   * 指定されたユニットはプレイヤー側でのみマスターの値の代わりに用いる
+   */
+  playerUnitMasters?: UnitMaster[];
+  /**
+   * プレイヤーの編成で発動しているシナジー
+   */
+  synergies?: SynergyMaster[];
+  /**
+   * プレイヤーがスキル枠に設定したスキル
+   */
+  skills?: SkillMaster[];
+  /**
+   * 指定された場合はリプレイとして再生する
+   */
+  replay?: BattleReplay;
 }
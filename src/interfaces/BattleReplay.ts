@@ -0,0 +1,37 @@
+import CastleMaster from 'interfaces/master/CastleMaster';
+import UnitMaster from 'interfaces/master/UnitMaster';
+import SynergyMaster from 'interfaces/master/SynergyMaster';
+import SkillMaster from 'interfaces/master/SkillMaster';
+
+/**
+ * バトルのリプレイ情報のインターフェース
+ * バトル開始時のパラメータとフレーム毎のユニット生成リクエストで構成される
+ * 大砲の発射リクエストは発射したフレーム数のみを保持する
+ * スキルの発動リクエストはフレーム数とスキル ID を保持する
+ * コストレベルの上昇リクエストは上昇させたフレーム数のみを保持する
+ */
+export default interface BattleReplay {
+  unitSlotCount: number;
+  stageId: number;
+  unitIds: number[];
+  playerCastle: CastleMaster;
+  cost: {
+    recoveryPerFrame: number;
+    max: number;
+  };
+  seed: number;
+  playerUnitMasters?: UnitMaster[];
+  synergies?: SynergyMaster[];
+  skills?: SkillMaster[];
+  spawnRequests: {
+    frame: number;
+    unitId: number;
+    lane?: number;
+  }[];
+  cannonRequests?: number[];
+  skillRequests?: {
+    frame: number;
+    skillId: number;
+  }[];
+  costLevelUpRequests?: number[];
+}
@@ -0,0 +1,75 @@
+import StageMaster from 'interfaces/master/StageMaster';
+import UnitMaster from 'interfaces/master/UnitMaster';
+import CastleMaster from 'interfaces/master/CastleMaster';
+import UnitAnimationMaster from 'interfaces/master/UnitAnimationMaster';
+import SynergyMaster from 'interfaces/master/SynergyMaster';
+import SkillMaster from 'interfaces/master/SkillMaster';
+import BossMaster from 'interfaces/master/BossMaster';
+import CostLevelMaster from 'interfaces/master/CostLevelMaster';
+import AIStrategy from 'interfaces/AIStrategy';
+
+/**
+ * BattleSimulator に渡すパラメータのインターフェース
+ */
+export default interface BattleSimulationParameter {
+  stageMaster: StageMaster;
+  unitMasters: UnitMaster[];
+  unitAnimationMasters: UnitAnimationMaster[];
+  /**
+   * 同じユニット ID の AI ユニットをボスとして扱うマスター
+   */
+  bossMasters?: BossMaster[];
+  /**
+   * バトル中に上昇させるコストレベルのマスター
+   */
+  costLevels?: CostLevelMaster[];
+  player: {
+    unitIds: number[];
+    castle: CastleMaster;
+    /**
+     * レベルを反映したプレイヤーのユニットマスター
+     */
+    unitMasters?: UnitMaster[];
+  };
+  aiCastle: CastleMaster;
+  cost: {
+    recoveryPerFrame: number;
+    max: number;
+  };
+  /**
+   * プレイヤーユニットの生成リクエストを行うフレーム数とユニット ID
+   */
+  spawns: {
+    frame: number;
+    unitId: number;
+    lane?: number;
+  }[];
+  /**
+   * AI の行動方針
+   * 指定がない場合はステージマスターの設定に従う
+   */
+  aiStrategy?: AIStrategy;
+  /**
+   * プレイヤーの編成で発動しているシナジー
+   */
+  synergies?: SynergyMaster[];
+  /**
+   * プレイヤーがスキル枠に設定したスキル
+   */
+  skills?: SkillMaster[];
+  /**
+   * プレイヤーのスキル発動リクエストを行うフレーム数とスキル ID
+   */
+  skillRequests?: {
+    frame: number;
+    skillId: number;
+  }[];
+  /**
+   * プレイヤーのコストレベル上昇リクエストを行うフレーム数
+   */
+  costLevelUpRequests?: number[];
+  /**
+   * 勝敗が決まらない場合に打ち切るフレーム数
+   */
+  maxFrameCount?: number;
+}
@@ -0,0 +1,38 @@
+/**
+ * シミュレーション結果の勝者
+ * 規定フレーム数で勝敗が決まらなかった場合は none
+ */
+export type BattleSimulationWinner = 'player' | 'ai' | 'none';
+
+/**
+ * BattleSimulator が返すバトル結果のインターフェース
+ */
+export default interface BattleSimulationResult {
+  winner: BattleSimulationWinner;
+  frameCount: number;
+  /**
+   * 獲得した星の数
+   * 勝敗が決まらなかった場合は 0
+   */
+  stars: number;
+  castles: {
+    player: {
+      currentHealth: number;
+      maxHealth: number;
+    };
+    ai: {
+      currentHealth: number;
+      maxHealth: number;
+    };
+  };
+  units: {
+    entityId: number;
+    unitId: number;
+    isPlayer: boolean;
+    spawnedFrame: number;
+    damageDealt: number;
+    damageTaken: number;
+    healingDone: number;
+    isAlive: boolean;
+  }[];
+}
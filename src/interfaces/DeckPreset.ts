@@ -0,0 +1,25 @@
+/**
+ * 保存された編成のインターフェース
+ */
+export default interface DeckPreset {
+  /**
+   * プレイヤーが付けた編成名
+   */
+  name: string;
+  /**
+   * 枠順のユニット ID 配列
+   * 空き枠は -1
+   */
+  unitIds: number[];
+}
+
+/**
+ * indexed db に保存される編成一覧のレコード
+ */
+export type DeckPresetRecord = {
+  /**
+   * 最後に選択していた編成のインデックス
+   */
+  selectedIndex: number;
+  presets: DeckPreset[];
+};
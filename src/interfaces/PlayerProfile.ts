@@ -0,0 +1,33 @@
+import UserBattle from 'interfaces/api/UserBattle';
+
+/**
+ * ステージ毎の挑戦記録
+ */
+export type StageRecord = {
+  clearCount: number;
+  bestStars: number;
+};
+
+/**
+ * 端末に保存されるプレイヤーの進行状況のインターフェース
+ * user_battle API の内容を初期値として作成される
+ */
+export default interface PlayerProfile extends UserBattle {
+  /**
+   * 所持している通貨
+   */
+  currency: number;
+  /**
+   * ステージ ID をキーにした挑戦記録
+   */
+  stageRecords: {
+    [stageId: number]: StageRecord;
+  };
+  /**
+   * ユニット ID をキーにしたユニットのレベル
+   * 存在しないユニットはレベル 1 として扱う
+   */
+  unitLevels: {
+    [unitId: number]: number;
+  };
+}
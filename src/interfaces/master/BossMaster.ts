@@ -0,0 +1,21 @@
+import BossPhaseMaster from 'interfaces/master/BossPhaseMaster';
+
+/**
+ * ボスのスキーマ定義
+ * 同じユニット ID の AI ユニットはボスとして振舞う
+ */
+export default interface BossMaster {
+  unitId: number;
+  /**
+   * ボスの体力ゲージに表示する名前
+   */
+  name: string;
+  /**
+   * 生成時からノックバックしないかどうか
+   */
+  knockBackImmune?: boolean;
+  /**
+   * 体力比率の閾値が高い順に移行するフェーズ
+   */
+  phases: BossPhaseMaster[];
+}
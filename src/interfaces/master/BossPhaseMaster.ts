@@ -0,0 +1,41 @@
+import { UnitAnimationTypeIndex } from 'interfaces/master/UnitAnimationMaster';
+import { WaveSpawnMaster } from 'interfaces/master/WaveGroupMaster';
+
+/**
+ * ボスのフェーズのスキーマ定義
+ * 体力が閾値を下回った時に移行し、以降のフェーズに移行するまで効果が続く
+ */
+export default interface BossPhaseMaster {
+  /**
+   * フェーズに移行する体力比率の閾値
+   */
+  healthRate: number;
+  /**
+   * 移動速度の倍率
+   * 前のフェーズまでの倍率に乗じる
+   */
+  speedRate?: number;
+  /**
+   * 攻撃力の倍率
+   * 生成時に指定された倍率と前のフェーズまでの倍率に乗じる
+   */
+  powerRate?: number;
+  /**
+   * ノックバックしなくなるかどうか
+   */
+  knockBackImmune?: boolean;
+  /**
+   * フェーズ移行時に AI 側に生成するユニット
+   */
+  summons?: WaveSpawnMaster[];
+  /**
+   * 差し替えるアニメーション
+   * 指定のない種別はユニットのアニメーションを用いる
+   */
+  animationTypes?: {
+    [key in UnitAnimationTypeIndex]?: {
+      updateDuration: number;
+      frames: string[];
+    }
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * 拠点の大砲パラメータマスターのスキーマ定義
+ * ゲージはコストと同様にフレーム毎に回復する
+ */
+export default interface CastleCannonMaster {
+  /**
+   * 敵ユニット全てに与えるダメージ
+   */
+  power: number;
+  /**
+   * ゲージの上限値
+   * ゲージが上限に達すると発射できる
+   */
+  maxCharge: number;
+  /**
+   * フレームごとのゲージ回復量
+   */
+  chargePerFrame: number;
+}
@@ -1,7 +1,34 @@
 import AttackableMaster from 'interfaces/master/AttackableMaster';
+import ProjectileMaster from 'interfaces/master/ProjectileMaster';
+import CastleCannonMaster from 'interfaces/master/CastleCannonMaster';
 /**
  * 拠点パラメータマスターのスキーマ定義
  */
 export default interface CastleMaster extends AttackableMaster {
   castleId: number;
+  /**
+   * 当たり判定の幅
+   * 指定がなければ BattleLogicConfig の値を用いる
+   */
+  hitbox?: number;
+  /**
+   * 射程
+   * power が 0 より大きい場合は射程内の最も近い敵を攻撃する
+   */
+  range?: number;
+  /**
+   * 攻撃間隔のフレーム数
+   * 指定がなければ BattleLogicConfig の値を用いる
+   */
+  attackIntervalFrames?: number;
+  /**
+   * 飛翔体
+   * 指定されている場合は攻撃時に飛翔体を発射し、着弾時にダメージを与える
+   */
+  projectile?: ProjectileMaster;
+  /**
+   * 大砲
+   * プレイヤーの拠点に指定されている場合は大砲を発射できる
+   */
+  cannon?: CastleCannonMaster;
 }
@@ -0,0 +1,19 @@
+/**
+ * バトル中のコストレベルのスキーマ定義
+ * 回復量と上限値は UserBattle の cost に対する倍率で指定する
+ */
+export default interface CostLevelMaster {
+  level: number;
+  /**
+   * このレベルに上げるために消費するコスト
+   */
+  price: number;
+  /**
+   * フレームごとのコスト回復量の倍率
+   */
+  recoveryRate: number;
+  /**
+   * 利用可能コストの上限値の倍率
+   */
+  maxCostRate: number;
+}
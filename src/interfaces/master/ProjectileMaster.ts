@@ -0,0 +1,17 @@
+/**
+ * 飛翔体パラメータマスターのスキーマ定義
+ */
+export default interface ProjectileMaster {
+  /**
+   * 発射から着弾までのフレーム数
+   */
+  flightFrames: number;
+  /**
+   * 弾道の最高点の高さ
+   */
+  arcHeight?: number;
+  /**
+   * 表示色
+   */
+  color?: number;
+}
@@ -0,0 +1,39 @@
+import StatusEffectMaster from 'interfaces/master/StatusEffectMaster';
+
+/**
+ * プレイヤーが発動するスキルのスキーマ定義
+ * 発動にはゲージが溜まっていることと、利用可能なコストが足りていることが必要
+ */
+export default interface SkillMaster {
+  skillId: number;
+  name: string;
+  /**
+   * SkillType の値
+   */
+  type: string;
+  /**
+   * 発動時に消費するコスト
+   */
+  cost: number;
+  /**
+   * ゲージが溜まるまでのフレーム数
+   * バトル開始時と発動後は 0 から溜め直す
+   */
+  chargeFrames: number;
+  /**
+   * meteor で与えるダメージ
+   */
+  power?: number;
+  /**
+   * meteor の効果範囲の半径
+   */
+  radius?: number;
+  /**
+   * cost_refund で回復するコスト
+   */
+  value?: number;
+  /**
+   * freeze で与える状態効果
+   */
+  statusEffect?: StatusEffectMaster;
+}
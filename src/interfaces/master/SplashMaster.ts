@@ -0,0 +1,19 @@
+/**
+ * 範囲攻撃パラメータマスターのスキーマ定義
+ */
+export default interface SplashMaster {
+  /**
+   * 接敵中の標的を中心とした攻撃範囲の半径
+   */
+  radius: number;
+  /**
+   * 標的を含めた最大攻撃対象数
+   * 指定がなければ範囲内の全ての敵が対象となる
+   */
+  maxTargets?: number;
+  /**
+   * 範囲の端でのダメージ減衰率
+   * 0.5 の場合、範囲の端では 50% のダメージとなる
+   */
+  falloff?: number;
+}
@@ -0,0 +1,22 @@
+/**
+ * ステージの AI 設定マスターのスキーマ定義
+ */
+export default interface StageAIMaster {
+  /**
+   * AIStrategyType のいずれか
+   */
+  strategy: string;
+  /**
+   * AI が生成できるユニット ID
+   * wave_table の場合は waves に記述されたユニットを用いる
+   */
+  unitIds?: number[];
+  /**
+   * AI のコスト
+   * コストを消費する行動方針で用いる
+   */
+  cost?: {
+    max: number;
+    recoveryPerFrame: number;
+  };
+}
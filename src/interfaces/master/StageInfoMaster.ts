@@ -0,0 +1,15 @@
+/**
+ * ステージ選択画面に表示するステージ情報マスターのスキーマ定義
+ */
+export default interface StageInfoMaster {
+  stageId: number;
+  name: string;
+  /**
+   * サムネイルとして表示する画像の url
+   */
+  thumbnail: string;
+  /**
+   * 推奨される編成コスト
+   */
+  recommendedCost: number;
+}
@@ -1,3 +1,17 @@
+import StageAIMaster from 'interfaces/master/StageAIMaster';
+import WaveGroupMaster from 'interfaces/master/WaveGroupMaster';
+import StageObjectiveMaster from 'interfaces/master/StageObjectiveMaster';
+import StageRewardMaster from 'interfaces/master/StageRewardMaster';
+
+/**
+ * 経過フレーム数をキーにした旧形式のウェーブ定義
+ */
+export type StageWaveTable = {
+  [key: string]: {
+    unitId: number;
+  }[];
+};
+
 /**
  * ステージ情報マスターのスキーマ定義
  */
@@ -5,10 +19,35 @@ export default interface StageMaster {
   id: number;
   length: number;
   zLines: number;
+  /**
+   * 独立したレーンの数
+   * 指定がない場合は 1 レーンとして扱う
+   */
+  lanes?: number;
   aiCastleId: number;
-  waves: {
-    [key: string]: {
-      unitId: number;
-    }[];
-  };
+  /**
+   * 編成できるユニットのコストの合計の上限
+   * 指定がない場合は上限なし
+   */
+  maxDeckCost?: number;
+  /**
+   * ウェーブ定義
+   * 旧形式の経過フレーム数をキーにした定義も受け付ける
+   * ウェーブ定義に従わない AI 設定の場合は省略できる
+   */
+  waves?: StageWaveTable | WaveGroupMaster[];
+  /**
+   * AI 設定
+   * 指定がない場合は waves に従ってユニットを生成する
+   */
+  ai?: StageAIMaster;
+  /**
+   * 達成目標
+   * 勝利した上で達成した目標の数だけ星が加算される
+   */
+  objectives?: StageObjectiveMaster[];
+  /**
+   * 勝利時の報酬
+   */
+  reward?: StageRewardMaster;
 }
@@ -0,0 +1,21 @@
+/**
+ * ステージの達成目標のスキーマ定義
+ */
+export default interface StageObjectiveMaster {
+  /**
+   * StageObjectiveType のいずれか
+   */
+  type: string;
+  /**
+   * win_within_frames の場合の経過フレーム数
+   */
+  frames?: number;
+  /**
+   * castle_health_above の場合の体力比率
+   */
+  healthRate?: number;
+  /**
+   * cost_at_most の場合の消費コスト
+   */
+  cost?: number;
+}
@@ -0,0 +1,17 @@
+/**
+ * ステージ勝利時の報酬のスキーマ定義
+ */
+export default interface StageRewardMaster {
+  /**
+   * 勝利する度に得られる通貨
+   */
+  currency: number;
+  /**
+   * 初回勝利時に追加で得られる通貨
+   */
+  firstClearCurrency?: number;
+  /**
+   * 初回勝利時に解放されるユニット ID
+   */
+  unlockUnitIds?: number[];
+}
@@ -0,0 +1,37 @@
+/**
+ * 状態効果の重ね掛け時の振舞い
+ * - refresh: 効果時間を更新する
+ * - stack: 最大スタック数まで効果を重ねて効果時間を更新する
+ * - ignore: 既に同種の効果がかかっていれば何もしない
+ */
+export type StatusEffectStacking = 'refresh' | 'stack' | 'ignore';
+
+/**
+ * 状態効果パラメータマスターのスキーマ定義
+ */
+export default interface StatusEffectMaster {
+  /**
+   * StatusEffectType の値
+   */
+  type: string;
+  /**
+   * 効果の持続フレーム数
+   */
+  durationFrames: number;
+  /**
+   * 効果量
+   * poison では 1 回あたりのダメージ、slow と power_up では倍率となる
+   */
+  value?: number;
+  /**
+   * poison のダメージ間隔フレーム数
+   */
+  tickIntervalFrames?: number;
+  stacking?: StatusEffectStacking;
+  maxStacks?: number;
+  /**
+   * 効果を与える対象
+   * self の場合は攻撃したエンティティ自身に効果を与える
+   */
+  target?: 'target' | 'self';
+}
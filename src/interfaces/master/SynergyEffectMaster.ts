@@ -0,0 +1,18 @@
+/**
+ * シナジーの効果のスキーマ定義
+ */
+export default interface SynergyEffectMaster {
+  /**
+   * SynergyEffectType のいずれか
+   */
+  type: string;
+  /**
+   * 比率の場合は上昇率、加算の場合は加算値
+   */
+  value: number;
+  /**
+   * ユニットに対する効果の場合に対象とする分類
+   * 指定がない場合は編成中の全てのユニットを対象とする
+   */
+  targetTag?: string;
+}
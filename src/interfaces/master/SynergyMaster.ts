@@ -0,0 +1,28 @@
+import SynergyEffectMaster from 'interfaces/master/SynergyEffectMaster';
+
+/**
+ * 編成の組み合わせで発動するシナジーのスキーマ定義
+ * 条件が複数指定されている場合は全てを満たした時に発動する
+ */
+export default interface SynergyMaster {
+  synergyId: number;
+  name: string;
+  /**
+   * 編成画面で表示する効果の説明
+   */
+  description: string;
+  /**
+   * 全て編成されている必要があるユニット ID
+   */
+  requiredUnitIds?: number[];
+  /**
+   * 一定数編成されている必要があるユニットの分類
+   */
+  requiredTag?: string;
+  /**
+   * requiredTag を持つユニットの必要数
+   * 指定がない場合は 1 体
+   */
+  requiredTagCount?: number;
+  effects: SynergyEffectMaster[];
+}
@@ -0,0 +1,31 @@
+/**
+ * ユニットの成長曲線のスキーマ定義
+ * レベル 1 の時に UnitMaster の値となり、レベルが上がる毎に基礎値に対する上昇率分だけ加算される
+ */
+export default interface UnitGrowthMaster {
+  unitId: number;
+  /**
+   * 到達できる最大レベル
+   */
+  maxLevel: number;
+  /**
+   * レベルが 1 上がる毎の最大体力の上昇率
+   */
+  maxHealthRate: number;
+  /**
+   * レベルが 1 上がる毎の攻撃力の上昇率
+   */
+  powerRate: number;
+  /**
+   * レベルが 1 上がる毎の移動速度の上昇率
+   */
+  speedRate: number;
+  /**
+   * レベル 1 から 2 に上げる際に必要な通貨
+   */
+  baseUpgradeCost: number;
+  /**
+   * レベルが 1 上がる毎に必要な通貨に掛ける倍率
+   */
+  upgradeCostRate: number;
+}
@@ -1,7 +1,48 @@
 import AttackableMaster from 'interfaces/master/AttackableMaster';
+import ProjectileMaster from 'interfaces/master/ProjectileMaster';
+import SplashMaster from 'interfaces/master/SplashMaster';
+import StatusEffectMaster from 'interfaces/master/StatusEffectMaster';
 /**
  * ユニットパラメータマスターのスキーマ定義
  */
 export default interface UnitMaster extends AttackableMaster {
   unitId: number;
+  /**
+   * シナジーの判定に用いる分類
+   */
+  tags?: string[];
+  /**
+   * 振る舞い
+   * UnitBehavior のいずれか、未指定の場合は attacker として扱う
+   * healer の場合は power を回復量、range を回復範囲として用いる
+   */
+  behavior?: string;
+  /**
+   * プレイヤーが生成した後、再度生成できるようになるまでのフレーム数
+   */
+  spawnCooldownFrames?: number;
+  /**
+   * 当たり判定の幅
+   * 指定がなければ BattleLogicConfig の値を用いる
+   */
+  hitbox?: number;
+  /**
+   * 射程
+   * 指定されている場合は自身の中心から敵の当たり判定の端までの距離で接敵する
+   */
+  range?: number;
+  /**
+   * 飛翔体
+   * 指定されている場合は攻撃時に飛翔体を発射し、着弾時にダメージを与える
+   */
+  projectile?: ProjectileMaster;
+  /**
+   * 範囲攻撃
+   * 指定されている場合は標的の周囲の敵にもダメージを与える
+   */
+  splash?: SplashMaster;
+  /**
+   * 攻撃が命中した時に与える状態効果
+   */
+  onHitEffects?: StatusEffectMaster[];
 }
@@ -0,0 +1,70 @@
+/**
+ * ウェーブで生成するユニットのスキーマ定義
+ */
+export type WaveSpawnMaster = {
+  unitId: number;
+  /**
+   * 生成するレーン
+   */
+  lane?: number;
+  /**
+   * 一度に生成する数
+   */
+  count?: number;
+  /**
+   * 最大体力の倍率
+   */
+  healthRate?: number;
+  /**
+   * 攻撃力の倍率
+   */
+  powerRate?: number;
+};
+
+/**
+ * ウェーブの開始条件のスキーマ定義
+ */
+export type WaveConditionMaster = {
+  /**
+   * WaveConditionType のいずれか
+   */
+  type: string;
+  /**
+   * frame の場合の経過フレーム数
+   */
+  frame?: number;
+  /**
+   * ai_castle_health の場合の体力比率
+   */
+  healthRate?: number;
+  /**
+   * group_dead の場合のグループ ID
+   * 指定がない場合は一つ前のグループを対象とする
+   */
+  groupId?: string;
+};
+
+/**
+ * ウェーブのグループマスターのスキーマ定義
+ * 開始条件を全て満たした後、spawns を interval 毎に repeat 回生成する
+ */
+export default interface WaveGroupMaster {
+  /**
+   * 開始条件から参照するためのグループ ID
+   */
+  id?: string;
+  spawns: WaveSpawnMaster[];
+  /**
+   * 生成を繰り返す回数
+   */
+  repeat?: number;
+  /**
+   * 生成を繰り返す間隔のフレーム数
+   */
+  interval?: number;
+  /**
+   * 開始条件
+   * 指定がない場合はバトル開始と同時に開始する
+   */
+  conditions?: WaveConditionMaster[];
+}
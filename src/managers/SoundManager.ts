@@ -36,9 +36,17 @@ export default class SoundManager {
   private static readonly supportedExtensions = ['mp3'];
 
   /**
-   * 一時停止中かどうかのフラグ
+   * pause によって一時停止が要求されているかどうかのフラグ
    */
   private paused: boolean = false;
+  /**
+   * ウィンドウが非表示になっているかどうかのフラグ
+   */
+  private windowHidden: boolean = false;
+  /**
+   * 管理下の Sound インスタンスを一時停止しているかどうかのフラグ
+   */
+  private soundsPaused: boolean = false;
 
   /**
    * フェード処理後に削除する Sound インスタンスのリスト
@@ -240,17 +248,24 @@ export default class SoundManager {
   ): void {
     if (browser.name === 'safari') {
       document.addEventListener('webkitvisibilitychange', () => {
-        (document as any).webkitHidden
-          ? SoundManager.pause()
-          : SoundManager.resume();
+        SoundManager.setWindowHidden((document as any).webkitHidden);
       });
     } else {
       document.addEventListener('visibilitychange', () => {
-        document.hidden ? SoundManager.pause() : SoundManager.resume();
+        SoundManager.setWindowHidden(document.hidden);
       });
     }
   }
 
+  /**
+   * ウィンドウの表示状態を更新する
+   * 再表示されても pause による一時停止中であれば再開しない
+   */
+  private static setWindowHidden(hidden: boolean): void {
+    SoundManager.instance.windowHidden = hidden;
+    SoundManager.updatePlaybackState();
+  }
+
   /**
    * 渡された Sound インスタンスを渡された名前に紐つけて SoundManager 管理下にする
    */
@@ -298,23 +313,32 @@ export default class SoundManager {
    * 管理下の Sound インスタンスをすべて一時停止する
    */
   public static pause(): void {
-    const instance = SoundManager.instance;
-    if (instance.paused) {
-      return;
-    }
-    instance.paused = true;
-    instance.managedSounds.forEach((sound) => { sound.pause(); });
+    SoundManager.instance.paused = true;
+    SoundManager.updatePlaybackState();
   }
   /**
    * 管理下の Sound インスタンスの再生をすべて再開する
+   * ウィンドウが非表示の間は再表示されるまで再開しない
    */
   public static resume(): void {
+    SoundManager.instance.paused = false;
+    SoundManager.updatePlaybackState();
+  }
+  /**
+   * 一時停止の要求とウィンドウの表示状態から再生状態を切り替える
+   */
+  private static updatePlaybackState(): void {
     const instance = SoundManager.instance;
-    if (!instance.paused) {
+    const shouldPause = instance.paused || instance.windowHidden;
+    if (instance.soundsPaused === shouldPause) {
       return;
     }
-    instance.paused = false;
-    instance.managedSounds.forEach((sound) => { sound.resume(); });
+    instance.soundsPaused = shouldPause;
+    if (shouldPause) {
+      instance.managedSounds.forEach((sound) => { sound.pause(); });
+    } else {
+      instance.managedSounds.forEach((sound) => { sound.resume(); });
+    }
   }
 
   /**
@@ -0,0 +1,67 @@
+import StageMaster from 'interfaces/master/StageMaster';
+import UnitMaster from 'interfaces/master/UnitMaster';
+import AIStrategy from 'interfaces/AIStrategy';
+import AIStrategyType from 'enum/AIStrategyType';
+import WaveTableAIStrategy from 'modules/AIStrategy/WaveTableAIStrategy';
+import ReactiveAIStrategy from 'modules/AIStrategy/ReactiveAIStrategy';
+
+/**
+ * ステージマスターの設定に応じた AIStrategy を生成する
+ */
+export default class AIStrategyFactory {
+  /**
+   * AIStrategy を生成する
+   * AI 設定がない場合は StageMaster.waves に従う行動方針を用いる
+   */
+  public static create(
+    stageMaster: StageMaster,
+    unitMasters: UnitMaster[]
+  ): AIStrategy {
+    const ai = stageMaster.ai;
+    if (!ai) {
+      return new WaveTableAIStrategy(stageMaster);
+    }
+
+    switch (ai.strategy) {
+      case AIStrategyType.REACTIVE: {
+        const unitIds = ai.unitIds || AIStrategyFactory.getUnitIds(stageMaster);
+        return new ReactiveAIStrategy(unitIds, unitMasters);
+      }
+      case AIStrategyType.WAVE_TABLE: {
+        return new WaveTableAIStrategy(stageMaster);
+      }
+      default: {
+        throw new Error(`unknown ai strategy: ${ai.strategy}`);
+      }
+    }
+  }
+
+  /**
+   * AI が生成しうるユニット ID を返す
+   * AI 設定に指定がない場合は waves に記述されたユニットを用いる
+   */
+  public static getUnitIds(stageMaster: StageMaster): number[] {
+    const unitIds: number[] = [];
+    if (stageMaster.ai && stageMaster.ai.unitIds) {
+      for (let i = 0; i < stageMaster.ai.unitIds.length; i++) {
+        const unitId = stageMaster.ai.unitIds[i];
+        if (unitIds.indexOf(unitId) === -1) {
+          unitIds.push(unitId);
+        }
+      }
+    }
+
+    const groups = WaveTableAIStrategy.compileWaves(stageMaster);
+    for (let i = 0; i < groups.length; i++) {
+      const spawns = groups[i].spawns;
+      for (let j = 0; j < spawns.length; j++) {
+        const unitId = spawns[j].unitId;
+        if (unitIds.indexOf(unitId) === -1) {
+          unitIds.push(unitId);
+        }
+      }
+    }
+
+    return unitIds;
+  }
+}
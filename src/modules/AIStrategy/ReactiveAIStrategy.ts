@@ -0,0 +1,220 @@
+import UnitMaster from 'interfaces/master/UnitMaster';
+import AIBattleState, { AIUnitState } from 'interfaces/AIBattleState';
+import AIStrategy, { AISpawnRequest } from 'interfaces/AIStrategy';
+
+/**
+ * プレイヤーの編成や拠点の体力、経過時間に応じてユニットを生成する行動方針
+ * AI のコストを消費してユニットを生成する
+ */
+export default class ReactiveAIStrategy implements AIStrategy {
+  /**
+   * AIStrategy 実装
+   */
+  public readonly consumesCost: boolean = true;
+
+  /**
+   * 行動を判断するフレーム間隔
+   */
+  public decisionIntervalFrames: number = 30;
+  /**
+   * プレイヤーユニットを脅威とみなすステージ長に対する進行率
+   */
+  public threatDistanceRate: number = 0.5;
+  /**
+   * 防衛を優先する拠点の体力比率
+   */
+  public defenseHealthRate: number = 0.5;
+  /**
+   * 範囲攻撃ユニットで対処するプレイヤーユニット数
+   */
+  public crowdUnitCount: number = 3;
+  /**
+   * コストを溜める割合が最小になるまでのフレーム数
+   */
+  public pressureFrames: number = 60 * 60 * 2;
+  /**
+   * コストを溜める割合の最小値
+   */
+  public minSavingRate: number = 0.3;
+
+  /**
+   * 生成できるユニットのマスター
+   */
+  private unitMasters: UnitMaster[] = [];
+
+  /**
+   * コンストラクタ
+   */
+  constructor(unitIds: number[], unitMasters: UnitMaster[]) {
+    for (let i = 0; i < unitMasters.length; i++) {
+      const master = unitMasters[i];
+      if (unitIds.indexOf(master.unitId) !== -1) {
+        this.unitMasters.push(master);
+      }
+    }
+  }
+
+  /**
+   * AIStrategy 実装
+   * 一定間隔で状況を判断し、生成するユニット ID を返す
+   */
+  public update(state: AIBattleState): AISpawnRequest[] {
+    if (state.passedFrameCount % this.decisionIntervalFrames !== 0) {
+      return [];
+    }
+
+    const candidates = this.unitMasters.filter((master) => {
+      return master.cost <= state.availableCost;
+    });
+    if (candidates.length === 0) {
+      return [];
+    }
+
+    // 拠点に迫るプレイヤーユニットがいるか拠点の体力が減っていれば防衛する
+    const threatDistance = state.stageLength * this.threatDistanceRate;
+    const threats = state.playerUnits.filter((unit) => {
+      return unit.distance >= threatDistance;
+    });
+    const castle = state.castles.ai;
+    const isCastleDamaged =
+      castle.currentHealth < castle.maxHealth * this.defenseHealthRate;
+    if (threats.length > 0 || isCastleDamaged) {
+      // 最も拠点に迫っているユニットのレーンを防衛する
+      const lane = (threats.length > 0)
+        ? threats.reduce((a, b) => (b.distance > a.distance) ? b : a).lane
+        : this.getMostOutnumberedLane(state);
+      const laneUnits = state.playerUnits.filter(unit => unit.lane === lane);
+      const unit = this.chooseCounterUnit(candidates, laneUnits);
+      return [{ lane, unitId: unit.unitId }];
+    }
+
+    // 数で劣っている場合は安価なユニットで数を揃える
+    if (state.playerUnits.length > state.aiUnits.length) {
+      return [{
+        lane: this.getMostOutnumberedLane(state),
+        unitId: this.chooseCheapestUnit(candidates).unitId
+      }];
+    }
+
+    // 攻勢に出る場合はコストを溜めて強力なユニットを生成する
+    // 経過時間に応じて溜めるコストを減らし、攻勢を強める
+    const elapsedRate = Math.min(
+      state.passedFrameCount / this.pressureFrames,
+      1
+    );
+    const savingRate = 1 - (1 - this.minSavingRate) * elapsedRate;
+    const savingCost = Math.min(
+      this.getMaxUnitCost(),
+      state.maxAvailableCost
+    ) * savingRate;
+    if (state.availableCost < savingCost) {
+      return [];
+    }
+
+    return [{
+      lane: this.getLeastDefendedLane(state),
+      unitId: this.chooseStrongestUnit(candidates).unitId
+    }];
+  }
+
+  /**
+   * AI ユニットに対するプレイヤーユニットの数が最も多いレーンを返す
+   */
+  private getMostOutnumberedLane(state: AIBattleState): number {
+    const counts = this.countUnitsByLane(state);
+    let lane = 0;
+    for (let i = 1; i < state.laneCount; i++) {
+      const deficit = counts.player[i] - counts.ai[i];
+      if (deficit > counts.player[lane] - counts.ai[lane]) {
+        lane = i;
+      }
+    }
+    return lane;
+  }
+
+  /**
+   * プレイヤーユニットの数が最も少ないレーンを返す
+   */
+  private getLeastDefendedLane(state: AIBattleState): number {
+    const counts = this.countUnitsByLane(state);
+    let lane = 0;
+    for (let i = 1; i < state.laneCount; i++) {
+      if (counts.player[i] < counts.player[lane]) {
+        lane = i;
+      }
+    }
+    return lane;
+  }
+
+  /**
+   * レーン毎のユニット数を返す
+   */
+  private countUnitsByLane(
+    state: AIBattleState
+  ): { player: number[], ai: number[] } {
+    const counts = {
+      player: [] as number[],
+      ai: [] as number[]
+    };
+    for (let i = 0; i < state.laneCount; i++) {
+      counts.player.push(0);
+      counts.ai.push(0);
+    }
+    for (let i = 0; i < state.playerUnits.length; i++) {
+      counts.player[state.playerUnits[i].lane]++;
+    }
+    for (let i = 0; i < state.aiUnits.length; i++) {
+      counts.ai[state.aiUnits[i].lane]++;
+    }
+    return counts;
+  }
+
+  /**
+   * プレイヤーの編成に対して有効なユニットを返す
+   * 数が多ければ範囲攻撃、射程を持つユニットがいれば足の速いユニットを優先する
+   */
+  private chooseCounterUnit(
+    candidates: UnitMaster[],
+    playerUnits: AIUnitState[]
+  ): UnitMaster {
+    if (playerUnits.length >= this.crowdUnitCount) {
+      const splashUnits = candidates.filter(master => !!master.splash);
+      if (splashUnits.length > 0) {
+        return this.chooseStrongestUnit(splashUnits);
+      }
+    }
+
+    const hasRangedUnit = playerUnits.some(unit => unit.range > 0);
+    if (hasRangedUnit) {
+      return candidates.reduce((a, b) => (b.speed > a.speed) ? b : a);
+    }
+
+    return candidates.reduce((a, b) => (b.maxHealth > a.maxHealth) ? b : a);
+  }
+
+  /**
+   * 最もコストの低いユニットを返す
+   */
+  private chooseCheapestUnit(candidates: UnitMaster[]): UnitMaster {
+    return candidates.reduce((a, b) => (b.cost < a.cost) ? b : a);
+  }
+
+  /**
+   * 攻撃力と体力から最も強力なユニットを返す
+   */
+  private chooseStrongestUnit(candidates: UnitMaster[]): UnitMaster {
+    const score = (master: UnitMaster) => master.power * master.maxHealth;
+    return candidates.reduce((a, b) => (score(b) > score(a)) ? b : a);
+  }
+
+  /**
+   * 生成できるユニットの最大コストを返す
+   */
+  private getMaxUnitCost(): number {
+    let maxCost = 0;
+    for (let i = 0; i < this.unitMasters.length; i++) {
+      maxCost = Math.max(maxCost, this.unitMasters[i].cost);
+    }
+    return maxCost;
+  }
+}
@@ -0,0 +1,235 @@
+import StageMaster from 'interfaces/master/StageMaster';
+import WaveGroupMaster, {
+  WaveConditionMaster
+} from 'interfaces/master/WaveGroupMaster';
+import AIBattleState from 'interfaces/AIBattleState';
+import AIStrategy, { AISpawnRequest } from 'interfaces/AIStrategy';
+import WaveConditionType from 'enum/WaveConditionType';
+
+/**
+ * 実行中のウェーブグループの状態
+ */
+type WaveGroupSchedule = {
+  master: WaveGroupMaster;
+  tag: string;
+  startedFrame: number;
+  lastSpawnedFrame: number;
+  spawnedCount: number;
+};
+
+/**
+ * StageMaster.waves に記述されたウェーブ定義に従ってユニットを生成する行動方針
+ * コストは消費しない
+ */
+export default class WaveTableAIStrategy implements AIStrategy {
+  /**
+   * AIStrategy 実装
+   */
+  public readonly consumesCost: boolean = false;
+
+  /**
+   * ウェーブグループ毎の生成スケジュール
+   */
+  private schedules: WaveGroupSchedule[] = [];
+  /**
+   * グループ ID に紐つけたスケジュールのインデックス
+   */
+  private scheduleIndices: Map<string, number> = new Map();
+
+  /**
+   * ウェーブ定義をグループの配列に変換する
+   * 旧形式の経過フレーム数をキーにした定義は frame 条件のグループとして扱う
+   * グループ ID が重複している場合は例外を投げる
+   */
+  public static compileWaves(stageMaster: StageMaster): WaveGroupMaster[] {
+    const waves = stageMaster.waves || [];
+    if (Array.isArray(waves)) {
+      const ids = new Set<string>();
+      for (let i = 0; i < waves.length; i++) {
+        const id = waves[i].id;
+        if (!id) {
+          continue;
+        }
+        if (ids.has(id)) {
+          throw new Error(`duplicate wave group id: ${id}`);
+        }
+        ids.add(id);
+      }
+      return waves;
+    }
+
+    const groups: WaveGroupMaster[] = [];
+    const keys = Object.keys(waves);
+    for (let i = 0; i < keys.length; i++) {
+      const key = keys[i];
+      groups.push({
+        spawns: waves[key],
+        conditions: [{
+          type: WaveConditionType.FRAME,
+          frame: Number.parseInt(key, 10)
+        }]
+      });
+    }
+
+    return groups;
+  }
+
+  /**
+   * コンストラクタ
+   */
+  constructor(stageMaster: StageMaster) {
+    const groups = WaveTableAIStrategy.compileWaves(stageMaster);
+    for (let i = 0; i < groups.length; i++) {
+      const group = groups[i];
+      // ID のないグループはインデックスで識別し、ID と衝突しないよう区別する
+      const tag = (group.id) ? `wave_${group.id}` : `wave_#${i}`;
+      if (group.id) {
+        this.scheduleIndices.set(group.id, i);
+      }
+      this.schedules.push({
+        tag,
+        master: group,
+        startedFrame: -1,
+        lastSpawnedFrame: -1,
+        spawnedCount: 0
+      });
+    }
+  }
+
+  /**
+   * AIStrategy 実装
+   * 開始条件を満たしたグループのうち、生成タイミングのユニットを返す
+   */
+  public update(state: AIBattleState): AISpawnRequest[] {
+    const requests: AISpawnRequest[] = [];
+
+    for (let i = 0; i < this.schedules.length; i++) {
+      const schedule = this.schedules[i];
+      const master = schedule.master;
+      const repeat = (master.repeat !== undefined) ? master.repeat : 1;
+      if (schedule.spawnedCount >= repeat) {
+        continue;
+      }
+
+      if (schedule.startedFrame < 0) {
+        if (!this.isConditionsSatisfied(i, state)) {
+          continue;
+        }
+        schedule.startedFrame = state.passedFrameCount;
+      }
+
+      const interval = master.interval || 0;
+      const elapsed = state.passedFrameCount - schedule.startedFrame;
+      while (
+        schedule.spawnedCount < repeat &&
+        elapsed >= interval * schedule.spawnedCount
+      ) {
+        this.pushSpawnRequests(schedule, requests);
+        schedule.spawnedCount++;
+        schedule.lastSpawnedFrame = state.passedFrameCount;
+      }
+    }
+
+    return requests;
+  }
+
+  /**
+   * グループの生成リクエストを追加する
+   */
+  private pushSpawnRequests(
+    schedule: WaveGroupSchedule,
+    requests: AISpawnRequest[]
+  ): void {
+    const spawns = schedule.master.spawns;
+    for (let i = 0; i < spawns.length; i++) {
+      const spawn = spawns[i];
+      const count = (spawn.count !== undefined) ? spawn.count : 1;
+      for (let j = 0; j < count; j++) {
+        requests.push({
+          unitId: spawn.unitId,
+          lane: spawn.lane,
+          tag: schedule.tag,
+          healthRate: spawn.healthRate,
+          powerRate: spawn.powerRate
+        });
+      }
+    }
+  }
+
+  /**
+   * 指定したグループの開始条件を全て満たしているかどうかを返す
+   */
+  private isConditionsSatisfied(index: number, state: AIBattleState): boolean {
+    const conditions = this.schedules[index].master.conditions;
+    if (!conditions) {
+      return true;
+    }
+
+    for (let i = 0; i < conditions.length; i++) {
+      if (!this.isConditionSatisfied(index, conditions[i], state)) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * 開始条件を満たしているかどうかを返す
+   */
+  private isConditionSatisfied(
+    index: number,
+    condition: WaveConditionMaster,
+    state: AIBattleState
+  ): boolean {
+    switch (condition.type) {
+      case WaveConditionType.FRAME: {
+        return state.passedFrameCount >= (condition.frame || 0);
+      }
+      case WaveConditionType.AI_CASTLE_HEALTH: {
+        const castle = state.castles.ai;
+        const rate = (condition.healthRate !== undefined)
+          ? condition.healthRate
+          : 1;
+        return castle.currentHealth < castle.maxHealth * rate;
+      }
+      case WaveConditionType.GROUP_DEAD: {
+        const targetIndex = (condition.groupId !== undefined)
+          ? this.scheduleIndices.get(condition.groupId)
+          : index - 1;
+        if (targetIndex === undefined || targetIndex < 0) {
+          return true;
+        }
+        return this.isGroupDead(targetIndex, state);
+      }
+      default: {
+        throw new Error(`unknown wave condition: ${condition.type}`);
+      }
+    }
+  }
+
+  /**
+   * 指定したグループが全て生成された上で全滅しているかどうかを返す
+   */
+  private isGroupDead(index: number, state: AIBattleState): boolean {
+    const schedule = this.schedules[index];
+    const repeat = (schedule.master.repeat !== undefined)
+      ? schedule.master.repeat
+      : 1;
+    if (schedule.spawnedCount < repeat) {
+      return false;
+    }
+    // 生成をリクエストしたフレームではまだユニットが存在しない
+    if (state.passedFrameCount <= schedule.lastSpawnedFrame) {
+      return false;
+    }
+
+    for (let i = 0; i < state.aiUnits.length; i++) {
+      if (state.aiUnits[i].tag === schedule.tag) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
@@ -2,12 +2,32 @@ import StageMaster from 'interfaces/master/StageMaster';
 import AttackableMaster from 'interfaces/master/AttackableMaster';
 import UnitMaster from 'interfaces/master/UnitMaster';
 import CastleMaster from 'interfaces/master/CastleMaster';
+import ProjectileMaster from 'interfaces/master/ProjectileMaster';
+import SplashMaster from 'interfaces/master/SplashMaster';
+import StatusEffectMaster from 'interfaces/master/StatusEffectMaster';
+import StageObjectiveMaster from 'interfaces/master/StageObjectiveMaster';
+import SynergyMaster from 'interfaces/master/SynergyMaster';
+import SkillMaster from 'interfaces/master/SkillMaster';
+import BossMaster from 'interfaces/master/BossMaster';
+import BossPhaseMaster from 'interfaces/master/BossPhaseMaster';
+import CostLevelMaster from 'interfaces/master/CostLevelMaster';
 import BattleLogicDelegate from 'interfaces/BattleLogicDelegate';
+import BattleOutcome from 'interfaces/BattleOutcome';
+import AIStrategy, { AISpawnRequest } from 'interfaces/AIStrategy';
+import { AIUnitState } from 'interfaces/AIBattleState';
 import BattleLogicConfig from 'modules/BattleLogicConfig';
+import AIStrategyFactory from 'modules/AIStrategy/AIStrategyFactory';
+import DeckSynergy from 'modules/DeckSynergy';
 import AttackableState from 'enum/AttackableState';
+import StatusEffectType from 'enum/StatusEffectType';
+import StageObjectiveType from 'enum/StageObjectiveType';
+import SkillType from 'enum/SkillType';
+import UnitBehavior from 'enum/UnitBehavior';
 import AttackableEntity from 'entity/AttackableEntity';
 import UnitEntity from 'entity/UnitEntity';
 import CastleEntity from 'entity/CastleEntity';
+import ProjectileEntity from 'entity/ProjectileEntity';
+import StatusEffectEntity from 'entity/StatusEffectEntity';
 
 /**
  * ゲーム内バトルパートのマネージャ
@@ -28,6 +48,10 @@ export default class BattleLogic {
    * 現在の利用可能なコスト
    */
   private availableCost: number = 0;
+  /**
+   * AI の現在の利用可能なコスト
+   */
+  private aiAvailableCost: number = 0;
   /**
    * 次に割り当てるエンティティID
    */
@@ -36,6 +60,10 @@ export default class BattleLogic {
    * 生成済みの Unit インスタンスを保持する配列
    */
   private attackableEntities: AttackableEntity[] = [];
+  /**
+   * 飛翔中の ProjectileEntity インスタンスを保持する配列
+   */
+  private projectileEntities: ProjectileEntity[] = [];
   /**
    * 生成済みの Castle インスタンスを保持する配列
    */
@@ -52,25 +80,136 @@ export default class BattleLogic {
    * UnitMaster をキャッシュするための Map
    */
   private unitMasterCache: Map<number, UnitMaster> = new Map();
+  /**
+   * プレイヤー側でのみ用いる UnitMaster をキャッシュするための Map
+   * ユニットのレベルが反映されている
+   */
+  private playerUnitMasterCache: Map<number, UnitMaster> = new Map();
   /**
    * CastleMaster をキャッシュするための Map
    */
   private castleMasterCache: Map<number, CastleMaster> = new Map();
   /**
-   * StageMaster.waves をキャッシュするための Map
+   * ユニット ID に紐つけた BossMaster のキャッシュ
+   */
+  private bossMasterCache: Map<number, BossMaster> = new Map();
+  /**
+   * AI の行動方針
    */
-  private aiWaveCache: Map<number, { unitId: number }[]> = new Map();
+  private aiStrategy: AIStrategy | null = null;
   /**
    * 外部から生成をリクエストされたユニット情報を保持する配列
    */
   private spawnRequestedUnitUnitIds: {
     unitId: number,
-    isPlayer: boolean
+    isPlayer: boolean,
+    lane: number,
+    aiRequest?: AISpawnRequest,
+    isSummoned?: boolean
+  }[] = [];
+  /**
+   * ユニット ID に紐つけたプレイヤーユニットの生成クールダウン残りフレーム数
+   */
+  private spawnCooldownFrameCounts: Map<number, number> = new Map();
+  /**
+   * プレイヤーによるユニット生成リクエストの記録
+   * リクエストを受け付けたフレーム数と共に保持する
+   */
+  private spawnRequestLog: {
+    frame: number,
+    unitId: number,
+    lane: number
+  }[] = [];
+  /**
+   * リプレイとして再生するユニット生成リクエストのフレーム数をキーにした Map
+   */
+  private replaySpawnRequests: Map<number, {
+    unitId: number,
+    lane: number
+  }[]> = new Map();
+  /**
+   * ステージのレーン数
+   */
+  private laneCount: number = 1;
+  /**
+   * レーン指定のない AI ユニットを次に生成するレーン
+   */
+  private nextAILane: number = 0;
+  /**
+   * 大砲のゲージ
+   */
+  private castleCannonCharge: number = 0;
+  /**
+   * 大砲の発射がリクエストされているかどうか
+   */
+  private isCastleCannonRequested: boolean = false;
+  /**
+   * プレイヤーによる大砲発射リクエストを受け付けたフレーム数の記録
+   */
+  private castleCannonRequestLog: number[] = [];
+  /**
+   * リプレイとして再生する大砲発射リクエストのフレーム数
+   */
+  private replayCastleCannonRequests: Set<number> = new Set();
+  /**
+   * SkillMaster をキャッシュするための Map
+   */
+  private skillMasterCache: Map<number, SkillMaster> = new Map();
+  /**
+   * スキル ID に紐つけたゲージの溜まったフレーム数
+   */
+  private skillChargeFrameCounts: Map<number, number> = new Map();
+  /**
+   * 発動がリクエストされているスキル ID
+   */
+  private requestedSkillIds: number[] = [];
+  /**
+   * プレイヤーによるスキル発動リクエストの記録
+   */
+  private skillRequestLog: {
+    frame: number,
+    skillId: number
   }[] = [];
+  /**
+   * リプレイとして再生するスキル発動リクエストのフレーム数をキーにした Map
+   */
+  private replaySkillRequests: Map<number, number[]> = new Map();
+  /**
+   * レベルの昇順に並べたコストレベルマスター
+   */
+  private costLevelMasters: CostLevelMaster[] = [];
+  /**
+   * 現在のコストレベルの costLevelMasters でのインデックス
+   */
+  private costLevelIndex: number = 0;
+  /**
+   * コストレベルの上昇がリクエストされているかどうか
+   */
+  private isCostLevelUpRequested: boolean = false;
+  /**
+   * プレイヤーによるコストレベル上昇リクエストを受け付けたフレーム数の記録
+   */
+  private costLevelUpRequestLog: number[] = [];
+  /**
+   * リプレイとして再生するコストレベル上昇リクエストのフレーム数
+   */
+  private replayCostLevelUpRequests: Set<number> = new Set();
   /**
    * 経過フレーム数
    */
   private passedFrameCount: number = 0;
+  /**
+   * プレイヤーが生成したユニット数
+   */
+  private playerSpawnedUnitCount: number = 0;
+  /**
+   * プレイヤーが消費したコスト
+   */
+  private playerSpentCost: number = 0;
+  /**
+   * プレイヤー陣営が与えたダメージの合計
+   */
+  private playerDamageDealt: number = 0;
 
   /**
    * 勝敗が決まっているかどうか
@@ -94,12 +233,22 @@ export default class BattleLogic {
     unitMasters: UnitMaster[],
     player: {
       unitIds: number[],
-      castle: CastleMaster
+      castle: CastleMaster,
+      unitMasters?: UnitMaster[]
     },
     ai: {
       castle: CastleMaster
     },
-    config?: BattleLogicConfig
+    config?: BattleLogicConfig,
+    aiStrategy?: AIStrategy,
+    synergies?: SynergyMaster[],
+    skills?: SkillMaster[],
+    bossMasters?: BossMaster[],
+    costLevels?: CostLevelMaster[],
+    replaySpawnRequests?: { frame: number, unitId: number, lane?: number }[],
+    replayCastleCannonRequests?: number[],
+    replaySkillRequests?: { frame: number, skillId: number }[],
+    replayCostLevelUpRequests?: number[]
   }): void {
     if (params.config) {
       this.config = Object.freeze(params.config);
@@ -109,28 +258,117 @@ export default class BattleLogic {
     this.player = params.player;
 
     // キャッシュクリア
-    this.aiWaveCache.clear();
     this.unitMasterCache.clear();
+    this.playerUnitMasterCache.clear();
+    this.bossMasterCache.clear();
+    this.replaySpawnRequests.clear();
+    this.spawnRequestLog = [];
+    this.spawnCooldownFrameCounts.clear();
+    this.replayCastleCannonRequests.clear();
+    this.castleCannonRequestLog = [];
+    this.skillMasterCache.clear();
+    this.skillChargeFrameCounts.clear();
+    this.requestedSkillIds = [];
+    this.skillRequestLog = [];
+    this.replaySkillRequests.clear();
+    this.isCostLevelUpRequested = false;
+    this.costLevelUpRequestLog = [];
+    this.replayCostLevelUpRequests.clear();
 
     // マスターのキャッシュ処理
     this.stageMasterCache = params.stageMaster;
+    this.laneCount = Math.max(params.stageMaster.lanes || 1, 1);
+    this.nextAILane = 0;
     // 拠点マスターのキャッシュ処理
     this.castleMasterCache.set(this.player.castle.castleId, this.player.castle);
     this.castleMasterCache.set(params.ai.castle.castleId, params.ai.castle);
 
-    // AI生成情報のキャッシュ
-    const waves = this.stageMasterCache.waves;
-    const keys = Object.keys(waves);
-    for (let i = 0; i < keys.length; i++) {
-      const key = keys[i];
-      this.aiWaveCache.set(Number.parseInt(key, 10), waves[key]);
+    // AI の行動方針の設定
+    this.aiStrategy = params.aiStrategy || AIStrategyFactory.create(
+      params.stageMaster,
+      params.unitMasters
+    );
+    this.aiAvailableCost = 0;
+
+    // リプレイ情報のキャッシュ
+    if (params.replaySpawnRequests) {
+      for (let i = 0; i < params.replaySpawnRequests.length; i++) {
+        const request = params.replaySpawnRequests[i];
+        const requests = this.replaySpawnRequests.get(request.frame) || [];
+        requests.push({ unitId: request.unitId, lane: request.lane || 0 });
+        this.replaySpawnRequests.set(request.frame, requests);
+      }
+    }
+    if (params.replayCastleCannonRequests) {
+      for (let i = 0; i < params.replayCastleCannonRequests.length; i++) {
+        this.replayCastleCannonRequests.add(
+          params.replayCastleCannonRequests[i]
+        );
+      }
+    }
+    if (params.replaySkillRequests) {
+      for (let i = 0; i < params.replaySkillRequests.length; i++) {
+        const request = params.replaySkillRequests[i];
+        const skillIds = this.replaySkillRequests.get(request.frame) || [];
+        skillIds.push(request.skillId);
+        this.replaySkillRequests.set(request.frame, skillIds);
+      }
+    }
+    if (params.replayCostLevelUpRequests) {
+      for (let i = 0; i < params.replayCostLevelUpRequests.length; i++) {
+        this.replayCostLevelUpRequests.add(
+          params.replayCostLevelUpRequests[i]
+        );
+      }
+    }
+
+    // コストレベル情報のキャッシュ
+    this.costLevelMasters = (params.costLevels || []).slice().sort((a, b) => {
+      return a.level - b.level;
+    });
+    this.costLevelIndex = 0;
+
+    // スキル情報のキャッシュ
+    const skills = params.skills || [];
+    for (let i = 0; i < skills.length; i++) {
+      this.skillMasterCache.set(skills[i].skillId, skills[i]);
+      this.skillChargeFrameCounts.set(skills[i].skillId, 0);
     }
 
     // ユニット情報のキャッシュ
     for (let i = 0; i < params.unitMasters.length; i++) {
       const unit = params.unitMasters[i];
+      this.validateUnitMaster(unit);
       this.unitMasterCache.set(unit.unitId, unit);
     }
+    const bossMasters = params.bossMasters || [];
+    for (let i = 0; i < bossMasters.length; i++) {
+      this.bossMasterCache.set(bossMasters[i].unitId, bossMasters[i]);
+    }
+    const playerUnitMasters = params.player.unitMasters || [];
+    for (let i = 0; i < playerUnitMasters.length; i++) {
+      const unit = playerUnitMasters[i];
+      this.validateUnitMaster(unit);
+      this.playerUnitMasterCache.set(unit.unitId, unit);
+    }
+
+    // シナジーの効果をプレイヤーのユニットとコストに反映する
+    const synergies = params.synergies || [];
+    if (synergies.length > 0) {
+      for (let i = 0; i < this.player.unitIds.length; i++) {
+        const unitId = this.player.unitIds[i];
+        const master = this.getUnitMaster(unitId, true);
+        if (master) {
+          this.playerUnitMasterCache.set(
+            unitId,
+            DeckSynergy.applyToUnitMaster(master, synergies)
+          );
+        }
+      }
+      this.config = Object.freeze(
+        DeckSynergy.applyToConfig(this.config, synergies)
+      );
+    }
 
     this.castleEntities = {
       player: this.spawnCastle(this.player.castle, true),
@@ -140,23 +378,151 @@ export default class BattleLogic {
 
   /**
    * Unit 生成をリクエストする
+   * 存在しないレーンが指定された場合は範囲内に丸める
    */
-  public requestSpawn(unitId: number, isPlayer: boolean): void {
-    this.spawnRequestedUnitUnitIds.push({ unitId, isPlayer });
+  public requestSpawn(
+    unitId: number,
+    isPlayer: boolean,
+    lane: number = 0
+  ): void {
+    const clampedLane = Math.min(Math.max(lane, 0), this.laneCount - 1);
+    this.spawnRequestedUnitUnitIds.push({
+      unitId,
+      isPlayer,
+      lane: clampedLane
+    });
+
+    // リプレイ用にプレイヤーのリクエストのみ記録する
+    if (isPlayer) {
+      this.spawnRequestLog.push({
+        unitId,
+        lane: clampedLane,
+        frame: this.passedFrameCount
+      });
+    }
   }
   /**
    * Unit 生成をリクエストする
    * プレイヤーユニット生成リクエストのシュガー
    */
-  public requestSpawnPlayer(unitId: number): void {
-    this.requestSpawn(unitId, true);
+  public requestSpawnPlayer(unitId: number, lane: number = 0): void {
+    this.requestSpawn(unitId, true, lane);
   }
   /**
    * Unit 生成をリクエストする
    * AIユニット生成リクエストのシュガー
    */
-  public requestSpawnAI(unitId: number): void {
-    this.requestSpawn(unitId, false);
+  public requestSpawnAI(unitId: number, lane: number = 0): void {
+    this.requestSpawn(unitId, false, lane);
+  }
+
+  /**
+   * 記録されたプレイヤーのユニット生成リクエストを返す
+   */
+  public getSpawnRequestLog(): {
+    frame: number,
+    unitId: number,
+    lane: number
+  }[] {
+    return this.spawnRequestLog.slice();
+  }
+
+  /**
+   * ステージのレーン数を返す
+   */
+  public getLaneCount(): number {
+    return this.laneCount;
+  }
+
+  /**
+   * エンティティのフィールド座標を返す
+   * 両陣営で共通の座標で、プレイヤー側のフィールド端を 0 とする
+   */
+  public getFieldPosition(entity: AttackableEntity): number {
+    const offset = this.config.castleOffset + entity.distance;
+    if (entity.isPlayer) {
+      return offset;
+    }
+
+    const fieldLength = this.stageMasterCache
+      ? this.stageMasterCache.length
+      : 0;
+    return fieldLength - offset;
+  }
+
+  /**
+   * 大砲の発射をリクエストする
+   * ゲージが上限に達していなければ受け付けない
+   */
+  public requestCastleCannon(): void {
+    const cannon = this.player!.castle.cannon;
+    if (!cannon || this.isGameOver || this.isCastleCannonRequested) {
+      return;
+    }
+    if (this.castleCannonCharge < cannon.maxCharge) {
+      return;
+    }
+
+    this.isCastleCannonRequested = true;
+    this.castleCannonRequestLog.push(this.passedFrameCount);
+  }
+
+  /**
+   * 記録されたプレイヤーの大砲発射リクエストを返す
+   */
+  public getCastleCannonRequestLog(): number[] {
+    return this.castleCannonRequestLog.slice();
+  }
+
+  /**
+   * スキルの発動をリクエストする
+   * ゲージが溜まっていないか、コストが足りなければ受け付けない
+   */
+  public requestSkill(skillId: number): void {
+    const skill = this.skillMasterCache.get(skillId);
+    if (!skill || this.isGameOver) {
+      return;
+    }
+    if (this.requestedSkillIds.indexOf(skillId) !== -1) {
+      return;
+    }
+    if (!this.isSkillCharged(skill) || this.availableCost < skill.cost) {
+      return;
+    }
+
+    this.requestedSkillIds.push(skillId);
+    this.skillRequestLog.push({ skillId, frame: this.passedFrameCount });
+  }
+
+  /**
+   * 記録されたプレイヤーのスキル発動リクエストを返す
+   */
+  public getSkillRequestLog(): { frame: number, skillId: number }[] {
+    return this.skillRequestLog.slice();
+  }
+
+  /**
+   * コストレベルの上昇をリクエストする
+   * 最大レベルに達しているか、コストが足りなければ受け付けない
+   */
+  public requestCostLevelUp(): void {
+    if (this.isGameOver || this.isCostLevelUpRequested) {
+      return;
+    }
+    const nextLevel = this.getNextCostLevelMaster();
+    if (!nextLevel || this.availableCost < nextLevel.price) {
+      return;
+    }
+
+    this.isCostLevelUpRequested = true;
+    this.costLevelUpRequestLog.push(this.passedFrameCount);
+  }
+
+  /**
+   * 記録されたプレイヤーのコストレベル上昇リクエストを返す
+   */
+  public getCostLevelUpRequestLog(): number[] {
+    return this.costLevelUpRequestLog.slice();
   }
 
   /**
@@ -165,16 +531,47 @@ export default class BattleLogic {
    */
   public update(): void {
     if (!this.isGameOver) {
+      // リプレイのユニット生成リクエスト発行
+      this.updateReplaySpawn();
+      // リプレイの大砲発射リクエスト発行
+      this.updateReplayCastleCannon();
+      // リプレイのスキル発動リクエスト発行
+      this.updateReplaySkill();
+      // リプレイのコストレベル上昇リクエスト発行
+      this.updateReplayCostLevelUp();
       // ゲーム終了判定
       this.updateGameOver();
       // コスト回復
-      this.updateAvailableCost(this.availableCost + this.config.costRecoveryPerFrame);
+      this.updateAvailableCost(
+        this.availableCost + this.getCostRecoveryPerFrame()
+      );
+      this.updateAIAvailableCost();
+      // 大砲のゲージ回復
+      this.updateCastleCannonCharge();
+      // スキルのゲージ回復
+      this.updateSkillCharge();
+      // ユニット生成クールダウンの更新
+      this.updateSpawnCooldown();
       // AI ユニットの生成リクエスト発行
       this.updateAISpawn();
       // リクエストされているユニット生成実行
       this.updateSpawnRequest();
+      // リクエストされている大砲発射実行
+      this.updateCastleCannonRequest();
+      // リクエストされているスキル発動実行
+      this.updateSkillRequest();
+      // リクエストされているコストレベル上昇実行
+      this.updateCostLevelUpRequest();
+      // 状態効果の更新
+      this.updateStatusEffects();
       // エンティティパラメータの更新
       this.updateEntityParameter();
+      // 拠点の攻撃
+      this.updateCastleAttack();
+      // 飛翔体の更新
+      this.updateProjectiles();
+      // ボスのフェーズ移行
+      this.updateBossPhases();
       // エンティティのステート変更
       this.updateEntityState();
     }
@@ -194,6 +591,9 @@ export default class BattleLogic {
       const entity = this.attackableEntities[i];
       if (entity.state !== AttackableState.DEAD) {
         activeAttackableEntities.push(entity);
+      } else {
+        // 死亡したエンティティの状態効果は全て解除する
+        this.clearStatusEffects(entity);
       }
     }
 
@@ -213,7 +613,10 @@ export default class BattleLogic {
     for (let i = 0; i < this.attackableEntities.length; i++) {
       const attackable = this.attackableEntities[i];
       const master = (attackable as UnitEntity).unitId
-        ? this.unitMasterCache.get((attackable as UnitEntity).unitId)
+        ? this.getUnitMaster(
+          (attackable as UnitEntity).unitId,
+          attackable.isPlayer
+        )
         : this.castleMasterCache.get((attackable as CastleEntity).castleId);
       if (!master) {
         continue;
@@ -273,215 +676,1352 @@ export default class BattleLogic {
    * ダメージ判定を行い、必要に応じて以下を更新する。
    * - currentHealth
    * - currentFrameDamage
+   * 飛翔体を持つ場合はダメージを与えずに飛翔体を生成する
    */
   private updateDamage(attackable: AttackableEntity, master: AttackableMaster): void {
-    if (!attackable.engagedEntity) {
+    const target = attackable.engagedEntity;
+    if (!target) {
       return;
     }
-
-    // ダメージを与えられるかどうかの判断をデリゲータに委譲する
-    const shouldDamage = this.delegator ? this.delegator.shouldDamage(attackable, attackable.engagedEntity) : true;
-    if (shouldDamage) {
-      const newHealth = attackable.engagedEntity.currentHealth - master.power;
-      attackable.engagedEntity.currentFrameDamage += master.power;
-      attackable.engagedEntity.currentHealth = newHealth;
-      // ダメージを与えた後の処理をデリゲータに委譲する
-      if (this.delegator) {
-        this.delegator.onAttackableEntityHealthUpdated(
-          attackable,
-          attackable.engagedEntity,
-          attackable.engagedEntity.currentHealth + master.power,
-          attackable.engagedEntity.currentHealth,
-          attackable.engagedEntity.maxHealth
-        );
-      }
+    // スタン中は攻撃できない
+    if (this.hasStatusEffect(attackable, StatusEffectType.STUN)) {
+      return;
     }
-  }
-  /**
-   * 移動可能か判定し、必要なら以下を更新する。
-   * - distance
-   * - currentKnockBackFrameCount
-   */
-  private updateDistance(attackable: AttackableEntity, master: AttackableMaster): void {
-    if (attackable.state === AttackableState.KNOCK_BACK) {
-      attackable.distance -= master.knockBackSpeed;
-      attackable.currentKnockBackFrameCount++;
-      if (this.delegator) {
-        const rate = attackable.currentKnockBackFrameCount / master.knockBackFrames;
-        this.delegator.onAttackableEntityKnockingBack(attackable, rate);
-      }
-    } else {
-      attackable.currentKnockBackFrameCount = 0;
 
-      if (attackable.state === AttackableState.IDLE) {
-        attackable.currentKnockBackFrameCount = 0;
+    const power = master.power * attackable.powerRate *
+      this.getStatusEffectRate(attackable, StatusEffectType.POWER_UP);
 
-        // 移動可能かどうかの判断をデリゲータに委譲する
-        const shouldWalk = this.delegator ? this.delegator.shouldAttackableWalk(attackable) : true;
-        if (shouldWalk) {
-          attackable.distance += master.speed;
-          // 移動した後の処理をデリゲータに委譲する
-          if (this.delegator) {
-            this.delegator.onAttackableEntityWalked(attackable);
-          }
-        }
+    // 回復役は味方を回復し、敵には攻撃しない
+    if (this.isHealer(attackable)) {
+      if (target.isPlayer !== attackable.isPlayer) {
+        return;
       }
+      // 回復を見送るかどうかの判断をデリゲータに委譲する
+      const shouldHeal = (this.delegator && this.delegator.shouldHeal)
+        ? this.delegator.shouldHeal(attackable, target)
+        : true;
+      if (shouldHeal) {
+        this.applyHeal(attackable, target, power);
+      }
+      return;
     }
-  }
-
-  /**
-   * ノックバック時のステート更新処理
-   */
-  private updateAttackableKnockBackState(attackable: AttackableEntity): void {
-    attackable.engagedEntity = null;
-
-    // TODO: should not read master for each entity
-    const master = (attackable as UnitEntity).unitId
-      ? this.unitMasterCache.get((attackable as UnitEntity).unitId)
-      : this.castleMasterCache.get((attackable as CastleEntity).castleId);
 
-    if (!master) {
+    if (!this.isInReach(attackable, target)) {
       return;
     }
-    if (master.knockBackFrames !== 0 && attackable.currentKnockBackFrameCount < master.knockBackFrames) {
+    // 攻撃を見送るかどうかの判断をデリゲータに委譲する
+    const shouldDamage = (this.delegator && this.delegator.shouldDamage)
+      ? this.delegator.shouldDamage(attackable, target)
+      : true;
+    if (!shouldDamage) {
       return;
     }
 
-    attackable.state = (attackable.currentHealth < 1) ? AttackableState.DEAD : AttackableState.IDLE;
+    const projectile = (master as UnitMaster).projectile;
+    const splash = (master as UnitMaster).splash || null;
+    const effects = (master as UnitMaster).onHitEffects || [];
+    if (projectile) {
+      const entity = this.spawnProjectile(
+        attackable,
+        target,
+        power,
+        projectile
+      );
+      entity.splash = splash;
+      entity.effects = effects;
+    } else {
+      this.applyAttack(attackable, target, power, splash, effects);
+    }
   }
+
   /**
-   * 接敵時のステート更新処理
+   * 標的に攻撃を行う
+   * 範囲攻撃であれば標的の周囲の敵にも減衰させたダメージを与える
    */
-  private updateAttackableEngagedState(attackable: AttackableEntity): void {
-    // DEAD 判定
-    if (attackable.currentHealth < 1) {
-      attackable.engagedEntity = null;
-      // ノックバックさせてから DEAD に遷移
-      attackable.state = AttackableState.KNOCK_BACK;
-      return;
+  private applyAttack(
+    attacker: AttackableEntity,
+    target: AttackableEntity,
+    power: number,
+    splash: SplashMaster | null,
+    effects: StatusEffectMaster[]
+  ): void {
+    // 攻撃者自身に与える状態効果は攻撃毎に一度だけ適用する
+    for (let i = 0; i < effects.length; i++) {
+      if (effects[i].target === 'self') {
+        this.applyStatusEffect(attacker, effects[i], attacker);
+      }
     }
 
-    // IDLE 判定
-    if (attackable.engagedEntity) {
-      const target = attackable.engagedEntity;
-
-      const targetIsDead = target.currentHealth < 1;
-      const targetIsKnockingBack = target.state === AttackableState.KNOCK_BACK;
-
-      if (targetIsDead || targetIsKnockingBack || !this.chivalrousFilter(attackable, attackable.engagedEntity)) {
-        attackable.engagedEntity = null;
-        attackable.state = AttackableState.IDLE;
-      }
+    if (!splash) {
+      this.applyDamage(attacker, target, power);
+      this.applyOnHitEffects(attacker, target, effects);
+      return;
     }
 
-    // KNOCK_BACK 判定
-    const oldHealth = attackable.currentHealth + attackable.currentFrameDamage;
-    for (let i = 0; i < this.config.knockBackHealthThreasholds.length; i++) {
-      const rate = this.config.knockBackHealthThreasholds[i];
-      const threashold = attackable.maxHealth * rate;
-      if (attackable.currentHealth >= threashold) {
+    const targetPosition = this.getFieldPosition(target);
+    const victims = [{ entity: target, distance: 0 }];
+    for (let i = 0; i < this.attackableEntities.length; i++) {
+      const entity = this.attackableEntities[i];
+      if (entity === target || entity.isPlayer !== target.isPlayer) {
         continue;
       }
-      if (oldHealth >= threashold) {
-        attackable.engagedEntity = null;
-        attackable.state = AttackableState.KNOCK_BACK;
-        break;
-      }
-    }
-  }
-  /**
-   * 何もしていない状態でのステート更新処理
-   */
-  private updateAttackableIdleState(attackable: AttackableEntity): void {
-    for (let i = 0; i < this.attackableEntities.length; i++) {
-      const target = this.attackableEntities[i];
-      const targetIsCastle = (target as CastleEntity).castleId !== undefined;
-      // 味方同士ならスキップ
-      if (
-        (attackable.isPlayer  && target.isPlayer) ||
-        (!attackable.isPlayer && !target.isPlayer)
-      ) {
+      if (!this.isSameLane(entity, target)) {
         continue;
       }
-      // ターゲットが接敵可能なステートでなければスキップ
-      if (
-        !targetIsCastle &&
-        target.state !== AttackableState.IDLE &&
-        target.state !== AttackableState.ENGAGED
-      ) {
+      if (entity.state === AttackableState.DEAD || entity.currentHealth < 1) {
         continue;
       }
 
-      // デリゲータに接敵可能かどうかの判断を委譲する
-      // TODO: implement logical condition, default true currently
-      const shouldEngage = this.delegator ? this.delegator.shouldEngageAttackableEntity(attackable, target) : true;
-      if (shouldEngage) {
-        if (this.chivalrousFilter(attackable, target)) {
-          attackable.engagedEntity = target;
-          attackable.state = AttackableState.ENGAGED;
-        }
-        // 必要であれば接敵後の処理をデリゲータに委譲する
-        break;
+      const distance = Math.abs(
+        this.getFieldPosition(entity) - targetPosition
+      );
+      if (distance <= splash.radius) {
+        victims.push({ entity, distance });
       }
     }
+
+    // 標的に近い順に最大攻撃対象数まで攻撃する
+    victims.sort((a, b) => a.distance - b.distance);
+    const count = (splash.maxTargets && splash.maxTargets > 0)
+      ? Math.min(splash.maxTargets, victims.length)
+      : victims.length;
+    const falloff = splash.falloff || 0;
+
+    for (let i = 0; i < count; i++) {
+      const victim = victims[i];
+      // 減衰後のダメージが負の値になり回復させないよう 0 で下限を設ける
+      const rate = (splash.radius > 0)
+        ? Math.max(0, 1 - falloff * (victim.distance / splash.radius))
+        : 1;
+      this.applyDamage(attacker, victim.entity, power * rate);
+      this.applyOnHitEffects(attacker, victim.entity, effects);
+    }
   }
 
   /**
-   * バトル状況からゲーム終了かどうかを判断する
+   * ユニットマスターの値が扱える範囲にあるかどうかを検証する
    */
-  private updateGameOver(): void {
-    const isPlayerWon = this.isPlayerWon();
-    this.isGameOver = (isPlayerWon || this.isAiWon());
-
-    if (this.isGameOver) {
-      // バトル終了の場合はすべてのユニットを待機アニメーションに変える
-      for (let i = 0; i < this.attackableEntities.length; i++) {
-        const entity = this.attackableEntities[i];
-        if ((entity as CastleEntity).castleId) {
-          continue;
-        }
-        entity.state = AttackableState.IDLE;
-      }
-
-      // バトル終了後処理をデリゲータに委譲する
-      if (this.delegator) {
-        this.delegator.onGameOver(isPlayerWon);
+  private validateUnitMaster(master: UnitMaster): void {
+    const splash = master.splash;
+    if (splash && splash.falloff !== undefined) {
+      if (splash.falloff < 0 || splash.falloff > 1) {
+        throw new Error(
+          `splash falloff must be between 0 and 1: unitId ${master.unitId}`
+        );
       }
     }
   }
 
+  /**
+   * 攻撃が命中したエンティティに状態効果を与える
+   */
+  private applyOnHitEffects(
+    attacker: AttackableEntity,
+    target: AttackableEntity,
+    effects: StatusEffectMaster[]
+  ): void {
+    for (let i = 0; i < effects.length; i++) {
+      const effect = effects[i];
+      if (effect.target !== 'self') {
+        this.applyStatusEffect(target, effect, attacker);
+      }
+    }
+  }
+
+  /**
+   * エンティティに状態効果を与える
+   * 同種の効果がかかっている場合は重ね掛けの設定に従う
+   */
+  private applyStatusEffect(
+    entity: AttackableEntity,
+    master: StatusEffectMaster,
+    source: AttackableEntity
+  ): void {
+    if (entity.state === AttackableState.DEAD || entity.currentHealth < 1) {
+      return;
+    }
+
+    let effect: StatusEffectEntity | null = null;
+    for (let i = 0; i < entity.statusEffects.length; i++) {
+      if (entity.statusEffects[i].type === master.type) {
+        effect = entity.statusEffects[i];
+        break;
+      }
+    }
+
+    if (!effect) {
+      effect = new StatusEffectEntity(master, source);
+      entity.statusEffects.push(effect);
+    } else {
+      switch (master.stacking) {
+        case 'ignore': return;
+        case 'stack': {
+          const maxStacks = master.maxStacks || 1;
+          if (effect.stacks < maxStacks) {
+            effect.stacks++;
+          }
+          break;
+        }
+        case 'refresh':
+        default: break;
+      }
+      effect.master = master;
+      effect.source = source;
+      effect.remainingFrameCount = master.durationFrames;
+    }
+
+    // 状態効果付与後の処理をデリゲータに委譲する
+    if (this.delegator) {
+      this.delegator.onStatusEffectApplied(entity, effect);
+    }
+  }
+
+  /**
+   * 状態効果の経過時間を進め、継続ダメージと効果時間切れを処理する
+   */
+  private updateStatusEffects(): void {
+    for (let i = 0; i < this.attackableEntities.length; i++) {
+      const entity = this.attackableEntities[i];
+      if (entity.statusEffects.length === 0) {
+        continue;
+      }
+      const activeStatusEffects: StatusEffectEntity[] = [];
+      for (let j = 0; j < entity.statusEffects.length; j++) {
+        const effect = entity.statusEffects[j];
+        effect.elapsedFrameCount++;
+        effect.remainingFrameCount--;
+
+        if (effect.type === StatusEffectType.POISON) {
+          const interval = effect.master.tickIntervalFrames || 1;
+          if (effect.elapsedFrameCount % interval === 0) {
+            const damage = (effect.master.value || 0) * effect.stacks;
+            this.applyDamage(effect.source, entity, damage);
+          }
+        }
+
+        if (effect.isExpired()) {
+          // 効果時間切れ後の処理をデリゲータに委譲する
+          if (this.delegator) {
+            this.delegator.onStatusEffectExpired(entity, effect);
+          }
+        } else {
+          activeStatusEffects.push(effect);
+        }
+      }
+
+      entity.statusEffects = activeStatusEffects;
+    }
+  }
+
+  /**
+   * エンティティにかかっている状態効果を全て解除する
+   */
+  private clearStatusEffects(entity: AttackableEntity): void {
+    const expiredStatusEffects = entity.statusEffects;
+    entity.statusEffects = [];
+
+    // 解除後の処理をデリゲータに委譲する
+    if (this.delegator) {
+      for (let i = 0; i < expiredStatusEffects.length; i++) {
+        this.delegator.onStatusEffectExpired(entity, expiredStatusEffects[i]);
+      }
+    }
+  }
+
+  /**
+   * 指定した種別の状態効果がかかっているかどうかを返す
+   */
+  private hasStatusEffect(entity: AttackableEntity, type: string): boolean {
+    for (let i = 0; i < entity.statusEffects.length; i++) {
+      if (entity.statusEffects[i].type === type) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * 指定した種別の状態効果による倍率を返す
+   * 重ね掛けされている場合はスタック数だけ倍率を乗じる
+   */
+  private getStatusEffectRate(entity: AttackableEntity, type: string): number {
+    let rate = 1;
+    for (let i = 0; i < entity.statusEffects.length; i++) {
+      const effect = entity.statusEffects[i];
+      if (effect.type !== type) {
+        continue;
+      }
+      const value = (effect.master.value !== undefined)
+        ? effect.master.value
+        : 1;
+      rate *= Math.pow(value, effect.stacks);
+    }
+    return rate;
+  }
+
+  /**
+   * 渡されたエンティティにダメージを与え、以下を更新する。
+   * - currentHealth
+   * - currentFrameDamage
+   */
+  private applyDamage(
+    attacker: AttackableEntity,
+    target: AttackableEntity,
+    damage: number
+  ): void {
+    const fromHealth = target.currentHealth;
+    target.currentFrameDamage += damage;
+    target.currentHealth = fromHealth - damage;
+
+    if (attacker.isPlayer) {
+      this.playerDamageDealt += damage;
+    }
+
+    // ダメージを与えた後の処理をデリゲータに委譲する
+    if (this.delegator) {
+      this.delegator.onAttackableEntityHealthUpdated(
+        attacker,
+        target,
+        fromHealth,
+        target.currentHealth,
+        target.maxHealth
+      );
+    }
+  }
+
+  /**
+   * 対象の体力を最大体力を上限として回復させる
+   */
+  private applyHeal(
+    healer: AttackableEntity,
+    target: AttackableEntity,
+    amount: number
+  ): void {
+    const fromHealth = target.currentHealth;
+    target.currentHealth = Math.min(fromHealth + amount, target.maxHealth);
+
+    // 回復させた後の処理をデリゲータに委譲する
+    if (this.delegator) {
+      this.delegator.onAttackableEntityHealed(
+        healer,
+        target,
+        fromHealth,
+        target.currentHealth,
+        target.maxHealth
+      );
+    }
+  }
+
+  /**
+   * 陣営に応じた UnitMaster を返す
+   * プレイヤー側でレベルを反映したマスターがあればそちらを優先する
+   */
+  private getUnitMaster(
+    unitId: number,
+    isPlayer: boolean
+  ): UnitMaster | undefined {
+    if (isPlayer && this.playerUnitMasterCache.has(unitId)) {
+      return this.playerUnitMasterCache.get(unitId);
+    }
+    return this.unitMasterCache.get(unitId);
+  }
+
+  /**
+   * 回復役のユニットかどうかを返す
+   */
+  private isHealer(attackable: AttackableEntity): boolean {
+    const unitId = (attackable as UnitEntity).unitId;
+    if (!unitId) {
+      return false;
+    }
+    const master = this.getUnitMaster(unitId, attackable.isPlayer);
+    return !!master && master.behavior === UnitBehavior.HEALER;
+  }
+
+  /**
+   * 回復対象として有効な味方かどうかを返す
+   * 回復範囲はフィールド座標の差で判定する
+   */
+  private isHealable(
+    healer: AttackableEntity,
+    target: AttackableEntity
+  ): boolean {
+    if (target === healer || target.isPlayer !== healer.isPlayer) {
+      return false;
+    }
+    // 拠点は回復しない
+    if ((target as CastleEntity).castleId !== undefined) {
+      return false;
+    }
+    if (!this.isSameLane(healer, target)) {
+      return false;
+    }
+    if (
+      target.state !== AttackableState.IDLE &&
+      target.state !== AttackableState.ENGAGED
+    ) {
+      return false;
+    }
+    if (target.currentHealth < 1 || target.currentHealth >= target.maxHealth) {
+      return false;
+    }
+
+    const distance = Math.abs(
+      this.getFieldPosition(target) - this.getFieldPosition(healer)
+    );
+    return distance <= healer.range;
+  }
+
+  /**
+   * 回復範囲内で最も体力が減っている味方を返す
+   */
+  private findHealTarget(healer: AttackableEntity): AttackableEntity | null {
+    let healTarget: AttackableEntity | null = null;
+    let maxLostHealth = 0;
+
+    for (let i = 0; i < this.attackableEntities.length; i++) {
+      const target = this.attackableEntities[i];
+      if (!this.isHealable(healer, target)) {
+        continue;
+      }
+      const lostHealth = target.maxHealth - target.currentHealth;
+      if (lostHealth > maxLostHealth) {
+        maxLostHealth = lostHealth;
+        healTarget = target;
+      }
+    }
+
+    return healTarget;
+  }
+
+  /**
+   * 飛翔体を移動させ、着弾したものはダメージを与えて破棄する
+   */
+  private updateProjectiles(): void {
+    const activeProjectileEntities: ProjectileEntity[] = [];
+
+    for (let i = 0; i < this.projectileEntities.length; i++) {
+      const projectile = this.projectileEntities[i];
+      projectile.elapsedFrameCount++;
+
+      if (this.delegator) {
+        const flightFrames = projectile.master.flightFrames;
+        const rate = (flightFrames > 0)
+          ? projectile.elapsedFrameCount / flightFrames
+          : 1;
+        this.delegator.onProjectileEntityMoved(projectile, Math.min(rate, 1));
+      }
+
+      if (!projectile.isLanded()) {
+        activeProjectileEntities.push(projectile);
+        continue;
+      }
+
+      // 着弾前に標的が倒れていればダメージは与えない
+      const target = projectile.target;
+      if (target.currentHealth >= 1 && target.state !== AttackableState.DEAD) {
+        this.applyAttack(
+          projectile.attacker,
+          target,
+          projectile.power,
+          projectile.splash,
+          projectile.effects
+        );
+      }
+
+      if (this.delegator) {
+        this.delegator.onProjectileEntityRemoved(projectile);
+      }
+    }
+
+    this.projectileEntities = activeProjectileEntities;
+  }
+  /**
+   * 移動可能か判定し、必要なら以下を更新する。
+   * - distance
+   * - currentKnockBackFrameCount
+   */
+  private updateDistance(attackable: AttackableEntity, master: AttackableMaster): void {
+    if (attackable.state === AttackableState.KNOCK_BACK) {
+      attackable.distance -= master.knockBackSpeed;
+      attackable.currentKnockBackFrameCount++;
+      if (this.delegator) {
+        const rate = attackable.currentKnockBackFrameCount / master.knockBackFrames;
+        this.delegator.onAttackableEntityKnockingBack(attackable, rate);
+      }
+    } else {
+      attackable.currentKnockBackFrameCount = 0;
+
+      if (attackable.state === AttackableState.IDLE) {
+        attackable.currentKnockBackFrameCount = 0;
+
+        // スタン中は移動できない
+        if (this.hasStatusEffect(attackable, StatusEffectType.STUN)) {
+          return;
+        }
+        // 回復役は敵の前に出ず味方の後方で待機する
+        if (this.isHealer(attackable) && this.isHostileInReach(attackable)) {
+          return;
+        }
+
+        // 移動を見送るかどうかの判断をデリゲータに委譲する
+        const delegator = this.delegator;
+        const shouldWalk = (delegator && delegator.shouldAttackableWalk)
+          ? delegator.shouldAttackableWalk(attackable)
+          : true;
+        if (shouldWalk) {
+          const rate = this.getStatusEffectRate(
+            attackable,
+            StatusEffectType.SLOW
+          );
+          attackable.distance += master.speed * attackable.speedRate * rate;
+          // 移動した後の処理をデリゲータに委譲する
+          if (this.delegator) {
+            this.delegator.onAttackableEntityWalked(attackable);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * ノックバック時のステート更新処理
+   */
+  private updateAttackableKnockBackState(attackable: AttackableEntity): void {
+    attackable.engagedEntity = null;
+
+    // TODO: should not read master for each entity
+    const master = (attackable as UnitEntity).unitId
+      ? this.getUnitMaster(
+        (attackable as UnitEntity).unitId,
+        attackable.isPlayer
+      )
+      : this.castleMasterCache.get((attackable as CastleEntity).castleId);
+
+    if (!master) {
+      return;
+    }
+    if (master.knockBackFrames !== 0 && attackable.currentKnockBackFrameCount < master.knockBackFrames) {
+      return;
+    }
+
+    attackable.state = (attackable.currentHealth < 1) ? AttackableState.DEAD : AttackableState.IDLE;
+  }
+  /**
+   * 接敵時のステート更新処理
+   */
+  private updateAttackableEngagedState(attackable: AttackableEntity): void {
+    // DEAD 判定
+    if (attackable.currentHealth < 1) {
+      attackable.engagedEntity = null;
+      // ノックバックさせてから DEAD に遷移
+      attackable.state = AttackableState.KNOCK_BACK;
+      return;
+    }
+
+    // IDLE 判定
+    if (attackable.engagedEntity) {
+      const target = attackable.engagedEntity;
+      const targetIsAlly = target.isPlayer === attackable.isPlayer;
+
+      const targetIsDead = target.currentHealth < 1;
+      const targetIsKnockingBack = target.state === AttackableState.KNOCK_BACK;
+
+      if (targetIsAlly) {
+        if (!this.isHealable(attackable, target)) {
+          attackable.engagedEntity = null;
+          attackable.state = AttackableState.IDLE;
+        }
+      } else if (
+        targetIsDead ||
+        targetIsKnockingBack ||
+        !this.chivalrousFilter(attackable, attackable.engagedEntity)
+      ) {
+        attackable.engagedEntity = null;
+        attackable.state = AttackableState.IDLE;
+      }
+    }
+
+    // KNOCK_BACK 判定
+    if (this.shouldKnockBack(attackable)) {
+      attackable.engagedEntity = null;
+      attackable.state = AttackableState.KNOCK_BACK;
+    }
+  }
+  /**
+   * 現在フレームで受けたダメージで体力閾値を下回ったかどうかを返す
+   */
+  private shouldKnockBack(attackable: AttackableEntity): boolean {
+    if (attackable.isKnockBackImmune) {
+      return false;
+    }
+
+    const oldHealth = attackable.currentHealth + attackable.currentFrameDamage;
+    for (let i = 0; i < this.config.knockBackHealthThreasholds.length; i++) {
+      const rate = this.config.knockBackHealthThreasholds[i];
+      const threashold = attackable.maxHealth * rate;
+      if (attackable.currentHealth >= threashold) {
+        continue;
+      }
+      if (oldHealth >= threashold) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+  /**
+   * ボスの体力が次のフェーズの閾値を下回っていればフェーズを移行させる
+   * 一度に複数の閾値を下回った場合は順番に全てのフェーズを経由する
+   */
+  private updateBossPhases(): void {
+    for (let i = 0; i < this.attackableEntities.length; i++) {
+      const entity = this.attackableEntities[i] as UnitEntity;
+      if (entity.isPlayer || !entity.unitId || entity.currentHealth < 1) {
+        continue;
+      }
+      const boss = this.bossMasterCache.get(entity.unitId);
+      if (!boss) {
+        continue;
+      }
+
+      for (let j = entity.bossPhaseIndex + 1; j < boss.phases.length; j++) {
+        const phase = boss.phases[j];
+        if (entity.currentHealth >= entity.maxHealth * phase.healthRate) {
+          break;
+        }
+        this.applyBossPhase(entity, phase, j);
+      }
+    }
+  }
+  /**
+   * ボスをフェーズに移行させ、フェーズの効果を反映する
+   */
+  private applyBossPhase(
+    entity: UnitEntity,
+    phase: BossPhaseMaster,
+    phaseIndex: number
+  ): void {
+    entity.bossPhaseIndex = phaseIndex;
+    entity.speedRate *= (phase.speedRate !== undefined) ? phase.speedRate : 1;
+    entity.powerRate *= (phase.powerRate !== undefined) ? phase.powerRate : 1;
+    if (phase.knockBackImmune !== undefined) {
+      entity.isKnockBackImmune = phase.knockBackImmune;
+    }
+
+    // 呼び出すユニットは AI のユニット生成待ちに加える
+    const summons = phase.summons || [];
+    for (let i = 0; i < summons.length; i++) {
+      const summon = summons[i];
+      const lane = (summon.lane !== undefined) ? summon.lane : entity.lane;
+      const count = summon.count || 1;
+      for (let j = 0; j < count; j++) {
+        this.spawnRequestedUnitUnitIds.push({
+          lane: Math.min(Math.max(lane, 0), this.laneCount - 1),
+          unitId: summon.unitId,
+          isPlayer: false,
+          isSummoned: true,
+          aiRequest: {
+            unitId: summon.unitId,
+            healthRate: summon.healthRate,
+            powerRate: summon.powerRate
+          }
+        });
+      }
+    }
+
+    // フェーズ移行後の処理をデリゲータに委譲する
+    if (this.delegator) {
+      this.delegator.onBossPhaseChanged(entity, phase, phaseIndex);
+    }
+  }
+  /**
+   * 何もしていない状態でのステート更新処理
+   */
+  private updateAttackableIdleState(attackable: AttackableEntity): void {
+    // 移動中に飛翔体などでダメージを受けた場合の DEAD 判定
+    if (attackable.currentHealth < 1) {
+      attackable.state = AttackableState.KNOCK_BACK;
+      return;
+    }
+    // 移動中にダメージを受けた場合の KNOCK_BACK 判定
+    if (this.shouldKnockBack(attackable)) {
+      attackable.state = AttackableState.KNOCK_BACK;
+      return;
+    }
+
+    // 回復役は回復が必要な味方とだけ接敵し、敵とは接敵しない
+    if (this.isHealer(attackable)) {
+      const healTarget = this.findHealTarget(attackable);
+      if (healTarget) {
+        attackable.engagedEntity = healTarget;
+        attackable.state = AttackableState.ENGAGED;
+      }
+      return;
+    }
+
+    for (let i = 0; i < this.attackableEntities.length; i++) {
+      const target = this.attackableEntities[i];
+      if (!this.isEngageableHostile(attackable, target)) {
+        continue;
+      }
+
+      // 接敵を見送るかどうかの判断をデリゲータに委譲する
+      const delegator = this.delegator;
+      const shouldEngage = (delegator && delegator.shouldEngageAttackableEntity)
+        ? delegator.shouldEngageAttackableEntity(attackable, target)
+        : true;
+      if (shouldEngage) {
+        if (this.chivalrousFilter(attackable, target)) {
+          attackable.engagedEntity = target;
+          attackable.state = AttackableState.ENGAGED;
+        }
+        // 必要であれば接敵後の処理をデリゲータに委譲する
+        break;
+      }
+    }
+  }
+
+  /**
+   * 接敵可能な状態で射程内にいる敵または拠点かどうかを返す
+   */
+  private isEngageableHostile(
+    attackable: AttackableEntity,
+    target: AttackableEntity
+  ): boolean {
+    // 味方同士なら接敵しない
+    if (attackable.isPlayer === target.isPlayer) {
+      return false;
+    }
+    // 異なるレーンの敵とは接敵しない
+    if (!this.isSameLane(attackable, target)) {
+      return false;
+    }
+    // ターゲットが接敵可能なステートでなければ接敵しない
+    const targetIsCastle = (target as CastleEntity).castleId !== undefined;
+    if (
+      !targetIsCastle &&
+      target.state !== AttackableState.IDLE &&
+      target.state !== AttackableState.ENGAGED
+    ) {
+      return false;
+    }
+
+    return this.isInReach(attackable, target);
+  }
+
+  /**
+   * 接敵可能な敵または拠点が射程内にいるかどうかを返す
+   */
+  private isHostileInReach(attackable: AttackableEntity): boolean {
+    for (let i = 0; i < this.attackableEntities.length; i++) {
+      if (this.isEngageableHostile(attackable, this.attackableEntities[i])) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * バトル状況からゲーム終了かどうかを判断する
+   */
+  private updateGameOver(): void {
+    const isPlayerWon = this.isPlayerWon();
+    this.isGameOver = (isPlayerWon || this.isAiWon());
+
+    if (this.isGameOver) {
+      // バトル終了の場合はすべてのユニットを待機アニメーションに変える
+      for (let i = 0; i < this.attackableEntities.length; i++) {
+        const entity = this.attackableEntities[i];
+        if ((entity as CastleEntity).castleId) {
+          continue;
+        }
+        entity.state = AttackableState.IDLE;
+      }
+
+      // バトル終了後処理をデリゲータに委譲する
+      if (this.delegator) {
+        this.delegator.onGameOver(this.createOutcome(isPlayerWon));
+      }
+    }
+  }
+
+  /**
+   * 勝敗と達成目標からバトル結果を作成する
+   */
+  private createOutcome(isPlayerWon: boolean): BattleOutcome {
+    const masters = (this.stageMasterCache
+      && this.stageMasterCache.objectives) || [];
+
+    const objectives = [];
+    let achievedCount = 0;
+    for (let i = 0; i < masters.length; i++) {
+      const master = masters[i];
+      const achieved = isPlayerWon && this.isObjectiveAchieved(master);
+      if (achieved) {
+        achievedCount++;
+      }
+      objectives.push({ master, achieved });
+    }
+
+    return {
+      isPlayerWon,
+      objectives,
+      stars: (isPlayerWon) ? 1 + achievedCount : 0,
+      maxStars: 1 + masters.length,
+      frameCount: this.passedFrameCount,
+      spawnedUnitCount: this.playerSpawnedUnitCount,
+      spentCost: this.playerSpentCost,
+      damageDealt: this.playerDamageDealt
+    };
+  }
+
+  /**
+   * 達成目標を満たしているかどうかを返す
+   */
+  private isObjectiveAchieved(objective: StageObjectiveMaster): boolean {
+    switch (objective.type) {
+      case StageObjectiveType.WIN_WITHIN_FRAMES: {
+        return this.passedFrameCount <= (objective.frames || 0);
+      }
+      case StageObjectiveType.CASTLE_HEALTH_ABOVE: {
+        if (!this.castleEntities) {
+          return false;
+        }
+        const castle = this.castleEntities.player;
+        const rate = castle.currentHealth / castle.maxHealth;
+        return rate >= (objective.healthRate || 0);
+      }
+      case StageObjectiveType.COST_AT_MOST: {
+        return this.playerSpentCost <= (objective.cost || 0);
+      }
+      default: return false;
+    }
+  }
+
   /**
    * プレイヤーが勝利しているかどうかを返す
    */
-  private isPlayerWon(): boolean {
-    if (!this.castleEntities) {
-      throw new Error('castle entities are missing');
+  private isPlayerWon(): boolean {
+    if (!this.castleEntities) {
+      throw new Error('castle entities are missing');
+    }
+    return this.castleEntities.ai.currentHealth < 1;
+  }
+  /**
+   * AI が勝利しているかどうかを返す
+   */
+  private isAiWon(): boolean {
+    if (!this.castleEntities) {
+      throw new Error('castle entities are missing');
+    }
+    return this.castleEntities.player.currentHealth < 1;
+  }
+
+  /**
+   * AI の行動方針に従って AI ユニットを生成させる
+   */
+  private updateAISpawn(): void {
+    if (!this.aiStrategy || !this.castleEntities || !this.stageMasterCache) {
+      return;
+    }
+
+    const playerUnits: AIUnitState[] = [];
+    const aiUnits: AIUnitState[] = [];
+    for (let i = 0; i < this.attackableEntities.length; i++) {
+      const entity = this.attackableEntities[i];
+      const unitId = (entity as UnitEntity).unitId;
+      if (!unitId || entity.state === AttackableState.DEAD) {
+        continue;
+      }
+
+      const unit = {
+        unitId,
+        tag: (entity as UnitEntity).tag,
+        lane: entity.lane,
+        distance: entity.distance,
+        range: entity.range,
+        currentHealth: entity.currentHealth,
+        maxHealth: entity.maxHealth
+      };
+      if (entity.isPlayer) {
+        playerUnits.push(unit);
+      } else {
+        aiUnits.push(unit);
+      }
+    }
+
+    const playerCastle = this.castleEntities.player;
+    const aiCastle = this.castleEntities.ai;
+    const aiCost = this.stageMasterCache.ai && this.stageMasterCache.ai.cost;
+
+    const requests = this.aiStrategy.update({
+      playerUnits,
+      aiUnits,
+      passedFrameCount: this.passedFrameCount,
+      stageLength: this.stageMasterCache.length,
+      laneCount: this.laneCount,
+      availableCost: this.aiAvailableCost - this.getDeferredAICost(),
+      maxAvailableCost: aiCost ? aiCost.max : 0,
+      castles: {
+        player: {
+          currentHealth: playerCastle.currentHealth,
+          maxHealth: playerCastle.maxHealth
+        },
+        ai: {
+          currentHealth: aiCastle.currentHealth,
+          maxHealth: aiCastle.maxHealth
+        }
+      }
+    });
+
+    for (let i = 0; i < requests.length; i++) {
+      const request = requests[i];
+      // レーンの指定がなければ順番に割り当てる
+      let lane = request.lane;
+      if (lane === undefined) {
+        lane = this.nextAILane;
+        this.nextAILane = (this.nextAILane + 1) % this.laneCount;
+      }
+      this.spawnRequestedUnitUnitIds.push({
+        unitId: request.unitId,
+        isPlayer: false,
+        lane: Math.min(Math.max(lane, 0), this.laneCount - 1),
+        aiRequest: request
+      });
+    }
+  }
+
+  /**
+   * 生成を持ち越している AI ユニットのコストの合計を返す
+   */
+  private getDeferredAICost(): number {
+    let cost = 0;
+    for (let i = 0; i < this.spawnRequestedUnitUnitIds.length; i++) {
+      const request = this.spawnRequestedUnitUnitIds[i];
+      if (request.isPlayer || request.isSummoned) {
+        continue;
+      }
+      const master = this.getUnitMaster(request.unitId, false);
+      if (master) {
+        cost += master.cost;
+      }
+    }
+    return cost;
+  }
+
+  /**
+   * AI のコストを回復させる
+   */
+  private updateAIAvailableCost(): void {
+    if (!this.stageMasterCache || !this.stageMasterCache.ai) {
+      return;
     }
-    return this.castleEntities.ai.currentHealth < 1;
+    const cost = this.stageMasterCache.ai.cost;
+    if (!cost) {
+      return;
+    }
+
+    this.aiAvailableCost = Math.min(
+      this.aiAvailableCost + cost.recoveryPerFrame,
+      cost.max
+    );
   }
+
   /**
-   * AI が勝利しているかどうかを返す
+   * 現在のフレームに応じてリプレイのユニット生成をリクエストする
    */
-  private isAiWon(): boolean {
+  private updateReplaySpawn(): void {
+    const requests = this.replaySpawnRequests.get(this.passedFrameCount);
+    if (!requests) {
+      return;
+    }
+
+    for (let i = 0; i < requests.length; i++) {
+      this.requestSpawnPlayer(requests[i].unitId, requests[i].lane);
+    }
+  }
+
+  /**
+   * リプレイ情報から大砲発射リクエストを発行する
+   */
+  private updateReplayCastleCannon(): void {
+    if (this.replayCastleCannonRequests.has(this.passedFrameCount)) {
+      this.requestCastleCannon();
+    }
+  }
+
+  /**
+   * 大砲のゲージを回復させる
+   */
+  private updateCastleCannonCharge(): void {
+    const cannon = this.player!.castle.cannon;
+    if (!cannon) {
+      return;
+    }
+
+    const charge = Math.min(
+      this.castleCannonCharge + cannon.chargePerFrame,
+      cannon.maxCharge
+    );
+    if (charge === this.castleCannonCharge) {
+      return;
+    }
+    this.castleCannonCharge = charge;
+
+    // ゲージ更新後処理をデリゲータに委譲する
+    if (this.delegator) {
+      this.delegator.onCastleCannonChargeUpdated(charge, cannon.maxCharge);
+    }
+  }
+
+  /**
+   * 受け付けた大砲発射リクエストを処理する
+   * 全ての AI ユニットにダメージを与え、ゲージを消費する
+   */
+  private updateCastleCannonRequest(): void {
+    if (!this.isCastleCannonRequested) {
+      return;
+    }
+    this.isCastleCannonRequested = false;
+
+    const cannon = this.player!.castle.cannon;
+    if (!cannon || !this.castleEntities) {
+      return;
+    }
+
+    const castle = this.castleEntities.player;
+    const targets: AttackableEntity[] = [];
+    for (let i = 0; i < this.attackableEntities.length; i++) {
+      const entity = this.attackableEntities[i];
+      if (entity.isPlayer || !(entity as UnitEntity).unitId) {
+        continue;
+      }
+      if (entity.state === AttackableState.DEAD || entity.currentHealth < 1) {
+        continue;
+      }
+      targets.push(entity);
+    }
+
+    for (let i = 0; i < targets.length; i++) {
+      this.applyDamage(castle, targets[i], cannon.power);
+    }
+
+    this.castleCannonCharge = 0;
+
+    // 発射後の処理をデリゲータに委譲する
+    if (this.delegator) {
+      this.delegator.onCastleCannonFired(castle, targets);
+      this.delegator.onCastleCannonChargeUpdated(0, cannon.maxCharge);
+    }
+  }
+
+  /**
+   * リプレイ情報からスキル発動リクエストを発行する
+   */
+  private updateReplaySkill(): void {
+    const skillIds = this.replaySkillRequests.get(this.passedFrameCount);
+    if (!skillIds) {
+      return;
+    }
+
+    for (let i = 0; i < skillIds.length; i++) {
+      this.requestSkill(skillIds[i]);
+    }
+  }
+
+  /**
+   * リプレイ情報からコストレベル上昇リクエストを発行する
+   */
+  private updateReplayCostLevelUp(): void {
+    if (this.replayCostLevelUpRequests.has(this.passedFrameCount)) {
+      this.requestCostLevelUp();
+    }
+  }
+
+  /**
+   * スキルのゲージを回復させる
+   */
+  private updateSkillCharge(): void {
+    this.skillChargeFrameCounts.forEach((frameCount, skillId) => {
+      const skill = this.skillMasterCache.get(skillId);
+      if (!skill || frameCount >= skill.chargeFrames) {
+        return;
+      }
+
+      const charge = frameCount + 1;
+      this.skillChargeFrameCounts.set(skillId, charge);
+
+      // ゲージ更新後処理をデリゲータに委譲する
+      if (this.delegator) {
+        this.delegator.onSkillChargeUpdated(
+          skillId,
+          charge,
+          skill.chargeFrames
+        );
+      }
+    });
+  }
+
+  /**
+   * 受け付けたスキル発動リクエストを処理する
+   * 同じフレームでユニット生成にコストを使った場合は改めてコストを確認する
+   */
+  private updateSkillRequest(): void {
+    if (this.requestedSkillIds.length === 0) {
+      return;
+    }
+
+    const skillIds = this.requestedSkillIds;
+    this.requestedSkillIds = [];
+
+    for (let i = 0; i < skillIds.length; i++) {
+      const skill = this.skillMasterCache.get(skillIds[i]);
+      if (!skill || this.availableCost < skill.cost) {
+        continue;
+      }
+
+      this.activateSkill(skill);
+    }
+  }
+
+  /**
+   * 受け付けたコストレベル上昇リクエストを処理する
+   * 同じフレームで他にコストを使った場合は改めてコストを確認する
+   */
+  private updateCostLevelUpRequest(): void {
+    if (!this.isCostLevelUpRequested) {
+      return;
+    }
+    this.isCostLevelUpRequested = false;
+
+    const nextLevel = this.getNextCostLevelMaster();
+    if (!nextLevel || this.availableCost < nextLevel.price) {
+      return;
+    }
+
+    this.costLevelIndex++;
+    this.playerSpentCost += nextLevel.price;
+
+    // レベル上昇後の処理をデリゲータに委譲する
+    if (this.delegator) {
+      this.delegator.onCostLevelUpdated(
+        nextLevel,
+        this.getNextCostLevelMaster()
+      );
+    }
+
+    // 上昇後の上限値で利用可能コストを通知する
+    this.updateAvailableCost(this.availableCost - nextLevel.price);
+  }
+
+  /**
+   * 現在のコストレベルのマスターを返す
+   */
+  private getCostLevelMaster(): CostLevelMaster | null {
+    return this.costLevelMasters[this.costLevelIndex] || null;
+  }
+
+  /**
+   * 次のコストレベルのマスターを返す
+   * 最大レベルに達している場合は null を返す
+   */
+  private getNextCostLevelMaster(): CostLevelMaster | null {
+    return this.costLevelMasters[this.costLevelIndex + 1] || null;
+  }
+
+  /**
+   * コストレベルを反映したフレームごとのコスト回復量を返す
+   */
+  private getCostRecoveryPerFrame(): number {
+    const costLevel = this.getCostLevelMaster();
+    const rate = costLevel ? costLevel.recoveryRate : 1;
+    return this.config.costRecoveryPerFrame * rate;
+  }
+
+  /**
+   * コストレベルを反映した利用可能コストの上限値を返す
+   */
+  private getMaxAvailableCost(): number {
+    const costLevel = this.getCostLevelMaster();
+    const rate = costLevel ? costLevel.maxCostRate : 1;
+    return Math.round(this.config.maxAvailableCost * rate);
+  }
+
+  /**
+   * スキルの効果を発動し、コストとゲージを消費する
+   */
+  private activateSkill(skill: SkillMaster): void {
     if (!this.castleEntities) {
-      throw new Error('castle entities are missing');
+      return;
+    }
+
+    const castle = this.castleEntities.player;
+    let targets: AttackableEntity[] = [];
+    let fieldPosition: number | undefined;
+    let refundCost = 0;
+
+    switch (skill.type) {
+      case SkillType.METEOR: {
+        // 最も前に出ている敵ユニットを中心とする
+        const enemies = this.getAliveAIUnitEntities();
+        fieldPosition = this.getFieldPosition(this.castleEntities.ai);
+        for (let i = 0; i < enemies.length; i++) {
+          fieldPosition = Math.min(
+            fieldPosition,
+            this.getFieldPosition(enemies[i])
+          );
+        }
+
+        const radius = skill.radius || 0;
+        const center = fieldPosition;
+        targets = enemies.filter((enemy) => {
+          return Math.abs(this.getFieldPosition(enemy) - center) <= radius;
+        });
+        for (let i = 0; i < targets.length; i++) {
+          this.applyDamage(castle, targets[i], skill.power || 0);
+        }
+        break;
+      }
+      case SkillType.FREEZE: {
+        targets = this.getAliveAIUnitEntities();
+        const statusEffect = skill.statusEffect;
+        if (statusEffect) {
+          for (let i = 0; i < targets.length; i++) {
+            this.applyStatusEffect(targets[i], statusEffect, castle);
+          }
+        }
+        break;
+      }
+      case SkillType.COST_REFUND: {
+        refundCost = skill.value || 0;
+        break;
+      }
+      default: break;
+    }
+
+    this.updateAvailableCost(this.availableCost - skill.cost + refundCost);
+    // 払い戻し分を差し引いたコストを消費したコストとして記録する
+    this.playerSpentCost += Math.max(skill.cost - refundCost, 0);
+    this.skillChargeFrameCounts.set(skill.skillId, 0);
+
+    // 発動後の処理をデリゲータに委譲する
+    if (this.delegator) {
+      this.delegator.onSkillActivated(skill, targets, fieldPosition);
+      this.delegator.onSkillChargeUpdated(
+        skill.skillId,
+        0,
+        skill.chargeFrames
+      );
     }
-    return this.castleEntities.player.currentHealth < 1;
   }
 
   /**
-   * 現在のフレームに応じて AI ユニットを生成させる
+   * スキルのゲージが溜まっているかどうかを返す
    */
-  private updateAISpawn(): void {
-    const waves = this.aiWaveCache.get(this.passedFrameCount);
-    if (!waves) {
+  private isSkillCharged(skill: SkillMaster): boolean {
+    const frameCount = this.skillChargeFrameCounts.get(skill.skillId) || 0;
+    return frameCount >= skill.chargeFrames;
+  }
+
+  /**
+   * 生存している AI ユニットを返す
+   * 拠点は含まない
+   */
+  private getAliveAIUnitEntities(): AttackableEntity[] {
+    const entities: AttackableEntity[] = [];
+    for (let i = 0; i < this.attackableEntities.length; i++) {
+      const entity = this.attackableEntities[i];
+      if (entity.isPlayer || !(entity as UnitEntity).unitId) {
+        continue;
+      }
+      if (entity.state === AttackableState.DEAD || entity.currentHealth < 1) {
+        continue;
+      }
+      entities.push(entity);
+    }
+    return entities;
+  }
+
+  /**
+   * 攻撃力を持つ拠点に射程内の最も近い敵を攻撃させる
+   */
+  private updateCastleAttack(): void {
+    if (!this.castleEntities) {
       return;
     }
 
-    for (let i = 0; i < waves.length; i++) {
-      const unitId = waves[i].unitId;
-      this.requestSpawnAI(unitId);
+    const castles = [this.castleEntities.player, this.castleEntities.ai];
+    for (let i = 0; i < castles.length; i++) {
+      const castle = castles[i];
+      const master = this.castleMasterCache.get(castle.castleId);
+      if (!master || master.power <= 0) {
+        continue;
+      }
+
+      if (castle.attackCooldownFrameCount > 0) {
+        castle.attackCooldownFrameCount--;
+        continue;
+      }
+
+      const target = this.findCastleAttackTarget(castle);
+      if (!target) {
+        continue;
+      }
+
+      if (master.projectile) {
+        this.spawnProjectile(castle, target, master.power, master.projectile);
+      } else {
+        this.applyAttack(castle, target, master.power, null, []);
+      }
+
+      castle.attackCooldownFrameCount = master.attackIntervalFrames
+        || this.config.castleAttackIntervalFrames;
+    }
+  }
+
+  /**
+   * 拠点の射程内で最も拠点に近い敵ユニットを返す
+   * 敵ユニットは自身の拠点からの distance が大きいほどこちらの拠点に近い
+   */
+  private findCastleAttackTarget(
+    castle: CastleEntity
+  ): AttackableEntity | null {
+    let target: AttackableEntity | null = null;
+
+    for (let i = 0; i < this.attackableEntities.length; i++) {
+      const entity = this.attackableEntities[i];
+      if (entity.isPlayer === castle.isPlayer) {
+        continue;
+      }
+      if (!(entity as UnitEntity).unitId) {
+        continue;
+      }
+      if (
+        entity.state !== AttackableState.IDLE &&
+        entity.state !== AttackableState.ENGAGED
+      ) {
+        continue;
+      }
+      if (target && target.distance >= entity.distance) {
+        continue;
+      }
+
+      if (!this.isInReach(castle, entity)) {
+        continue;
+      }
+
+      // 攻撃を見送るかどうかの判断をデリゲータに委譲する
+      const delegator = this.delegator;
+      const shouldEngage = (delegator && delegator.shouldEngageAttackableEntity)
+        ? delegator.shouldEngageAttackableEntity(castle, entity)
+        : true;
+      if (shouldEngage) {
+        target = entity;
+      }
     }
+
+    return target;
   }
 
   /**
@@ -499,39 +2039,134 @@ export default class BattleLogic {
     }
 
     let tmpCost = this.availableCost;
+    // コスト不足で次のフレーム以降に持ち越す AI の生成リクエスト
+    const deferredRequests = [];
 
     for (let i = 0; i < this.spawnRequestedUnitUnitIds.length; i++) {
       const reservedUnit = this.spawnRequestedUnitUnitIds[i];
 
-      const master = this.unitMasterCache.get(reservedUnit.unitId);
+      const master = this.getUnitMaster(
+        reservedUnit.unitId,
+        reservedUnit.isPlayer
+      );
       if (!master) {
         continue;
       }
 
       if (reservedUnit.isPlayer) {
+        // クールダウン中であれば何もしない
+        if (this.spawnCooldownFrameCounts.has(reservedUnit.unitId)) {
+          continue;
+        }
         // コストが足りなければ何もしない
         if ((tmpCost - master.cost) < 0) {
           continue;
         }
         tmpCost -= master.cost;
+        this.playerSpentCost += master.cost;
+        this.playerSpawnedUnitCount++;
+
+        if (master.spawnCooldownFrames && master.spawnCooldownFrames > 0) {
+          this.updateUnitSpawnCooldown(
+            reservedUnit.unitId,
+            master.spawnCooldownFrames,
+            master.spawnCooldownFrames
+          );
+        }
+      } else if (reservedUnit.isSummoned) {
+        // ボスに呼び出されたユニットはコストを消費しない
+      } else if (this.aiStrategy && this.aiStrategy.consumesCost) {
+        // AI のコストが足りなければ生成順を保って持ち越す
+        if (
+          deferredRequests.length > 0 ||
+          (this.aiAvailableCost - master.cost) < 0
+        ) {
+          deferredRequests.push(reservedUnit);
+          continue;
+        }
+        this.aiAvailableCost -= master.cost;
       }
 
       const entity = new UnitEntity(reservedUnit.unitId, reservedUnit.isPlayer);
       entity.id = this.nextEntityId++;
       entity.maxHealth = master.maxHealth;
       entity.currentHealth = master.maxHealth;
+      entity.range = master.range || 0;
+      entity.hitbox = master.hitbox || this.config.unitHitbox;
+      entity.lane = reservedUnit.lane;
+
+      // AIStrategy によるパラメータの上書き
+      const aiRequest = reservedUnit.aiRequest;
+      if (aiRequest) {
+        entity.tag = aiRequest.tag || null;
+        if (aiRequest.healthRate !== undefined) {
+          entity.maxHealth = master.maxHealth * aiRequest.healthRate;
+          entity.currentHealth = entity.maxHealth;
+        }
+        if (aiRequest.powerRate !== undefined) {
+          entity.powerRate = aiRequest.powerRate;
+        }
+      }
+
+      const boss = (reservedUnit.isPlayer)
+        ? undefined
+        : this.bossMasterCache.get(reservedUnit.unitId);
+      if (boss) {
+        entity.isKnockBackImmune = !!boss.knockBackImmune;
+      }
+
       entity.state = AttackableState.IDLE;
       this.attackableEntities.push(entity);
 
       // ユニット生成後処理をデリゲータに移譲する
       if (this.delegator) {
         this.delegator.onUnitEntitySpawned(entity);
+        if (boss) {
+          this.delegator.onBossEntitySpawned(entity, boss);
+        }
       }
     }
 
     this.updateAvailableCost(tmpCost);
 
-    this.spawnRequestedUnitUnitIds = [];
+    this.spawnRequestedUnitUnitIds = deferredRequests;
+  }
+
+  /**
+   * プレイヤーユニットの生成クールダウンを進める
+   */
+  private updateSpawnCooldown(): void {
+    this.spawnCooldownFrameCounts.forEach((frameCount, unitId) => {
+      const master = this.getUnitMaster(unitId, true);
+      const cooldownFrames = (master && master.spawnCooldownFrames) || 0;
+      this.updateUnitSpawnCooldown(unitId, frameCount - 1, cooldownFrames);
+    });
+  }
+
+  /**
+   * ユニットの生成クールダウン残りフレーム数を更新し、専用のコールバックをコールする
+   * 残りフレーム数が 0 以下になった場合はクールダウンを解除する
+   */
+  private updateUnitSpawnCooldown(
+    unitId: number,
+    frameCount: number,
+    cooldownFrames: number
+  ): void {
+    const remainingFrameCount = Math.max(frameCount, 0);
+    if (remainingFrameCount > 0) {
+      this.spawnCooldownFrameCounts.set(unitId, remainingFrameCount);
+    } else {
+      this.spawnCooldownFrameCounts.delete(unitId);
+    }
+
+    // クールダウン更新後処理をデリゲータに委譲する
+    if (this.delegator) {
+      this.delegator.onSpawnCooldownUpdated(
+        unitId,
+        remainingFrameCount,
+        cooldownFrames
+      );
+    }
   }
 
   /**
@@ -539,19 +2174,23 @@ export default class BattleLogic {
    */
   private updateAvailableCost(newCost: number): number {
     let cost = newCost;
-    if (cost > this.config.maxAvailableCost) {
-      cost = this.config.maxAvailableCost;
+    const maxAvailableCost = this.getMaxAvailableCost();
+    if (cost > maxAvailableCost) {
+      cost = maxAvailableCost;
     }
     this.availableCost = cost;
 
     const availablePlayerUnitIds = [];
     for (let i = 0; i < this.player!.unitIds.length; i++) {
       const unitId = this.player!.unitIds[i];
-      const master = this.unitMasterCache.get(unitId);
+      const master = this.getUnitMaster(unitId, true);
       if (!master) {
         continue;
       }
 
+      if (this.spawnCooldownFrameCounts.has(unitId)) {
+        continue;
+      }
       if (this.availableCost >= master.cost) {
         availablePlayerUnitIds.push(unitId);
       }
@@ -561,7 +2200,7 @@ export default class BattleLogic {
     if (this.delegator) {
       this.delegator.onAvailableCostUpdated(
         this.availableCost,
-        this.config.maxAvailableCost,
+        maxAvailableCost,
         availablePlayerUnitIds
       );
     }
@@ -569,6 +2208,33 @@ export default class BattleLogic {
     return this.availableCost;
   }
 
+  /**
+   * 渡されたエンティティ同士が同じレーンにいるかどうかを返す
+   * 拠点は全てのレーンに属する
+   */
+  private isSameLane(a: AttackableEntity, b: AttackableEntity): boolean {
+    return a.lane < 0 || b.lane < 0 || a.lane === b.lane;
+  }
+
+  /**
+   * 攻撃者の攻撃が標的に届くかどうかを返す
+   * 射程を持つ場合は自身の中心から標的の当たり判定の端まで、
+   * それ以外は互いの当たり判定が接しているかどうかで判定する
+   */
+  private isInReach(
+    attacker: AttackableEntity,
+    target: AttackableEntity
+  ): boolean {
+    const distance = Math.abs(
+      this.getFieldPosition(attacker) - this.getFieldPosition(target)
+    );
+    const reach = (attacker.range > 0)
+      ? attacker.range + target.hitbox * 0.5
+      : (attacker.hitbox + target.hitbox) * 0.5;
+
+    return distance <= reach;
+  }
+
   /**
    * 1 対 多での接敵を許容する場合は true を返す
    * 例外的に 1 対 多 を許容する場合があり、例えば拠点に対しての接敵は true とする
@@ -576,6 +2242,14 @@ export default class BattleLogic {
   private chivalrousFilter(attackable: AttackableEntity, target: AttackableEntity): boolean {
     // 設定で 1 対 多が許容されていれば true
     if (this.config.chivalrousEngage) {
+      // 射程を持つ場合は相手に関わらず接敵する
+      if (attackable.range > 0) {
+        return true;
+      }
+      // 相手が射程を持つならば接敵する
+      if (target.range > 0) {
+        return true;
+      }
       // 相手が接敵していなければ接敵する
       if (!target.engagedEntity) {
         return true;
@@ -600,10 +2274,33 @@ export default class BattleLogic {
     return true;
   }
 
+  /**
+   * 飛翔体を生成する
+   */
+  private spawnProjectile(
+    attacker: AttackableEntity,
+    target: AttackableEntity,
+    power: number,
+    master: ProjectileMaster
+  ): ProjectileEntity {
+    const entity = new ProjectileEntity(attacker, target, master);
+    entity.id = this.nextEntityId++;
+    entity.power = power;
+    this.projectileEntities.push(entity);
+
+    // デリゲータに飛翔体生成時の処理を行わせる
+    if (this.delegator) {
+      this.delegator.onProjectileEntitySpawned(entity);
+    }
+
+    return entity;
+  }
+
   private spawnCastle(castle: CastleMaster, isPlayer: boolean): CastleEntity {
     const entity = new CastleEntity(castle, isPlayer);
     // 拠点エンティティの ID 割当て
     entity.id = this.nextEntityId++;
+    entity.hitbox = castle.hitbox || this.config.castleHitbox;
     entity.state = AttackableState.IDLE;
     this.attackableEntities.push(entity);
 
@@ -11,6 +11,26 @@ export default class BattleLogicConfig {
    * 1 対 1 の接敵のみを許可するかどうか
    */
   public chivalrousEngage: boolean = true;
+  /**
+   * フィールド端から拠点までの距離
+   * エンティティのフィールド座標の算出に用いる
+   */
+  public castleOffset: number = 200;
+  /**
+   * ユニットの当たり判定の幅
+   * UnitMaster で指定されていない場合に用いる
+   */
+  public unitHitbox: number = 120;
+  /**
+   * 拠点の当たり判定の幅
+   * CastleMaster で指定されていない場合に用いる
+   */
+  public castleHitbox: number = 300;
+  /**
+   * 攻撃力を持つ拠点の攻撃間隔のフレーム数
+   * CastleMaster で指定されていない場合に用いる
+   */
+  public castleAttackIntervalFrames: number = 60;
   /**
    * ノックバック条件となる体力閾値
    * [0.5] の場合、体力が 0.5 以上から 0.5 未満に変動した場合にノックバックする
@@ -21,6 +41,10 @@ export default class BattleLogicConfig {
     costRecoveryPerFrame?: number,
     maxAvailableCost?: number,
     chivalrousEngage?: boolean,
+    castleOffset?: number,
+    unitHitbox?: number,
+    castleHitbox?: number,
+    castleAttackIntervalFrames?: number,
     knockBackHealthThreasholds?: number[]
   }) {
     if (!params) {
@@ -36,6 +60,18 @@ export default class BattleLogicConfig {
     if (params.chivalrousEngage) {
       this.chivalrousEngage = params.chivalrousEngage;
     }
+    if (params.castleOffset) {
+      this.castleOffset = params.castleOffset;
+    }
+    if (params.unitHitbox) {
+      this.unitHitbox = params.unitHitbox;
+    }
+    if (params.castleHitbox) {
+      this.castleHitbox = params.castleHitbox;
+    }
+    if (params.castleAttackIntervalFrames) {
+      this.castleAttackIntervalFrames = params.castleAttackIntervalFrames;
+    }
     if (params.knockBackHealthThreasholds) {
       this.knockBackHealthThreasholds = params.knockBackHealthThreasholds.sort().reverse();
     }
@@ -0,0 +1,142 @@
+import BattleReplay from 'interfaces/BattleReplay';
+import BattleParameter from 'interfaces/BattleParameter';
+import IndexedDBManager from 'managers/IndexedDBManager';
+
+/**
+ * バトルのリプレイ情報の保存と入出力を扱う
+ */
+export default class BattleReplayStorage {
+  /**
+   * 最後のバトルのリプレイを保存する indexed db のキー
+   */
+  public static readonly lastReplayKey: string = 'lastBattleReplay';
+
+  /**
+   * リプレイを indexed db に保存する
+   */
+  public static save(
+    replay: BattleReplay,
+    onSuccess?: (e: Event) => void,
+    onError?: (e?: Event) => void
+  ): void {
+    IndexedDBManager.put(
+      BattleReplayStorage.lastReplayKey,
+      replay,
+      onSuccess,
+      onError
+    );
+  }
+
+  /**
+   * indexed db からリプレイを取得する
+   * レコードが存在しなければ undefined を渡す
+   */
+  public static load(
+    callback: (replay: BattleReplay | undefined) => void
+  ): void {
+    IndexedDBManager.get(
+      BattleReplayStorage.lastReplayKey,
+      (replay) => { callback(replay); },
+      (_e) => { callback(undefined); }
+    );
+  }
+
+  /**
+   * リプレイを JSON 文字列に変換する
+   */
+  public static exportJson(replay: BattleReplay): string {
+    return JSON.stringify(replay, null, 2);
+  }
+
+  /**
+   * JSON 文字列からリプレイを復元する
+   */
+  public static importJson(json: string): BattleReplay {
+    const replay = JSON.parse(json);
+    if (
+      typeof replay.stageId !== 'number' ||
+      typeof replay.seed !== 'number' ||
+      !Array.isArray(replay.unitIds) ||
+      !Array.isArray(replay.spawnRequests)
+    ) {
+      throw new Error('invalid battle replay json');
+    }
+
+    return replay as BattleReplay;
+  }
+
+  /**
+   * リプレイを JSON ファイルとしてダウンロードさせる
+   */
+  public static download(replay: BattleReplay): void {
+    const json = BattleReplayStorage.exportJson(replay);
+    const a = document.createElement('a');
+
+    a.setAttribute(
+      'href',
+      `data:application/json;charset=utf-8,${encodeURIComponent(json)}`
+    );
+    a.setAttribute('download', `replay_${new Date().getTime()}.json`);
+    a.click();
+  }
+
+  /**
+   * ファイル選択ダイアログを開き、選択された JSON ファイルからリプレイを復元する
+   * 読み込みや復元に失敗した場合は onError に例外を渡す
+   */
+  public static openFile(
+    onLoaded: (replay: BattleReplay) => void,
+    onError?: (e: Error) => void
+  ): void {
+    const input = document.createElement('input');
+    input.setAttribute('type', 'file');
+    input.setAttribute('accept', 'application/json,.json');
+
+    input.addEventListener('change', () => {
+      const file = input.files ? input.files[0] : null;
+      if (!file) {
+        return;
+      }
+
+      const reader = new FileReader();
+      reader.onload = () => {
+        let replay: BattleReplay;
+        try {
+          replay = BattleReplayStorage.importJson(reader.result as string);
+        } catch (e) {
+          if (onError) {
+            onError(e);
+          }
+          return;
+        }
+        onLoaded(replay);
+      };
+      reader.onerror = () => {
+        if (onError) {
+          onError(new Error('could not read battle replay file'));
+        }
+      };
+      reader.readAsText(file);
+    });
+
+    input.click();
+  }
+
+  /**
+   * リプレイを再生するためのバトルパラメータを作成する
+   */
+  public static createBattleParameter(replay: BattleReplay): BattleParameter {
+    return {
+      replay,
+      unitSlotCount: replay.unitSlotCount,
+      stageId: replay.stageId,
+      unitIds: replay.unitIds.slice(),
+      playerCastle: replay.playerCastle,
+      cost: replay.cost,
+      seed: replay.seed,
+      playerUnitMasters: replay.playerUnitMasters,
+      synergies: replay.synergies,
+      skills: replay.skills
+    };
+  }
+}
@@ -0,0 +1,135 @@
+import BattleSimulationParameter from 'interfaces/BattleSimulationParameter';
+import BattleSimulationResult, {
+  BattleSimulationWinner
+} from 'interfaces/BattleSimulationResult';
+import BattleLogic from 'modules/BattleLogic';
+import BattleLogicConfig from 'modules/BattleLogicConfig';
+import HeadlessBattleDelegate from 'modules/HeadlessBattleDelegate';
+
+/**
+ * 描画を伴わずにバトルを最後まで実行するシミュレータ
+ * PIXI に依存しないため Node.js 上でマスターデータの調整に利用できる
+ */
+export default class BattleSimulator {
+  /**
+   * 勝敗が決まらない場合に打ち切るデフォルトのフレーム数
+   */
+  public static readonly defaultMaxFrameCount: number = 60 * 60 * 10;
+
+  /**
+   * シミュレーションパラメータ
+   */
+  private params!: BattleSimulationParameter;
+
+  /**
+   * コンストラクタ
+   */
+  constructor(params: BattleSimulationParameter) {
+    this.params = params;
+  }
+
+  /**
+   * バトルを勝敗が決まるか規定フレーム数に達するまで実行し、結果を返す
+   */
+  public run(): BattleSimulationResult {
+    const params = this.params;
+
+    const delegator = new HeadlessBattleDelegate(params.unitAnimationMasters);
+    const battleLogic = new BattleLogic();
+    battleLogic.init({
+      delegator,
+      stageMaster: params.stageMaster,
+      unitMasters: params.unitMasters,
+      player: {
+        unitIds: params.player.unitIds,
+        castle: params.player.castle,
+        unitMasters: params.player.unitMasters
+      },
+      ai: {
+        castle: params.aiCastle
+      },
+      aiStrategy: params.aiStrategy,
+      synergies: params.synergies,
+      skills: params.skills,
+      bossMasters: params.bossMasters,
+      costLevels: params.costLevels,
+      replaySkillRequests: params.skillRequests,
+      replayCostLevelUpRequests: params.costLevelUpRequests,
+      config: new BattleLogicConfig({
+        costRecoveryPerFrame: params.cost.recoveryPerFrame,
+        maxAvailableCost: params.cost.max
+      })
+    });
+
+    // フレーム数をキーにした生成リクエスト
+    const spawns: Map<number, BattleSimulationParameter['spawns']> = new Map();
+    for (let i = 0; i < params.spawns.length; i++) {
+      const spawn = params.spawns[i];
+      const requests = spawns.get(spawn.frame) || [];
+      requests.push(spawn);
+      spawns.set(spawn.frame, requests);
+    }
+
+    const maxFrameCount = params.maxFrameCount
+      || BattleSimulator.defaultMaxFrameCount;
+
+    while (delegator.frameCount < maxFrameCount) {
+      const requests = spawns.get(delegator.frameCount);
+      if (requests) {
+        for (let i = 0; i < requests.length; i++) {
+          const request = requests[i];
+          battleLogic.requestSpawnPlayer(request.unitId, request.lane || 0);
+        }
+      }
+
+      battleLogic.update();
+      delegator.frameCount++;
+
+      if (delegator.isGameOver) {
+        break;
+      }
+    }
+
+    return this.createResult(delegator);
+  }
+
+  /**
+   * デリゲータに記録された情報からシミュレーション結果を作成する
+   */
+  private createResult(
+    delegator: HeadlessBattleDelegate
+  ): BattleSimulationResult {
+    const playerCastle = delegator.castles.player;
+    const aiCastle = delegator.castles.ai;
+    if (!playerCastle || !aiCastle) {
+      throw new Error('castle entities are missing');
+    }
+
+    let winner: BattleSimulationWinner = 'none';
+    if (delegator.isGameOver) {
+      winner = (delegator.isPlayerWon) ? 'player' : 'ai';
+    }
+
+    const units: BattleSimulationResult['units'] = [];
+    delegator.unitRecords.forEach((record) => {
+      units.push(Object.assign({}, record));
+    });
+
+    return {
+      winner,
+      units,
+      frameCount: delegator.frameCount,
+      stars: (delegator.outcome) ? delegator.outcome.stars : 0,
+      castles: {
+        player: {
+          currentHealth: playerCastle.currentHealth,
+          maxHealth: playerCastle.maxHealth
+        },
+        ai: {
+          currentHealth: aiCastle.currentHealth,
+          maxHealth: aiCastle.maxHealth
+        }
+      }
+    };
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * バトルの時間の進め方を管理する
+ * 一時停止、倍速、コマ送りに応じて 1 tick あたりに進めるフレーム数を決める
+ * 描画のフレームレートに関わらず一定の論理フレームレートで進める
+ */
+export default class BattleTimeController {
+  /**
+   * 選択可能な再生速度
+   */
+  public static readonly speeds: number[] = [1, 2, 4];
+  /**
+   * BattleLogic を更新する論理フレームレート
+   */
+  public static readonly logicalFramesPerSecond: number = 60;
+  /**
+   * PIXI.ticker の delta が基準とするフレームレート
+   */
+  public static readonly tickerFramesPerSecond: number = 60;
+  /**
+   * 1 tick で進める最大フレーム数
+   * 処理落ちした際に更新が追いつかなくなることを防ぐ
+   */
+  public static readonly maxStepCount: number = 30;
+
+  /**
+   * コマ送りを許可するかどうか
+   */
+  public frameStepEnabled: boolean = false;
+
+  /**
+   * 現在の再生速度のインデックス
+   */
+  private speedIndex: number = 0;
+  /**
+   * 一時停止中かどうか
+   */
+  private paused: boolean = false;
+  /**
+   * コマ送りがリクエストされているかどうか
+   */
+  private frameStepRequested: boolean = false;
+  /**
+   * まだ進めていない論理フレーム数の端数
+   */
+  private accumulator: number = 0;
+
+  /**
+   * 現在の再生速度を返す
+   */
+  public get speed(): number {
+    return BattleTimeController.speeds[this.speedIndex];
+  }
+
+  /**
+   * 一時停止中かどうかを返す
+   */
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * 一時停止する
+   */
+  public pause(): void {
+    this.paused = true;
+  }
+
+  /**
+   * 一時停止を解除する
+   */
+  public resume(): void {
+    this.paused = false;
+    this.frameStepRequested = false;
+  }
+
+  /**
+   * 再生速度を次の候補に切り替え、切り替え後の速度を返す
+   */
+  public toggleSpeed(): number {
+    const speedCount = BattleTimeController.speeds.length;
+    this.speedIndex = (this.speedIndex + 1) % speedCount;
+    return this.speed;
+  }
+
+  /**
+   * 再生速度を等速に戻す
+   */
+  public resetSpeed(): void {
+    this.speedIndex = 0;
+  }
+
+  /**
+   * 一時停止中に 1 フレームだけ進めるようリクエストする
+   * コマ送りが許可されていなければ何もしない
+   */
+  public requestFrameStep(): void {
+    if (!this.frameStepEnabled || !this.paused) {
+      return;
+    }
+    this.frameStepRequested = true;
+  }
+
+  /**
+   * 渡された tick の delta で進める論理フレーム数を返す
+   * 進めきれない端数は次の tick に持ち越す
+   * コマ送りのリクエストはこの呼び出しで消費される
+   */
+  public consumeStepCount(delta: number): number {
+    if (this.paused) {
+      if (this.frameStepRequested) {
+        this.frameStepRequested = false;
+        return 1;
+      }
+      return 0;
+    }
+
+    const frameRate = BattleTimeController.logicalFramesPerSecond
+      / BattleTimeController.tickerFramesPerSecond;
+    this.accumulator += delta * frameRate * this.speed;
+
+    const stepCount = Math.floor(this.accumulator);
+    this.accumulator -= stepCount;
+
+    return Math.min(stepCount, BattleTimeController.maxStepCount);
+  }
+
+  /**
+   * 直前の論理フレームから次の論理フレームまでの経過率を返す
+   * 描画の補間に用いる
+   */
+  public getInterpolationRate(): number {
+    return (this.paused) ? 1 : this.accumulator;
+  }
+}
@@ -0,0 +1,69 @@
+import DeckPreset, { DeckPresetRecord } from 'interfaces/DeckPreset';
+import IndexedDBManager from 'managers/IndexedDBManager';
+
+/**
+ * 名前付きの編成の保存と取得を扱う
+ */
+export default class DeckPresetStorage {
+  /**
+   * 編成一覧を保存する indexed db のキー
+   */
+  public static readonly presetsKey: string = 'deckPresets';
+  /**
+   * 保存できる編成の数
+   */
+  public static readonly presetCount: number = 3;
+
+  /**
+   * indexed db から編成一覧を取得する
+   * レコードが存在しなければ null を渡す
+   */
+  public static load(
+    callback: (record: DeckPresetRecord | null) => void
+  ): void {
+    IndexedDBManager.get(
+      DeckPresetStorage.presetsKey,
+      (record) => { callback(record || null); },
+      (_e) => { callback(null); }
+    );
+  }
+
+  /**
+   * 編成一覧を indexed db に保存する
+   */
+  public static save(
+    record: DeckPresetRecord,
+    onSuccess?: (e: Event) => void,
+    onError?: (e?: Event) => void
+  ): void {
+    IndexedDBManager.put(
+      DeckPresetStorage.presetsKey,
+      record,
+      onSuccess,
+      onError
+    );
+  }
+
+  /**
+   * 保存された編成一覧があればそれを返し、なければ作成する
+   * 作成した場合は最初の編成に渡されたユニット ID 配列を設定する
+   */
+  public static restoreOrCreate(
+    record: DeckPresetRecord | null,
+    initialUnitIds: number[]
+  ): DeckPresetRecord {
+    if (record) {
+      return record;
+    }
+
+    const presets: DeckPreset[] = [];
+    for (let i = 0; i < DeckPresetStorage.presetCount; i++) {
+      presets.push({
+        name: `DECK ${i + 1}`,
+        unitIds: (i === 0) ? initialUnitIds.slice() : []
+      });
+    }
+
+    return { presets, selectedIndex: 0 };
+  }
+}
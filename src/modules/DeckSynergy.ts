@@ -0,0 +1,146 @@
+import UnitMaster from 'interfaces/master/UnitMaster';
+import SynergyMaster from 'interfaces/master/SynergyMaster';
+import SynergyEffectMaster from 'interfaces/master/SynergyEffectMaster';
+import SynergyEffectType from 'enum/SynergyEffectType';
+import BattleLogicConfig from 'modules/BattleLogicConfig';
+
+/**
+ * 編成で発動するシナジーの判定と効果の反映を行う
+ */
+export default class DeckSynergy {
+  /**
+   * 編成で発動しているシナジーを返す
+   * 0 以下のユニット ID は空き枠として扱う
+   */
+  public static getActiveSynergies(
+    unitIds: number[],
+    unitMasters: Map<number, UnitMaster>,
+    synergyMasters: SynergyMaster[]
+  ): SynergyMaster[] {
+    const deployedUnitIds = unitIds.filter((unitId, index) => {
+      return unitId > 0 && unitIds.indexOf(unitId) === index;
+    });
+
+    return synergyMasters.filter((synergy) => {
+      const requiredUnitIds = synergy.requiredUnitIds || [];
+      for (let i = 0; i < requiredUnitIds.length; i++) {
+        if (deployedUnitIds.indexOf(requiredUnitIds[i]) === -1) {
+          return false;
+        }
+      }
+
+      if (synergy.requiredTag) {
+        const tag = synergy.requiredTag;
+        const count = deployedUnitIds.filter((unitId) => {
+          return DeckSynergy.hasTag(unitMasters.get(unitId), tag);
+        }).length;
+        if (count < (synergy.requiredTagCount || 1)) {
+          return false;
+        }
+      }
+
+      return true;
+    });
+  }
+
+  /**
+   * シナジーの効果を反映した UnitMaster を返す
+   */
+  public static applyToUnitMaster(
+    unitMaster: UnitMaster,
+    synergies: SynergyMaster[]
+  ): UnitMaster {
+    let powerRate = 0;
+    let maxHealthRate = 0;
+    let speedRate = 0;
+
+    const effects = DeckSynergy.collectEffects(synergies);
+    for (let i = 0; i < effects.length; i++) {
+      const effect = effects[i];
+      const tag = effect.targetTag;
+      if (tag && !DeckSynergy.hasTag(unitMaster, tag)) {
+        continue;
+      }
+
+      switch (effect.type) {
+        case SynergyEffectType.UNIT_POWER_RATE: {
+          powerRate += effect.value;
+          break;
+        }
+        case SynergyEffectType.UNIT_MAX_HEALTH_RATE: {
+          maxHealthRate += effect.value;
+          break;
+        }
+        case SynergyEffectType.UNIT_SPEED_RATE: {
+          speedRate += effect.value;
+          break;
+        }
+        default: break;
+      }
+    }
+
+    return Object.assign({}, unitMaster, {
+      power: Math.round(unitMaster.power * (1 + powerRate)),
+      maxHealth: Math.round(unitMaster.maxHealth * (1 + maxHealthRate)),
+      speed: unitMaster.speed * (1 + speedRate)
+    });
+  }
+
+  /**
+   * シナジーの効果を反映した BattleLogicConfig を新たに作成して返す
+   */
+  public static applyToConfig(
+    config: BattleLogicConfig,
+    synergies: SynergyMaster[]
+  ): BattleLogicConfig {
+    let costRecoveryRate = 0;
+    let maxCost = 0;
+
+    const effects = DeckSynergy.collectEffects(synergies);
+    for (let i = 0; i < effects.length; i++) {
+      const effect = effects[i];
+      switch (effect.type) {
+        case SynergyEffectType.COST_RECOVERY_RATE: {
+          costRecoveryRate += effect.value;
+          break;
+        }
+        case SynergyEffectType.MAX_COST: {
+          maxCost += effect.value;
+          break;
+        }
+        default: break;
+      }
+    }
+
+    const costRecoveryPerFrame =
+      config.costRecoveryPerFrame * (1 + costRecoveryRate);
+
+    return Object.assign(new BattleLogicConfig(), config, {
+      costRecoveryPerFrame,
+      maxAvailableCost: config.maxAvailableCost + maxCost
+    });
+  }
+
+  /**
+   * シナジーの効果を 1 つの配列にまとめる
+   */
+  private static collectEffects(
+    synergies: SynergyMaster[]
+  ): SynergyEffectMaster[] {
+    let effects: SynergyEffectMaster[] = [];
+    for (let i = 0; i < synergies.length; i++) {
+      effects = effects.concat(synergies[i].effects);
+    }
+    return effects;
+  }
+
+  /**
+   * ユニットが分類を持っているかどうかを返す
+   */
+  private static hasTag(
+    unitMaster: UnitMaster | undefined,
+    tag: string
+  ): boolean {
+    return !!unitMaster && (unitMaster.tags || []).indexOf(tag) !== -1;
+  }
+}
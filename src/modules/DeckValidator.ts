@@ -0,0 +1,66 @@
+import UnitMaster from 'interfaces/master/UnitMaster';
+import DeckValidationError from 'enum/DeckValidationError';
+
+/**
+ * 編成の検証結果
+ */
+export type DeckValidationResult = {
+  isValid: boolean;
+  totalCost: number;
+  /**
+   * DeckValidationError の配列
+   */
+  errors: string[];
+};
+
+/**
+ * 編成がバトルを開始できる内容かどうかを検証する
+ */
+export default class DeckValidator {
+  /**
+   * 枠順のユニット ID 配列を検証する
+   * 0 以下のユニット ID は空き枠として扱う
+   */
+  public static validate(
+    unitIds: number[],
+    unitMasters: Map<number, UnitMaster>,
+    maxCost?: number
+  ): DeckValidationResult {
+    const errors: string[] = [];
+    const deployedUnitIds: number[] = [];
+    let totalCost = 0;
+
+    for (let i = 0; i < unitIds.length; i++) {
+      const unitId = unitIds[i];
+      if (unitId <= 0) {
+        continue;
+      }
+
+      if (deployedUnitIds.indexOf(unitId) !== -1) {
+        if (errors.indexOf(DeckValidationError.DUPLICATE_UNIT) === -1) {
+          errors.push(DeckValidationError.DUPLICATE_UNIT);
+        }
+        continue;
+      }
+      deployedUnitIds.push(unitId);
+
+      const master = unitMasters.get(unitId);
+      if (master) {
+        totalCost += master.cost;
+      }
+    }
+
+    if (deployedUnitIds.length === 0) {
+      errors.push(DeckValidationError.EMPTY);
+    }
+    if (maxCost !== undefined && totalCost > maxCost) {
+      errors.push(DeckValidationError.COST_OVER);
+    }
+
+    return {
+      totalCost,
+      errors,
+      isValid: errors.length === 0
+    };
+  }
+}
@@ -0,0 +1,403 @@
+import UnitAnimationMaster from 'interfaces/master/UnitAnimationMaster';
+import SkillMaster from 'interfaces/master/SkillMaster';
+import BossMaster from 'interfaces/master/BossMaster';
+import BossPhaseMaster from 'interfaces/master/BossPhaseMaster';
+import CostLevelMaster from 'interfaces/master/CostLevelMaster';
+import BattleLogicDelegate from 'interfaces/BattleLogicDelegate';
+import BattleOutcome from 'interfaces/BattleOutcome';
+import AttackableState from 'enum/AttackableState';
+import AttackableEntity from 'entity/AttackableEntity';
+import CastleEntity from 'entity/CastleEntity';
+import UnitEntity from 'entity/UnitEntity';
+import ProjectileEntity from 'entity/ProjectileEntity';
+import StatusEffectEntity from 'entity/StatusEffectEntity';
+
+/**
+ * ユニット毎の戦績
+ */
+export type HeadlessUnitRecord = {
+  entityId: number;
+  unitId: number;
+  isPlayer: boolean;
+  spawnedFrame: number;
+  damageDealt: number;
+  damageTaken: number;
+  healingDone: number;
+  isAlive: boolean;
+};
+
+/**
+ * 描画を伴わない BattleLogicDelegate 実装
+ * BattleScene がアニメーションで判断している処理を
+ * アニメーションマスターの値から近似する
+ */
+export default class HeadlessBattleDelegate implements BattleLogicDelegate {
+  /**
+   * 経過フレーム数
+   * BattleLogic.update 呼び出し元が更新する
+   */
+  public frameCount: number = 0;
+  /**
+   * 勝敗が決定したかどうか
+   */
+  public isGameOver: boolean = false;
+  /**
+   * プレイヤーが勝利したかどうか
+   */
+  public isPlayerWon: boolean = false;
+  /**
+   * BattleLogic が算出したバトル結果
+   */
+  public outcome: BattleOutcome | null = null;
+
+  /**
+   * エンティティ ID に紐つけたユニットの戦績
+   */
+  public unitRecords: Map<number, HeadlessUnitRecord> = new Map();
+  /**
+   * 拠点エンティティ
+   */
+  public castles: {
+    player: CastleEntity | null;
+    ai: CastleEntity | null;
+  } = {
+    player: null,
+    ai: null
+  };
+
+  /**
+   * ユニットアニメーションマスターのキャッシュ
+   */
+  private unitAnimationMasterCache: Map<number, UnitAnimationMaster>
+    = new Map();
+  /**
+   * エンティティ ID に紐つけた攻撃アニメーションの経過フレーム数
+   */
+  private attackElapsedFrameCounts: Map<number, number> = new Map();
+
+  /**
+   * コンストラクタ
+   */
+  constructor(unitAnimationMasters: UnitAnimationMaster[]) {
+    for (let i = 0; i < unitAnimationMasters.length; i++) {
+      const master = unitAnimationMasters[i];
+      this.unitAnimationMasterCache.set(master.unitId, master);
+    }
+  }
+
+  /**
+   * BattleLogicDelegate 実装
+   */
+
+  /**
+   * CastleEntity が生成されたときのコールバック
+   */
+  public onCastleEntitySpawned(entity: CastleEntity, isPlayer: boolean): void {
+    if (isPlayer) {
+      this.castles.player = entity;
+    } else {
+      this.castles.ai = entity;
+    }
+  }
+
+  /**
+   * UnitEntity が生成されたときのコールバック
+   */
+  public onUnitEntitySpawned(entity: UnitEntity): void {
+    this.unitRecords.set(entity.id, {
+      entityId: entity.id,
+      unitId: entity.unitId,
+      isPlayer: entity.isPlayer,
+      spawnedFrame: this.frameCount,
+      damageDealt: 0,
+      damageTaken: 0,
+      healingDone: 0,
+      isAlive: true
+    });
+  }
+
+  /**
+   * ボスの UnitEntity が生成されたときのコールバック
+   */
+  public onBossEntitySpawned(_entity: UnitEntity, _boss: BossMaster): void {
+    // NOOP
+  }
+
+  /**
+   * ボスのフェーズが移行したときのコールバック
+   */
+  public onBossPhaseChanged(
+    _entity: UnitEntity,
+    _phase: BossPhaseMaster,
+    _phaseIndex: number
+  ): void {
+    // NOOP
+  }
+
+  /**
+   * エンティティのステートが変更された際のコールバック
+   */
+  public onAttackableEntityStateChanged(
+    entity: AttackableEntity,
+    _oldState: number
+  ): void {
+    switch (entity.state) {
+      case AttackableState.ENGAGED: {
+        this.attackElapsedFrameCounts.set(entity.id, 0);
+        break;
+      }
+      case AttackableState.DEAD: {
+        const record = this.unitRecords.get(entity.id);
+        if (record) {
+          record.isAlive = false;
+        }
+        this.attackElapsedFrameCounts.delete(entity.id);
+        break;
+      }
+      default: {
+        this.attackElapsedFrameCounts.delete(entity.id);
+        break;
+      }
+    }
+  }
+
+  /**
+   * 渡された UnitEntity の distance が変化した時に呼ばれる
+   */
+  public onAttackableEntityWalked(_entity: AttackableEntity): void {
+    // NOOP
+  }
+
+  /**
+   * 渡された UnitEntity がノックバック中に呼ばれる
+   */
+  public onAttackableEntityKnockingBack(
+    _entity: AttackableEntity,
+    _knockBackRate: number
+  ): void {
+    // NOOP
+  }
+
+  /**
+   * 渡されたエンティティの health が増減した場合に呼ばれる
+   */
+  public onAttackableEntityHealthUpdated(
+    attacker: AttackableEntity,
+    target: AttackableEntity,
+    fromHealth: number,
+    toHealth: number,
+    _maxHealth: number
+  ): void {
+    const damage = fromHealth - toHealth;
+
+    const attackerRecord = this.unitRecords.get(attacker.id);
+    if (attackerRecord) {
+      attackerRecord.damageDealt += damage;
+    }
+    const targetRecord = this.unitRecords.get(target.id);
+    if (targetRecord) {
+      targetRecord.damageTaken += damage;
+    }
+  }
+
+  /**
+   * 渡されたエンティティの health が回復した場合に呼ばれる
+   */
+  public onAttackableEntityHealed(
+    healer: AttackableEntity,
+    _target: AttackableEntity,
+    fromHealth: number,
+    toHealth: number,
+    _maxHealth: number
+  ): void {
+    const healerRecord = this.unitRecords.get(healer.id);
+    if (healerRecord) {
+      healerRecord.healingDone += toHealth - fromHealth;
+    }
+  }
+
+  /**
+   * エンティティに状態効果がかかったときのコールバック
+   */
+  public onStatusEffectApplied(
+    _entity: AttackableEntity,
+    _effect: StatusEffectEntity
+  ): void {
+    // NOOP
+  }
+
+  /**
+   * エンティティの状態効果が切れたときのコールバック
+   */
+  public onStatusEffectExpired(
+    _entity: AttackableEntity,
+    _effect: StatusEffectEntity
+  ): void {
+    // NOOP
+  }
+
+  /**
+   * ProjectileEntity が生成されたときのコールバック
+   */
+  public onProjectileEntitySpawned(_entity: ProjectileEntity): void {
+    // NOOP
+  }
+
+  /**
+   * ProjectileEntity が移動したときのコールバック
+   */
+  public onProjectileEntityMoved(
+    _entity: ProjectileEntity,
+    _flightRate: number
+  ): void {
+    // NOOP
+  }
+
+  /**
+   * ProjectileEntity が着弾、または消滅したときのコールバック
+   */
+  public onProjectileEntityRemoved(_entity: ProjectileEntity): void {
+    // NOOP
+  }
+
+  /**
+   * 利用可能なコストの値が変動したときのコールバック
+   */
+  public onAvailableCostUpdated(
+    _cost: number,
+    _maxCost: number,
+    _availablePlayerUnitIds: number[]
+  ): void {
+    // NOOP
+  }
+
+  /**
+   * プレイヤーユニットの生成クールダウンが変動したときのコールバック
+   */
+  public onSpawnCooldownUpdated(
+    _unitId: number,
+    _remainingFrameCount: number,
+    _cooldownFrames: number
+  ): void {
+    // NOOP
+  }
+
+  /**
+   * 大砲のゲージが変動したときのコールバック
+   */
+  public onCastleCannonChargeUpdated(
+    _charge: number,
+    _maxCharge: number
+  ): void {
+    // NOOP
+  }
+
+  /**
+   * 大砲が発射されたときのコールバック
+   */
+  public onCastleCannonFired(
+    _castle: CastleEntity,
+    _targets: AttackableEntity[]
+  ): void {
+    // NOOP
+  }
+
+  /**
+   * スキルのゲージが変動したときのコールバック
+   */
+  public onSkillChargeUpdated(
+    _skillId: number,
+    _charge: number,
+    _maxCharge: number
+  ): void {
+    // NOOP
+  }
+
+  /**
+   * スキルが発動したときのコールバック
+   */
+  public onSkillActivated(
+    _skill: SkillMaster,
+    _targets: AttackableEntity[],
+    _fieldPosition?: number
+  ): void {
+    // NOOP
+  }
+
+  /**
+   * コストレベルが上昇したときのコールバック
+   */
+  public onCostLevelUpdated(
+    _costLevel: CostLevelMaster,
+    _nextCostLevel: CostLevelMaster | null
+  ): void {
+    // NOOP
+  }
+
+  /**
+   * 勝敗が決定したときのコールバック
+   */
+  public onGameOver(outcome: BattleOutcome): void {
+    this.isGameOver = true;
+    this.isPlayerWon = outcome.isPlayerWon;
+    this.outcome = outcome;
+  }
+
+  /**
+   * 射程内のエンティティに攻撃してよいか返す
+   * 射程の判定は BattleLogic が行う
+   */
+  public shouldDamage(
+    attacker: AttackableEntity,
+    _target: AttackableEntity
+  ): boolean {
+    return this.isHitFrame(attacker);
+  }
+
+  /**
+   * 回復範囲内のエンティティを回復してよいか返す
+   * 回復範囲の判定は BattleLogic が行う
+   */
+  public shouldHeal(
+    healer: AttackableEntity,
+    _target: AttackableEntity
+  ): boolean {
+    return this.isHitFrame(healer);
+  }
+
+  /**
+   * 渡されたユニットが移動してよいか返す
+   */
+  public shouldAttackableWalk(entity: AttackableEntity): boolean {
+    return !!(entity as UnitEntity).unitId;
+  }
+
+  /**
+   * 特異メソッド
+   */
+
+  /**
+   * 攻撃アニメーションの当たり判定フレームかどうかを返す
+   * 当たり判定フレームは経過フレーム数から割り出す
+   */
+  private isHitFrame(attacker: AttackableEntity): boolean {
+    const unitId = (attacker as UnitEntity).unitId;
+    if (!unitId) {
+      return false;
+    }
+    const animationMaster = this.unitAnimationMasterCache.get(unitId);
+    if (!animationMaster) {
+      return false;
+    }
+
+    const elapsed = (this.attackElapsedFrameCounts.get(attacker.id) || 0) + 1;
+    this.attackElapsedFrameCounts.set(attacker.id, elapsed);
+
+    const animation = animationMaster.types.attack;
+    const cycle = animation.updateDuration * animation.frames.length;
+    const hitFrameTime =
+      ((animationMaster.hitFrame - 1) * animation.updateDuration) % cycle;
+
+    return (elapsed % cycle) === hitFrameTime;
+  }
+}
@@ -0,0 +1,268 @@
+import UserBattle from 'interfaces/api/UserBattle';
+import PlayerProfile from 'interfaces/PlayerProfile';
+import BattleOutcome from 'interfaces/BattleOutcome';
+import StageRewardMaster from 'interfaces/master/StageRewardMaster';
+import StageInfoMaster from 'interfaces/master/StageInfoMaster';
+import UnitGrowthMaster from 'interfaces/master/UnitGrowthMaster';
+import IndexedDBManager from 'managers/IndexedDBManager';
+import UnitGrowth from 'modules/UnitGrowth';
+
+/**
+ * バトル結果を反映した際に得られたもの
+ */
+export type ProgressionResult = {
+  isFirstClear: boolean;
+  currency: number;
+  unlockedStageId: number;
+  unlockedUnitIds: number[];
+};
+
+/**
+ * ステージ選択で表示するステージごとの進行状況
+ */
+export type StageProgress = {
+  master: StageInfoMaster;
+  bestStars: number;
+  locked: boolean;
+};
+
+/**
+ * プレイヤーの進行状況の保存と更新を扱う
+ * ステージのクリア記録、ステージやユニットの解放、通貨の付与とユニットの強化を行う
+ */
+export default class ProgressionService {
+  /**
+   * 進行状況を保存する indexed db のキー
+   */
+  public static readonly profileKey: string = 'playerProfile';
+
+  /**
+   * indexed db から進行状況を取得する
+   * レコードが存在しなければ null を渡す
+   */
+  public static load(callback: (profile: PlayerProfile | null) => void): void {
+    IndexedDBManager.get(
+      ProgressionService.profileKey,
+      (profile) => { callback(profile || null); },
+      (_e) => { callback(null); }
+    );
+  }
+
+  /**
+   * 進行状況を indexed db に保存する
+   */
+  public static save(
+    profile: PlayerProfile,
+    onSuccess?: (e: Event) => void,
+    onError?: (e?: Event) => void
+  ): void {
+    IndexedDBManager.put(
+      ProgressionService.profileKey,
+      profile,
+      onSuccess,
+      onError
+    );
+  }
+
+  /**
+   * 保存された進行状況があればそれを返し、なければ渡された内容で作成して保存する
+   */
+  public static restoreOrCreate(
+    profile: PlayerProfile | null,
+    seed: UserBattle
+  ): PlayerProfile {
+    if (profile) {
+      // ユニットのレベルを持たない古い形式の進行状況を補完する
+      if (!profile.unitLevels) {
+        profile.unitLevels = {};
+      }
+      return profile;
+    }
+
+    const newProfile = ProgressionService.createProfile(seed);
+    ProgressionService.save(newProfile);
+    return newProfile;
+  }
+
+  /**
+   * user_battle API の内容を初期値とした進行状況を作成する
+   */
+  public static createProfile(seed: UserBattle): PlayerProfile {
+    return {
+      unlockedUnitIds: seed.unlockedUnitIds.slice(),
+      unlockedStageId: seed.unlockedStageId,
+      castle: Object.assign({}, seed.castle),
+      cost: Object.assign({}, seed.cost),
+      currency: 0,
+      stageRecords: {},
+      unitLevels: {}
+    };
+  }
+
+  /**
+   * 保存されている進行状況にバトル結果を反映して保存する
+   * 進行状況が存在しなければ何もしない
+   */
+  public static recordBattle(
+    stageId: number,
+    outcome: BattleOutcome,
+    stageInfoMasters: StageInfoMaster[],
+    reward: StageRewardMaster | undefined,
+    callback?: (result: ProgressionResult | null) => void
+  ): void {
+    ProgressionService.load((profile) => {
+      if (!profile) {
+        if (callback) {
+          callback(null);
+        }
+        return;
+      }
+
+      const result = ProgressionService.applyBattleOutcome(
+        profile,
+        stageId,
+        outcome,
+        stageInfoMasters,
+        reward
+      );
+      ProgressionService.save(profile);
+
+      if (callback) {
+        callback(result);
+      }
+    });
+  }
+
+  /**
+   * 進行状況にバトル結果を反映する
+   * 勝利した場合のみ記録を更新し、初回勝利であれば次のステージと報酬のユニットを解放する
+   * 次のステージはステージ一覧に存在する場合のみ解放する
+   */
+  public static applyBattleOutcome(
+    profile: PlayerProfile,
+    stageId: number,
+    outcome: BattleOutcome,
+    stageInfoMasters: StageInfoMaster[],
+    reward?: StageRewardMaster
+  ): ProgressionResult {
+    const result: ProgressionResult = {
+      isFirstClear: false,
+      currency: 0,
+      unlockedStageId: profile.unlockedStageId,
+      unlockedUnitIds: []
+    };
+
+    if (!outcome.isPlayerWon) {
+      return result;
+    }
+
+    const record = profile.stageRecords[stageId] || {
+      clearCount: 0,
+      bestStars: 0
+    };
+    result.isFirstClear = (record.clearCount === 0);
+
+    record.clearCount++;
+    record.bestStars = Math.max(record.bestStars, outcome.stars);
+    profile.stageRecords[stageId] = record;
+
+    if (reward) {
+      result.currency = reward.currency;
+      if (result.isFirstClear) {
+        result.currency += reward.firstClearCurrency || 0;
+      }
+    }
+
+    if (result.isFirstClear) {
+      const nextStageId = ProgressionService.getNextStageId(
+        stageId,
+        stageInfoMasters
+      );
+      if (nextStageId > 0) {
+        profile.unlockedStageId = Math.max(
+          profile.unlockedStageId,
+          nextStageId
+        );
+      }
+      result.unlockedStageId = profile.unlockedStageId;
+
+      const unitIds = (reward && reward.unlockUnitIds) || [];
+      for (let i = 0; i < unitIds.length; i++) {
+        const unitId = unitIds[i];
+        if (profile.unlockedUnitIds.indexOf(unitId) === -1) {
+          profile.unlockedUnitIds.push(unitId);
+          result.unlockedUnitIds.push(unitId);
+        }
+      }
+    }
+
+    profile.currency += result.currency;
+
+    return result;
+  }
+
+  /**
+   * ステージ一覧で渡されたステージの次にあたるステージ ID を返す
+   * 次のステージが存在しなければ -1 を返す
+   */
+  public static getNextStageId(
+    stageId: number,
+    stageInfoMasters: StageInfoMaster[]
+  ): number {
+    let nextStageId = -1;
+    for (let i = 0; i < stageInfoMasters.length; i++) {
+      const id = stageInfoMasters[i].stageId;
+      if (id > stageId && (nextStageId === -1 || id < nextStageId)) {
+        nextStageId = id;
+      }
+    }
+    return nextStageId;
+  }
+
+  /**
+   * ステージ一覧の各ステージについて最高評価と解放状況を返す
+   * 解放済みのステージ ID より後のステージはロック中とする
+   */
+  public static getStageProgresses(
+    profile: PlayerProfile,
+    stageInfoMasters: StageInfoMaster[]
+  ): StageProgress[] {
+    return stageInfoMasters.map((master) => {
+      const record = profile.stageRecords[master.stageId];
+      return {
+        master,
+        bestStars: (record) ? record.bestStars : 0,
+        locked: master.stageId > profile.unlockedStageId
+      };
+    });
+  }
+
+  /**
+   * ユニットのレベルを返す
+   */
+  public static getUnitLevel(profile: PlayerProfile, unitId: number): number {
+    return profile.unitLevels[unitId] || 1;
+  }
+
+  /**
+   * 通貨を消費してユニットのレベルを 1 上げ、進行状況を保存する
+   * 最大レベルに達しているか通貨が足りなければ何もせず false を返す
+   */
+  public static upgradeUnit(
+    profile: PlayerProfile,
+    growthMaster: UnitGrowthMaster
+  ): boolean {
+    const unitId = growthMaster.unitId;
+    const level = ProgressionService.getUnitLevel(profile, unitId);
+    const cost = UnitGrowth.getUpgradeCost(growthMaster, level);
+    if (cost < 0 || profile.currency < cost) {
+      return false;
+    }
+
+    profile.currency -= cost;
+    profile.unitLevels[unitId] = level + 1;
+    ProgressionService.save(profile);
+
+    return true;
+  }
+}
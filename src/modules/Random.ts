@@ -0,0 +1,59 @@
+/**
+ * シード値を指定できる疑似乱数生成器
+ * 同じシード値からは常に同じ乱数列が得られる
+ * アルゴリズムには mulberry32 を用いる
+ */
+export default class Random {
+  /**
+   * 初期化に用いたシード値
+   */
+  public readonly seed: number;
+
+  /**
+   * 内部状態
+   */
+  private state: number;
+
+  /**
+   * 新しいシード値を生成する
+   */
+  public static createSeed(): number {
+    return Math.floor(Math.random() * 0xffffffff) >>> 0;
+  }
+
+  /**
+   * コンストラクタ
+   */
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * 0 以上 1 未満の乱数を返す
+   * Math.random の代わりに用いる
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * min 以上 max 未満の乱数を返す
+   */
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * 0 以上 max 未満の整数の乱数を返す
+   */
+  public int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+}
@@ -0,0 +1,14 @@
+import * as PIXI from 'pixi.js';
+import * as UI from 'interfaces/UiGraph/index';
+import UiNodeFactory from 'modules/UiNodeFactory/UiNodeFactory';
+import CastleCannonButton from 'display/battle/CastleCannonButton';
+
+/**
+ * バトルで用いる CastleCannonButton のファクトリ
+ * CastleCannonButton インスタンスを返す
+ */
+export default class CastleCannonButtonFactory extends UiNodeFactory {
+  public createUiNode(_?: UI.NodeParams): PIXI.Container | null {
+    return new CastleCannonButton();
+  }
+}
@@ -0,0 +1,14 @@
+import * as PIXI from 'pixi.js';
+import * as UI from 'interfaces/UiGraph/index';
+import UiNodeFactory from 'modules/UiNodeFactory/UiNodeFactory';
+import CostLevelButton from 'display/battle/CostLevelButton';
+
+/**
+ * バトルで用いる CostLevelButton のファクトリ
+ * CostLevelButton インスタンスを返す
+ */
+export default class CostLevelButtonFactory extends UiNodeFactory {
+  public createUiNode(_?: UI.NodeParams): PIXI.Container | null {
+    return new CostLevelButton();
+  }
+}
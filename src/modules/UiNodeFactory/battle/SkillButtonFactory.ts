@@ -0,0 +1,14 @@
+import * as PIXI from 'pixi.js';
+import * as UI from 'interfaces/UiGraph/index';
+import UiNodeFactory from 'modules/UiNodeFactory/UiNodeFactory';
+import SkillButton from 'display/battle/SkillButton';
+
+/**
+ * バトルで用いる SkillButton のファクトリ
+ * SkillButton インスタンスを返す
+ */
+export default class SkillButtonFactory extends UiNodeFactory {
+  public createUiNode(_?: UI.NodeParams): PIXI.Container | null {
+    return new SkillButton();
+  }
+}
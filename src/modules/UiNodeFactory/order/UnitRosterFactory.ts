@@ -0,0 +1,17 @@
+import * as PIXI from 'pixi.js';
+import * as UI from 'interfaces/UiGraph/index';
+import UiNodeFactory from 'modules/UiNodeFactory/UiNodeFactory';
+import UnitRoster from 'display/order/UnitRoster';
+
+/**
+ * 編成画面で用いる UnitRoster のファクトリ
+ * params の width, height で表示領域の大きさを指定する
+ */
+export default class UnitRosterFactory extends UiNodeFactory {
+  public createUiNode(nodeParams?: UI.NodeParams): PIXI.Container | null {
+    const width = (nodeParams && nodeParams.width) || 1056;
+    const height = (nodeParams && nodeParams.height) || 176;
+
+    return new UnitRoster(width, height);
+  }
+}
@@ -0,0 +1,17 @@
+import * as PIXI from 'pixi.js';
+import * as UI from 'interfaces/UiGraph/index';
+import UiNodeFactory from 'modules/UiNodeFactory/UiNodeFactory';
+import StageCardList from 'display/stage_select/StageCardList';
+
+/**
+ * ステージ選択画面で用いる StageCardList のファクトリ
+ * params の width, height で表示領域の大きさを指定する
+ */
+export default class StageCardListFactory extends UiNodeFactory {
+  public createUiNode(nodeParams?: UI.NodeParams): PIXI.Container | null {
+    const width = (nodeParams && nodeParams.width) || 1136;
+    const height = (nodeParams && nodeParams.height) || 400;
+
+    return new StageCardList(width, height);
+  }
+}
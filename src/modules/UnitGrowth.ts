@@ -0,0 +1,69 @@
+import UnitMaster from 'interfaces/master/UnitMaster';
+import UnitGrowthMaster from 'interfaces/master/UnitGrowthMaster';
+
+/**
+ * 成長曲線に従ってユニットのレベルに応じた値を算出する
+ */
+export default class UnitGrowth {
+  /**
+   * レベルを反映した UnitMaster を返す
+   * 成長曲線がなければ渡された UnitMaster をそのまま返す
+   */
+  public static applyLevel(
+    unitMaster: UnitMaster,
+    growthMaster: UnitGrowthMaster | undefined,
+    level: number
+  ): UnitMaster {
+    if (!growthMaster) {
+      return unitMaster;
+    }
+
+    const grownLevel = UnitGrowth.clampLevel(growthMaster, level) - 1;
+
+    return Object.assign({}, unitMaster, {
+      maxHealth: Math.floor(
+        unitMaster.maxHealth * (1 + growthMaster.maxHealthRate * grownLevel)
+      ),
+      power: Math.floor(
+        unitMaster.power * (1 + growthMaster.powerRate * grownLevel)
+      ),
+      speed: unitMaster.speed * (1 + growthMaster.speedRate * grownLevel)
+    });
+  }
+
+  /**
+   * 渡されたレベルから次のレベルに上げるために必要な通貨を返す
+   * 最大レベルに達している場合は -1 を返す
+   */
+  public static getUpgradeCost(
+    growthMaster: UnitGrowthMaster,
+    level: number
+  ): number {
+    if (UnitGrowth.isMaxLevel(growthMaster, level)) {
+      return -1;
+    }
+
+    const rate = Math.pow(growthMaster.upgradeCostRate, level - 1);
+    return Math.floor(growthMaster.baseUpgradeCost * rate);
+  }
+
+  /**
+   * 最大レベルに達しているかどうかを返す
+   */
+  public static isMaxLevel(
+    growthMaster: UnitGrowthMaster,
+    level: number
+  ): boolean {
+    return level >= growthMaster.maxLevel;
+  }
+
+  /**
+   * レベルを 1 から最大レベルの範囲に丸める
+   */
+  private static clampLevel(
+    growthMaster: UnitGrowthMaster,
+    level: number
+  ): number {
+    return Math.min(Math.max(level, 1), growthMaster.maxLevel);
+  }
+}
@@ -0,0 +1,29 @@
+import UnitMaster from 'interfaces/master/UnitMaster';
+import UnitBehavior from 'enum/UnitBehavior';
+
+/**
+ * ユニットの能力値を表示用の文字列に整形する
+ */
+export default class UnitStatusFormatter {
+  /**
+   * 能力値を 1 行ずつの文字列配列で返す
+   * 射程は設定されている場合のみ含める
+   */
+  public static format(master: UnitMaster): string[] {
+    // 回復役は power を回復量として用いる
+    const isHealer = (master.behavior === UnitBehavior.HEALER);
+    const lines = [
+      `TYPE  ${isHealer ? 'HEALER' : 'ATTACKER'}`,
+      `COST  ${master.cost}`,
+      `HP    ${master.maxHealth}`,
+      `${isHealer ? 'HEAL' : 'ATK '}  ${master.power}`,
+      `SPD   ${Math.round(master.speed * 100) / 100}`,
+      `KNOCKBACK  ${master.knockBackFrames}F x${master.knockBackSpeed}`
+    ];
+    if (master.range) {
+      lines.push(`RANGE ${master.range}`);
+    }
+
+    return lines;
+  }
+}
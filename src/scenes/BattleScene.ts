@@ -1,15 +1,24 @@
 import * as PIXI from 'pixi.js';
+import Config from 'Config';
 import Resource from 'Resource';
 
 import CastleMaster from 'interfaces/master/CastleMaster';
+import StageMaster from 'interfaces/master/StageMaster';
 import UnitAnimationMaster from 'interfaces/master/UnitAnimationMaster';
+import SkillMaster from 'interfaces/master/SkillMaster';
+import BossMaster from 'interfaces/master/BossMaster';
+import BossPhaseMaster from 'interfaces/master/BossPhaseMaster';
+import CostLevelMaster from 'interfaces/master/CostLevelMaster';
 import BattleLogicDelegate from 'interfaces/BattleLogicDelegate';
 import UpdateObject from 'interfaces/UpdateObject';
 import BattleParameter from 'interfaces/BattleParameter';
+import BattleReplay from 'interfaces/BattleReplay';
+import BattleOutcome from 'interfaces/BattleOutcome';
 import LoaderAddParam from 'interfaces/PixiTypePolyfill/LoaderAddParam';
 
 import AttackableState from 'enum/AttackableState';
 import BattleSceneState from 'enum/BattleSceneState';
+import StatusEffectType from 'enum/StatusEffectType';
 
 import GameManager from 'managers/GameManager';
 import SoundManager from 'managers/SoundManager';
@@ -20,20 +29,39 @@ import Fade from 'scenes/transition/Fade';
 
 import UiNodeFactory from 'modules/UiNodeFactory/UiNodeFactory';
 import UnitButtonFactory from 'modules/UiNodeFactory/battle/UnitButtonFactory';
+import CastleCannonButtonFactory
+    from 'modules/UiNodeFactory/battle/CastleCannonButtonFactory';
+import SkillButtonFactory
+    from 'modules/UiNodeFactory/battle/SkillButtonFactory';
+import CostLevelButtonFactory
+    from 'modules/UiNodeFactory/battle/CostLevelButtonFactory';
 import BattleLogic from 'modules/BattleLogic';
 import BattleLogicConfig from 'modules/BattleLogicConfig';
+import BattleTimeController from 'modules/BattleTimeController';
+import Random from 'modules/Random';
+import BattleReplayStorage from 'modules/BattleReplayStorage';
+import ProgressionService from 'modules/ProgressionService';
+import AIStrategyFactory from 'modules/AIStrategy/AIStrategyFactory';
 
 import AttackableEntity from 'entity/AttackableEntity';
 import CastleEntity from 'entity/CastleEntity';
 import UnitEntity from 'entity/UnitEntity';
+import ProjectileEntity from 'entity/ProjectileEntity';
+import StatusEffectEntity from 'entity/StatusEffectEntity';
 
 import Attackable from 'display/battle/Attackable';
 import Unit from 'display/battle/Unit';
 import Castle from 'display/battle/Castle';
+import Projectile from 'display/battle/Projectile';
 
 import UnitButton from 'display/battle/UnitButton';
+import CastleCannonButton from 'display/battle/CastleCannonButton';
+import SkillButton from 'display/battle/SkillButton';
+import CostLevelButton from 'display/battle/CostLevelButton';
+import BossHealthBar from 'display/battle/BossHealthBar';
 import Field from 'display/battle/Field';
 import BattleResult from 'display/battle/BattleResult';
+import PauseMenu from 'display/battle/PauseMenu';
 import AttackSmoke from 'display/battle/single_shot/AttackSmoke';
 import Dead from 'display/battle/single_shot/Dead';
 import CollapseExplodeEffect
@@ -44,13 +72,29 @@ import CollapseExplodeEffect
  * ゲームロジックは BattleLogic に委譲し、主に描画周りを行う
  */
 export default class BattleScene extends Scene implements BattleLogicDelegate {
-  private static readonly castleXOffset: number = 200;
   private static readonly unitLeapHeight: number = 30;
 
   /**
    * UI Graph ユニットボタンのキープリフィックス
    */
   private static readonly unitButtonPrefix: string = 'unit_button_';
+  /**
+   * UI Graph スキルボタンのキープリフィックス
+   */
+  private static readonly skillButtonPrefix: string = 'skill_button_';
+  /**
+   * 隕石スキルで表示する爆発の数
+   */
+  private static readonly meteorExplodeCount: number = 3;
+  /**
+   * 状態効果の種別毎にユニットへ適用する色
+   */
+  private static readonly statusEffectTints: { [key: string]: number } = {
+    [StatusEffectType.POISON]: 0x88ff88,
+    [StatusEffectType.SLOW]: 0x8888ff,
+    [StatusEffectType.STUN]: 0xffff88,
+    [StatusEffectType.POWER_UP]: 0xff8888
+  };
 
   /**
    * このシーンのステート
@@ -80,6 +124,28 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
    * BattleLogic 用の設定
    */
   private battleLogicConfig!: BattleLogicConfig;
+  /**
+   * 一時停止や倍速を管理する BattleTimeController のインスタンス
+   */
+  private timeController: BattleTimeController = new BattleTimeController();
+  /**
+   * 一時停止中に表示するメニュー
+   */
+  private pauseMenu!: PauseMenu;
+  /**
+   * リプレイ記録用に保持するバトル開始時のパラメータ
+   */
+  private battleParameter!: BattleParameter;
+  /**
+   * 再生中のリプレイ
+   * 通常のバトルでは null
+   */
+  private replay: BattleReplay | null = null;
+  /**
+   * バトル中の演出に用いる乱数生成器
+   * シード値が同じであれば同じ演出が再現される
+   */
+  private random!: Random;
   /**
    * 背景の PIXI.Container
    */
@@ -99,11 +165,28 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     player: null,
     ai: null
   };
+  /**
+   * エンティティの ID で紐付けられた飛翔中の Projectile インスタンスのマップ
+   */
+  private projectiles: Map<number, Projectile> = new Map();
+  /**
+   * レーン選択待ちの UnitButton のインデックス
+   * 選択されていない場合は -1
+   */
+  private selectedUnitButtonIndex: number = -1;
   /**
    * ユニットアニメーションマスターのキャッシュ
    */
   private unitAnimationMasterCache: Map<number, UnitAnimationMaster>
     = new Map();
+  /**
+   * ボスの体力ゲージ
+   */
+  private bossHealthBar: BossHealthBar = new BossHealthBar();
+  /**
+   * 体力ゲージに表示しているボスのエンティティ ID
+   */
+  private bossEntityId: number = -1;
 
   /**
    * コンストラクタ
@@ -118,8 +201,10 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     this.state = BattleSceneState.LOADING_RESOURCES;
     // BattleLogic インスタンスの作成
     this.battleLogic = new BattleLogic();
+    // 乱数生成器の作成
+    this.random = new Random(params.seed);
     // Background インスタンスの作成
-    this.field = new Field();
+    this.field = new Field(this.random);
 
     // ユーザパラメータの設定
     this.unitSlotCount = params.unitSlotCount;
@@ -127,10 +212,31 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     this.unitIds   = params.unitIds;
     this.playerCastle = params.playerCastle;
 
+    // unitIds は AI のユニット ID が追加されるため複製して保持する
+    this.battleParameter = Object.assign({}, params, {
+      unitIds: params.unitIds.slice()
+    });
+    this.replay = params.replay || null;
+
     this.battleLogicConfig = new BattleLogicConfig({
       costRecoveryPerFrame: params.cost.recoveryPerFrame,
       maxAvailableCost: params.cost.max
     });
+
+    if (Config.IsDebug) {
+      // 一時停止中に N キーでコマ送りできるようにする
+      this.timeController.frameStepEnabled = true;
+      document.addEventListener('keydown', this.onDebugKeyDown);
+    }
+  }
+
+  /**
+   * PIXI.Container メソッドオーバーライド
+   * シーン破棄時にイベントリスナを解除する
+   */
+  public destroy(options?: PIXI.DestroyOptions | boolean): void {
+    document.removeEventListener('keydown', this.onDebugKeyDown);
+    super.destroy(options);
   }
 
   /**
@@ -164,13 +270,24 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
       }
       case BattleSceneState.INGAME:
       case BattleSceneState.FINISHED: {
-        this.battleLogic.update();
+        // アニメーションをロジックと同期させるため同じ回数だけ更新する
+        const stepCount = this.timeController.consumeStepCount(delta);
+        for (let i = 0; i < stepCount; i++) {
+          this.commitUnitPositions();
+          this.battleLogic.update();
+          this.updateRegisteredObjects(1);
+        }
+        this.interpolateUnitPositions(
+          this.timeController.getInterpolationRate()
+        );
+        break;
+      }
+      default: {
+        this.updateRegisteredObjects(delta);
         break;
       }
     }
 
-    this.updateRegisteredObjects(delta);
-
     if (this.transitionIn.isActive()) {
       this.transitionIn.update(delta);
     } else if (this.transitionOut.isActive()) {
@@ -192,6 +309,9 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
       BattleResult.resourceList,
       [
         Resource.Api.Stage(this.stageId),
+        Resource.Api.AllStageInfo(),
+        Resource.Api.AllBoss(),
+        Resource.Api.AllCostLevel(),
         Resource.Dynamic.Castle(this.playerCastle.castleId),
         Resource.Audio.Bgm.Battle,
         Resource.Audio.Se.Attack1,
@@ -220,14 +340,28 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     additionalAssets.push(Resource.Dynamic.Castle(stageMaster.aiCastleId));
 
     // ユーザの編成で指定されたユニット ID 配列に敵のユニット ID を追加する
-    const keys = Object.keys(stageMaster.waves);
-    for (let i = 0; i < keys.length; i++) {
-      const key = keys[i];
-      const wave = stageMaster.waves[key];
-      for (let j = 0; j < wave.length; j++) {
-        const unitId = wave[j].unitId;
-        if (this.unitIds.indexOf(unitId) === -1) {
-          this.unitIds.push(unitId);
+    const aiUnitIds = AIStrategyFactory.getUnitIds(stageMaster);
+    for (let i = 0; i < aiUnitIds.length; i++) {
+      const unitId = aiUnitIds[i];
+      if (this.unitIds.indexOf(unitId) === -1) {
+        this.unitIds.push(unitId);
+      }
+    }
+
+    // ボスがフェーズ移行時に生成するユニット ID も追加する
+    const bossMasters: BossMaster[] = resources[Resource.Api.AllBoss()].data;
+    for (let i = 0; i < bossMasters.length; i++) {
+      const boss = bossMasters[i];
+      if (aiUnitIds.indexOf(boss.unitId) === -1) {
+        continue;
+      }
+      for (let j = 0; j < boss.phases.length; j++) {
+        const summons = boss.phases[j].summons || [];
+        for (let k = 0; k < summons.length; k++) {
+          const unitId = summons[k].unitId;
+          if (this.unitIds.indexOf(unitId) === -1) {
+            this.unitIds.push(unitId);
+          }
         }
       }
     }
@@ -240,7 +374,10 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     for (let i = 0; i < this.unitIds.length; i++) {
       const unitId = this.unitIds[i];
       // 無効なユニット ID を渡した場合に空のユニットボタン扱いになる
-      additionalAssets.push(Resource.Dynamic.UnitPanel(unitId));
+      // パネルはユニットボタンに表示するプレイヤーのユニット分のみ必要
+      if (i < this.unitSlotCount) {
+        additionalAssets.push(Resource.Dynamic.UnitPanel(unitId));
+      }
 
       // 無効なユニット ID ではリソースは取得できない
       if (unitId > 0) {
@@ -262,6 +399,8 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     const stageMaster  = resources[Resource.Api.Stage(this.stageId)].data;
     const castleMaster = resources[Resource.Api.Castle([stageMaster.aiCastleId])].data;
     const unitMasters  = resources[Resource.Api.Unit(this.unitIds)].data;
+    const bossMasters  = resources[Resource.Api.AllBoss()].data;
+    const costLevels   = resources[Resource.Api.AllCostLevel()].data;
 
     const aiCastleMasters = castleMaster.filter((master: CastleMaster) => {
       return master.castleId === stageMaster.aiCastleId;
@@ -280,26 +419,51 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
 
     this.field.init({
       fieldLength: stageMaster.length,
-      zLines: stageMaster.zLines
+      zLines: stageMaster.zLines,
+      lanes: stageMaster.lanes || 1
     });
+    this.field.onLaneTapped = (lane: number) => this.onFieldLaneTapped(lane);
 
     this.initSound();
     this.initUnitButtons();
+    this.initCastleCannonButton();
+    this.initSkillButtons();
+    this.initCostLevelButton(costLevels);
+    this.initBossHealthBar();
+    this.initPauseMenu();
     this.addChild(this.field);
     this.addChild(this.uiGraphContainer);
+    this.addChild(this.pauseMenu);
 
     this.battleLogic.init({
       stageMaster,
       unitMasters,
+      bossMasters,
+      costLevels,
       delegator: this,
       player: {
         unitIds: this.unitIds,
-        castle: this.playerCastle
+        castle: this.playerCastle,
+        unitMasters: this.battleParameter.playerUnitMasters
       },
       ai: {
         castle: aiCastleMasters[0]
       },
-      config: this.battleLogicConfig
+      config: this.battleLogicConfig,
+      synergies: this.battleParameter.synergies,
+      skills: this.battleParameter.skills,
+      replaySpawnRequests: (this.replay)
+        ? this.replay.spawnRequests
+        : undefined,
+      replayCastleCannonRequests: (this.replay)
+        ? this.replay.cannonRequests
+        : undefined,
+      replaySkillRequests: (this.replay)
+        ? this.replay.skillRequests
+        : undefined,
+      replayCostLevelUpRequests: (this.replay)
+        ? this.replay.costLevelUpRequests
+        : undefined
     });
 
     if (this.transitionIn.isFinished()) {
@@ -317,6 +481,15 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     if (type === 'unit_button') {
       return new UnitButtonFactory();
     }
+    if (type === 'castle_cannon_button') {
+      return new CastleCannonButtonFactory();
+    }
+    if (type === 'skill_button') {
+      return new SkillButtonFactory();
+    }
+    if (type === 'cost_level_button') {
+      return new CostLevelButtonFactory();
+    }
     return null;
   }
 
@@ -327,21 +500,18 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
   /**
    * CastleEntity が生成されたときのコールバック
    */
-  public onCastleEntitySpawned(entity: CastleEntity, isPlayer: boolean): void {
-    const stageMaster = PIXI.loader.resources[Resource.Api.Stage(this.stageId)].data;
-
+  public onCastleEntitySpawned(entity: CastleEntity, _isPlayer: boolean): void {
     let castleY = 200;
     switch (entity.castleId) {
       case 1: castleY = 300; break;
       default: castleY = 200; break;
     }
     // 拠点の描画物を生成する
-    const castle = new Castle(entity.castleId, {
-      x: (isPlayer)
-        ? BattleScene.castleXOffset
-        : stageMaster.length - BattleScene.castleXOffset,
+    const spawnPosition = {
+      x: this.battleLogic.getFieldPosition(entity),
       y: castleY
-    });
+    };
+    const castle = new Castle(entity.castleId, spawnPosition, this.random);
     if (!entity.isPlayer) {
       castle.sprite.scale.x = -1.0;
     }
@@ -375,13 +545,10 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
 
     castle.spawn(entity.isPlayer);
 
-    const stageMaster = PIXI.loader.resources[Resource.Api.Stage(this.stageId)].data;
-    const zLineIndex = this.field.getDifferentZlineIndex();
+    const zLineIndex = this.field.getDifferentZlineIndex(entity.lane);
 
     const unit = new Unit(animationMaster, {
-      x: (entity.isPlayer)
-        ? BattleScene.castleXOffset
-        : stageMaster.length - BattleScene.castleXOffset,
+      x: this.battleLogic.getFieldPosition(entity),
       y: this.field.getZlineBaseY(zLineIndex)
     });
     unit.sprite.name = `unit ${entity.id}`;
@@ -393,6 +560,40 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     this.registerUpdatingObject(unit as UpdateObject);
   }
 
+  /**
+   * ボスの UnitEntity が生成されたときのコールバック
+   * ボスの体力ゲージを表示する
+   */
+  public onBossEntitySpawned(entity: UnitEntity, boss: BossMaster): void {
+    const phaseHealthRates = boss.phases.map(phase => phase.healthRate);
+    this.bossEntityId = entity.id;
+    this.bossHealthBar.init(boss.name, phaseHealthRates);
+    this.bossHealthBar.updateGauge(entity.currentHealth / entity.maxHealth);
+
+    this.playSe(Resource.Audio.Se.Bomb);
+  }
+
+  /**
+   * ボスのフェーズが移行したときのコールバック
+   * フェーズに指定されたアニメーションに差し替える
+   */
+  public onBossPhaseChanged(
+    entity: UnitEntity,
+    phase: BossPhaseMaster,
+    _phaseIndex: number
+  ): void {
+    this.playSe(Resource.Audio.Se.Bomb);
+
+    const unit = this.attackables.get(entity.id) as Unit;
+    const baseMaster = this.unitAnimationMasterCache.get(entity.unitId);
+    if (!unit || unit.isDestroyed() || !baseMaster || !phase.animationTypes) {
+      return;
+    }
+
+    const types = Object.assign({}, baseMaster.types, phase.animationTypes);
+    unit.setAnimationMaster(Object.assign({}, baseMaster, { types }));
+  }
+
   /**
    * エンティティのステートが変更された際のコールバック
    */
@@ -433,6 +634,11 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
           this.registerUpdatingObject(effect);
 
           attackable.destroy();
+
+          if (entity.id === this.bossEntityId) {
+            this.bossEntityId = -1;
+            this.bossHealthBar.visible = false;
+          }
           break;
         }
         default: break;
@@ -447,6 +653,86 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     }
   }
 
+  /**
+   * エンティティに状態効果がかかったときのコールバック
+   */
+  public onStatusEffectApplied(
+    entity: AttackableEntity,
+    _effect: StatusEffectEntity
+  ): void {
+    this.updateStatusEffectTint(entity);
+  }
+
+  /**
+   * エンティティの状態効果が切れたときのコールバック
+   * 呼び出し時点では切れた効果はまだエンティティに残っている
+   */
+  public onStatusEffectExpired(
+    entity: AttackableEntity,
+    effect: StatusEffectEntity
+  ): void {
+    this.updateStatusEffectTint(entity, effect);
+  }
+
+  /**
+   * ProjectileEntity が生成されたときのコールバック
+   * 発射したエンティティから標的に向けて飛翔体を表示する
+   */
+  public onProjectileEntitySpawned(entity: ProjectileEntity): void {
+    const attacker = this.attackables.get(entity.attacker.id);
+    const target = this.attackables.get(entity.target.id);
+    if (!attacker || attacker.isDestroyed()) {
+      return;
+    }
+    if (!target || target.isDestroyed()) {
+      return;
+    }
+
+    const projectile = new Projectile(
+      this.getAttackableCenter(attacker),
+      this.getAttackableCenter(target),
+      entity.master.arcHeight,
+      entity.master.color
+    );
+
+    this.projectiles.set(entity.id, projectile);
+    attacker.sprite.parent.addChild(projectile);
+  }
+
+  /**
+   * ProjectileEntity が移動したときのコールバック
+   */
+  public onProjectileEntityMoved(
+    entity: ProjectileEntity,
+    flightRate: number
+  ): void {
+    const projectile = this.projectiles.get(entity.id);
+    if (!projectile) {
+      return;
+    }
+
+    // 標的が残っていれば着弾地点を追従させる
+    const target = this.attackables.get(entity.target.id);
+    if (target && !target.isDestroyed()) {
+      projectile.updateDestination(this.getAttackableCenter(target));
+    }
+
+    projectile.updateFlight(flightRate);
+  }
+
+  /**
+   * ProjectileEntity が着弾、または消滅したときのコールバック
+   */
+  public onProjectileEntityRemoved(entity: ProjectileEntity): void {
+    const projectile = this.projectiles.get(entity.id);
+    if (!projectile) {
+      return;
+    }
+
+    this.projectiles.delete(entity.id);
+    projectile.destroy({ children: true });
+  }
+
   /**
    * 利用可能なコストの値が変動したときのコールバック
    */
@@ -465,17 +751,144 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
         continue;
       }
 
-      const enableFilter = (availablePlayerUnitIds.indexOf(unitButton.unitId) === -1);
+      // リプレイ中はボタンを無効表示にする
+      const enableFilter = !!this.replay ||
+        (availablePlayerUnitIds.indexOf(unitButton.unitId) === -1);
       unitButton.toggleFilter(enableFilter);
     }
+
+    for (let index = 0; index < Config.MaxSkillSlotCount; index++) {
+      const skillButton = this.getUiGraphSkillButton(index);
+      if (skillButton) {
+        skillButton.updateAvailableCost(cost);
+      }
+    }
+
+    const costLevelButton = this.uiGraph.cost_level_button as CostLevelButton;
+    if (costLevelButton) {
+      costLevelButton.updateAvailableCost(cost);
+    }
+  }
+
+  /**
+   * プレイヤーユニットの生成クールダウンが変動したときのコールバック
+   */
+  public onSpawnCooldownUpdated(
+    unitId: number,
+    remainingFrameCount: number,
+    cooldownFrames: number
+  ): void {
+    const rate = (cooldownFrames > 0)
+      ? remainingFrameCount / cooldownFrames
+      : 0;
+
+    for (let index = 0; index < this.unitSlotCount; index++) {
+      const unitButton = this.getUiGraphUnitButton(index);
+      if (!unitButton || unitButton.unitId !== unitId) {
+        continue;
+      }
+      unitButton.updateCooldown(rate);
+    }
+  }
+
+  /**
+   * 大砲のゲージが変動したときのコールバック
+   */
+  public onCastleCannonChargeUpdated(charge: number, maxCharge: number): void {
+    const button = this.uiGraph.castle_cannon_button as CastleCannonButton;
+    if (!button) {
+      return;
+    }
+    button.updateGauge((maxCharge > 0) ? charge / maxCharge : 0);
+  }
+
+  /**
+   * 大砲が発射されたときのコールバック
+   * 攻撃対象毎の演出は onAttackableEntityHealthUpdated で行われる
+   */
+  public onCastleCannonFired(
+    _castle: CastleEntity,
+    _targets: AttackableEntity[]
+  ): void {
+    this.playSe(Resource.Audio.Se.Bomb);
+  }
+
+  /**
+   * スキルのゲージが変動したときのコールバック
+   */
+  public onSkillChargeUpdated(
+    skillId: number,
+    charge: number,
+    maxCharge: number
+  ): void {
+    for (let index = 0; index < Config.MaxSkillSlotCount; index++) {
+      const skillButton = this.getUiGraphSkillButton(index);
+      if (!skillButton || skillButton.skillId !== skillId) {
+        continue;
+      }
+      skillButton.updateGauge((maxCharge > 0) ? charge / maxCharge : 1);
+    }
+  }
+
+  /**
+   * スキルが発動したときのコールバック
+   * 範囲攻撃であれば中心の周囲に爆発を表示する
+   * 攻撃対象毎の演出は onAttackableEntityHealthUpdated で行われる
+   */
+  public onSkillActivated(
+    skill: SkillMaster,
+    _targets: AttackableEntity[],
+    fieldPosition?: number
+  ): void {
+    if (fieldPosition === undefined) {
+      this.playSe(Resource.Audio.Se.UnitSpawn);
+      return;
+    }
+
+    // 爆発の効果音は CollapseExplodeEffect が再生する
+    const radius = skill.radius || 0;
+    const zLineIndex = Math.floor(this.field.zLineCount * 0.5);
+    const y = this.field.getZlineBaseY(zLineIndex);
+    for (let i = 0; i < BattleScene.meteorExplodeCount; i++) {
+      const effect = new CollapseExplodeEffect();
+      const xRand = (this.random.next() * 2 - 1) * radius;
+      const yRand = (this.random.next() * 2 - 1) * this.field.laneGap;
+      effect.position.set(fieldPosition + xRand, y + yRand);
+      this.field.addChildAsForeBackgroundEffect(effect);
+      this.registerUpdatingObject(effect);
+    }
+  }
+
+  /**
+   * コストレベルが上昇したときのコールバック
+   */
+  public onCostLevelUpdated(
+    costLevel: CostLevelMaster,
+    nextCostLevel: CostLevelMaster | null
+  ): void {
+    const button = this.uiGraph.cost_level_button as CostLevelButton;
+    if (button) {
+      const nextPrice = nextCostLevel ? nextCostLevel.price : null;
+      button.updateLevel(costLevel.level, nextPrice);
+    }
+
+    this.playSe(Resource.Audio.Se.UnitSpawn);
   }
 
   /**
    * 勝敗が決定したときのコールバック
    */
-  public onGameOver(isPlayerWon: boolean): void {
+  public onGameOver(outcome: BattleOutcome): void {
+    const isPlayerWon = outcome.isPlayerWon;
+
     this.state = BattleSceneState.FINISHED;
 
+    // 結果表示は等速で行い、時間操作を受け付けない
+    this.timeController.resetSpeed();
+    this.updateSpeedButton();
+    (this.uiGraph.pause_button as PIXI.Container).visible = false;
+    (this.uiGraph.speed_button as PIXI.Container).visible = false;
+
     // 攻撃をやめる
     this.attackables.forEach((attackable) => {
       const unit = attackable as Unit;
@@ -486,7 +899,7 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     });
 
     // ゲームオーバー表示をする
-    const result = new BattleResult(isPlayerWon);
+    const result = new BattleResult(outcome);
     result.onAnimationEnded = this.enableBackToOrderScene.bind(this);
     this.uiGraphContainer.addChild(result);
 
@@ -496,53 +909,39 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     this.stopBgm(Resource.Audio.Bgm.Battle);
     // ゲームオーバーサウンドを再生
     this.playSe(isPlayerWon ? Resource.Audio.Se.Win : Resource.Audio.Se.Lose);
-  }
 
-  /**
-   * 渡されたエンティティ同士が接敵可能か返す
-   */
-  public shouldEngageAttackableEntity(
-    attacker: AttackableEntity,
-    target: AttackableEntity
-  ): boolean {
-    const attackerAttackable = this.attackables.get(attacker.id);
-    if (!attackerAttackable) {
-      return false;
+    // リプレイ再生でなければリプレイと進行状況を保存する
+    if (!this.replay) {
+      const resources = PIXI.loader.resources;
+      const stageMaster: StageMaster
+        = resources[Resource.Api.Stage(this.stageId)].data;
+      BattleReplayStorage.save(this.createReplay());
+      ProgressionService.recordBattle(
+        this.stageId,
+        outcome,
+        resources[Resource.Api.AllStageInfo()].data,
+        stageMaster.reward
+      );
     }
-    const targetAttackable = this.attackables.get(target.id);
-    if (!targetAttackable) {
-      return false;
-    }
-
-    return attackerAttackable.isFoeContact(targetAttackable.sprite);
   }
 
   /**
-   * 渡されたエンティティ同士が攻撃可能か返す
+   * 射程内のエンティティに攻撃してよいか返す
+   * 射程の判定は BattleLogic が行うため当たり判定フレームのみを見る
    */
   public shouldDamage(
     attackerEntity: AttackableEntity,
-    targetEntity: AttackableEntity
+    _targetEntity: AttackableEntity
   ): boolean {
     const attackerAttackable = this.attackables.get(attackerEntity.id);
     if (!attackerAttackable) {
       return false;
     }
-    const targetAttackable = this.attackables.get(targetEntity.id);
-    if (!targetAttackable) {
-      return false;
-    }
     if (!(attackerEntity as UnitEntity).unitId) {
       return false;
     }
 
-    const unit = attackerAttackable as Unit;
-
-    if (!unit.isHitFrame()) {
-      return false;
-    }
-
-    return unit.isFoeContact(targetAttackable.sprite);
+    return (attackerAttackable as Unit).isHitFrame();
   }
 
   /**
@@ -553,10 +952,11 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     if (!attackable) {
       return;
     }
-    const direction = entity.isPlayer ? 1 : -1;
-
-    const physicalDistance = entity.distance * direction;
-    attackable.sprite.position.x = attackable.distanceBasePosition.x + physicalDistance;
+    this.moveAttackable(
+      attackable,
+      this.battleLogic.getFieldPosition(entity),
+      attackable.distanceBasePosition.y
+    );
   }
 
   /**
@@ -570,15 +970,15 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     if (!attackable) {
       return;
     }
-    const direction = entity.isPlayer ? 1 : -1;
-
-    const physicalDistance = entity.distance * direction;
     const spawnedPosition = attackable.distanceBasePosition;
 
     const leap = (knockBackRate >= 1) ? 0 : -Math.sin(knockBackRate * Math.PI);
 
-    attackable.sprite.position.x = spawnedPosition.x + physicalDistance;
-    attackable.sprite.position.y = spawnedPosition.y + (leap * BattleScene.unitLeapHeight);
+    this.moveAttackable(
+      attackable,
+      this.battleLogic.getFieldPosition(entity),
+      spawnedPosition.y + (leap * BattleScene.unitLeapHeight)
+    );
   }
 
   /**
@@ -600,13 +1000,13 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
 
     // 攻撃時砂煙演出の表示
     const smoke = new AttackSmoke();
-    const xRand = Math.random() * targetSprite.width;
-    const yRand = Math.random() * targetSprite.height;
+    const xRand = this.random.next() * targetSprite.width;
+    const yRand = this.random.next() * targetSprite.height;
     const xAdjust = targetSprite.width * (0.5 + targetSprite.anchor.x);
     const yAdjust = targetSprite.height * (0.5 + targetSprite.anchor.y);
     const targetCenterX = targetSprite.position.x + xRand - xAdjust;
     const targetCenterY = targetSprite.position.y + yRand - yAdjust;
-    const scale = 0.5 + Math.random() * 0.5;
+    const scale = 0.5 + this.random.next() * 0.5;
 
     smoke.position.set(targetCenterX, targetCenterY);
     smoke.scale.set(scale, scale);
@@ -614,6 +1014,10 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     targetSprite.parent.addChild(smoke);
     this.registerUpdatingObject(smoke);
 
+    if (target.id === this.bossEntityId) {
+      this.bossHealthBar.updateGauge(toHealth / maxHealth);
+    }
+
     // 体力ゲージの表示
     if ((target as UnitEntity).unitId) {
       const attackable = this.attackables.get(target.id) as Unit;
@@ -628,13 +1032,63 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     }
 
     // ランダムに攻撃効果音を再生する
-    this.playSe((Math.random() >= 0.5)
+    this.playSe((this.random.next() >= 0.5)
       ? Resource.Audio.Se.Attack1
       : Resource.Audio.Se.Attack2
     );
   }
   /**
-   * 渡されたユニットが移動すべきかどうかを返す
+   * 渡されたエンティティの health が回復した場合に呼ばれる
+   */
+  public onAttackableEntityHealed(
+    _healer: AttackableEntity,
+    target: AttackableEntity,
+    fromHealth: number,
+    toHealth: number,
+    maxHealth: number
+  ): void {
+    const targetAttackable = this.attackables.get(target.id);
+    if (!targetAttackable || targetAttackable.isDestroyed()) {
+      return;
+    }
+    if (!(target as UnitEntity).unitId) {
+      return;
+    }
+
+    if (target.id === this.bossEntityId) {
+      this.bossHealthBar.updateGauge(toHealth / maxHealth);
+    }
+
+    // 体力ゲージを回復量分だけ増加させて表示する
+    const unit = targetAttackable as Unit;
+    const fromPercent = fromHealth / maxHealth;
+    const toPercent = toHealth / maxHealth;
+    const gauge = unit.spawnHealthGauge(fromPercent, toPercent);
+    unit.sprite.parent.addChild(gauge);
+    this.registerUpdatingObject(gauge);
+  }
+
+  /**
+   * 回復範囲内のエンティティを回復してよいか返す
+   * 回復範囲の判定は BattleLogic が行うため当たり判定フレームのみを見る
+   */
+  public shouldHeal(
+    healerEntity: AttackableEntity,
+    _targetEntity: AttackableEntity
+  ): boolean {
+    const healerAttackable = this.attackables.get(healerEntity.id);
+    if (!healerAttackable) {
+      return false;
+    }
+    if (!(healerEntity as UnitEntity).unitId) {
+      return false;
+    }
+
+    return (healerAttackable as Unit).isHitFrame();
+  }
+
+  /**
+   * 渡されたユニットが移動してよいか返す
    */
   public shouldAttackableWalk(entity: AttackableEntity): boolean {
     const attackable = this.attackables.get(entity.id);
@@ -663,11 +1117,149 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     if (this.state !== BattleSceneState.INGAME) {
       return;
     }
+    // リプレイ中は操作を受け付けない
+    if (this.replay) {
+      return;
+    }
 
     const unitButton = this.getUiGraphUnitButton(buttonIndex);
-    if (unitButton) {
+    if (!unitButton) {
+      return;
+    }
+
+    // レーンが一つであれば即座に生成する
+    if (this.battleLogic.getLaneCount() <= 1) {
       this.battleLogic.requestSpawnPlayer(unitButton.unitId);
+      return;
+    }
+
+    // 複数レーンの場合はレーンのタップを待つ
+    // 選択中のボタンを再度タップした場合は選択を解除する
+    const isSelected = this.selectedUnitButtonIndex === buttonIndex;
+    this.selectUnitButton(isSelected ? -1 : buttonIndex);
+  }
+
+  /**
+   * Field のレーンがタップされた時のコールバック
+   * 選択中の UnitButton のユニットを指定されたレーンに生成する
+   */
+  public onFieldLaneTapped(lane: number): void {
+    if (this.state !== BattleSceneState.INGAME || this.replay) {
+      return;
+    }
+
+    const unitButton = this.getUiGraphUnitButton(this.selectedUnitButtonIndex);
+    if (!unitButton) {
+      return;
+    }
+
+    this.battleLogic.requestSpawnPlayer(unitButton.unitId, lane);
+    this.selectUnitButton(-1);
+  }
+
+  /**
+   * CastleCannonButton 用のコールバック
+   * 大砲の発射を BattleLogic にリクエストする
+   */
+  public onCastleCannonButtonTapped(): void {
+    if (this.state !== BattleSceneState.INGAME) {
+      return;
     }
+    // リプレイ中は操作を受け付けない
+    if (this.replay) {
+      return;
+    }
+
+    this.battleLogic.requestCastleCannon();
+  }
+
+  /**
+   * CostLevelButton 用のコールバック
+   * コストレベルの上昇を BattleLogic にリクエストする
+   */
+  public onCostLevelButtonTapped(): void {
+    if (this.state !== BattleSceneState.INGAME) {
+      return;
+    }
+    // リプレイ中は操作を受け付けない
+    if (this.replay) {
+      return;
+    }
+
+    this.battleLogic.requestCostLevelUp();
+  }
+
+  /**
+   * SkillButton 用のコールバック
+   * スキルの発動を BattleLogic にリクエストする
+   */
+  public onSkillButtonTapped(buttonIndex: number): void {
+    if (this.state !== BattleSceneState.INGAME) {
+      return;
+    }
+    // リプレイ中は操作を受け付けない
+    if (this.replay) {
+      return;
+    }
+
+    const skillButton = this.getUiGraphSkillButton(buttonIndex);
+    if (!skillButton || skillButton.skillId <= 0) {
+      return;
+    }
+
+    this.battleLogic.requestSkill(skillButton.skillId);
+  }
+
+  /**
+   * 一時停止ボタン用のコールバック
+   * バトルを一時停止してメニューを表示する
+   */
+  public onPauseButtonTapped(): void {
+    if (this.state !== BattleSceneState.INGAME) {
+      return;
+    }
+    if (this.timeController.isPaused()) {
+      return;
+    }
+
+    this.timeController.pause();
+    this.pauseMenu.visible = true;
+    SoundManager.pause();
+  }
+
+  /**
+   * 倍速ボタン用のコールバック
+   * 再生速度を切り替える
+   */
+  public onSpeedButtonTapped(): void {
+    if (this.state !== BattleSceneState.INGAME) {
+      return;
+    }
+
+    this.timeController.toggleSpeed();
+    this.updateSpeedButton();
+  }
+
+  /**
+   * これまでのバトル内容からリプレイ情報を作成する
+   */
+  public createReplay(): BattleReplay {
+    const params = this.battleParameter;
+    return {
+      unitSlotCount: params.unitSlotCount,
+      stageId: params.stageId,
+      unitIds: params.unitIds.slice(),
+      playerCastle: params.playerCastle,
+      cost: params.cost,
+      seed: params.seed,
+      playerUnitMasters: params.playerUnitMasters,
+      synergies: params.synergies,
+      spawnRequests: this.battleLogic.getSpawnRequestLog(),
+      skills: params.skills,
+      cannonRequests: this.battleLogic.getCastleCannonRequestLog(),
+      skillRequests: this.battleLogic.getSkillRequestLog(),
+      costLevelUpRequests: this.battleLogic.getCostLevelUpRequestLog()
+    };
   }
 
   /**
@@ -724,6 +1316,169 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     }
   }
 
+  /**
+   * 一時停止メニューの初期化
+   */
+  private initPauseMenu(): void {
+    this.pauseMenu = new PauseMenu();
+    this.pauseMenu.onResumeSelected = () => this.resumeBattle();
+    this.pauseMenu.onRetireSelected = () => {
+      this.resumeBattle();
+      this.backToOrderScene();
+    };
+  }
+
+  /**
+   * 一時停止を解除してメニューを閉じる
+   */
+  private resumeBattle(): void {
+    this.timeController.resume();
+    this.pauseMenu.visible = false;
+    SoundManager.resume();
+  }
+
+  /**
+   * 倍速ボタンの表示を現在の再生速度に合わせる
+   */
+  private updateSpeedButton(): void {
+    const button = this.uiGraph.speed_button as PIXI.Text;
+    if (button) {
+      button.text = `x${this.timeController.speed}`;
+    }
+  }
+
+  /**
+   * デバッグ用のキー入力を処理する
+   */
+  private onDebugKeyDown = (event: KeyboardEvent): void => {
+    if (event.key === 'n') {
+      this.timeController.requestFrameStep();
+    }
+  }
+
+  /**
+   * 大砲ボタンの初期化
+   * プレイヤーの拠点が大砲を持たない場合は表示しない
+   */
+  private initCastleCannonButton(): void {
+    const button = this.uiGraph.castle_cannon_button as CastleCannonButton;
+    if (!button) {
+      return;
+    }
+
+    button.visible = !!this.playerCastle.cannon;
+    button.updateGauge(0);
+  }
+
+  /**
+   * スキルボタンの初期化
+   * スキルが割り当てられていない枠のボタンは表示しない
+   */
+  private initSkillButtons(): void {
+    const skills = this.battleParameter.skills || [];
+    for (let index = 0; index < Config.MaxSkillSlotCount; index++) {
+      const skillButton = this.getUiGraphSkillButton(index);
+      if (skillButton) {
+        skillButton.init(index, skills[index]);
+      }
+    }
+  }
+
+  /**
+   * コストレベルボタンの初期化
+   * 上昇させられるレベルがない場合は表示しない
+   */
+  private initCostLevelButton(costLevels: CostLevelMaster[]): void {
+    const button = this.uiGraph.cost_level_button as CostLevelButton;
+    if (!button) {
+      return;
+    }
+
+    const sortedLevels = costLevels.slice().sort((a, b) => a.level - b.level);
+    button.visible = sortedLevels.length > 1;
+    if (button.visible) {
+      button.updateLevel(sortedLevels[0].level, sortedLevels[1].price);
+    }
+  }
+
+  /**
+   * ボスの体力ゲージの初期化
+   * ボスが生成されるまでは表示しない
+   */
+  private initBossHealthBar(): void {
+    const bar = this.bossHealthBar;
+    const width = GameManager.instance.game.view.width;
+    bar.position.set((width - bar.gaugeWidth) * 0.5, 104);
+    bar.visible = false;
+    this.uiGraphContainer.addChild(bar);
+  }
+
+  /**
+   * Attackable を渡された座標に移動させる
+   * Unit は論理フレーム間で補間するため論理上の座標のみを更新する
+   */
+  private moveAttackable(attackable: Attackable, x: number, y: number): void {
+    if (attackable instanceof Unit) {
+      attackable.setLogicalPosition(x, y);
+    } else {
+      attackable.sprite.position.set(x, y);
+    }
+  }
+
+  /**
+   * 論理フレームを進める前に Unit の座標を保持する
+   */
+  private commitUnitPositions(): void {
+    this.attackables.forEach((attackable) => {
+      if (attackable instanceof Unit) {
+        attackable.commitLogicalPosition();
+      }
+    });
+  }
+
+  /**
+   * 論理フレーム間の経過率に応じて Unit の表示上の座標を補間する
+   */
+  private interpolateUnitPositions(rate: number): void {
+    this.attackables.forEach((attackable) => {
+      if (attackable instanceof Unit) {
+        attackable.interpolatePosition(rate);
+      }
+    });
+  }
+
+  /**
+   * Attackable の見た目上の中心座標を返す
+   */
+  private getAttackableCenter(
+    attackable: Attackable
+  ): { x: number, y: number } {
+    const sprite = attackable.sprite;
+    return {
+      x: sprite.position.x,
+      y: sprite.position.y - sprite.height * (sprite.anchor.y - 0.5)
+    };
+  }
+
+  /**
+   * UnitButton を選択状態にし、レーンのガイドを表示する
+   * -1 を渡した場合は選択を解除する
+   */
+  private selectUnitButton(index: number): void {
+    const current = this.getUiGraphUnitButton(this.selectedUnitButtonIndex);
+    if (current) {
+      current.toggleSelected(false);
+    }
+
+    this.selectedUnitButtonIndex = index;
+
+    const next = this.getUiGraphUnitButton(index);
+    if (next) {
+      next.toggleSelected(true);
+    }
+    this.field.setLaneGuideVisible(!!next);
+  }
+
   /**
    * ボタンインデックスから UnitButton インスタンスを返す
    */
@@ -732,6 +1487,14 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
     return this.uiGraph[uiGraphUnitButtonName] as UnitButton;
   }
 
+  /**
+   * UI Graph から SkillButton インスタンスを取得する
+   */
+  private getUiGraphSkillButton(index: number): SkillButton | undefined {
+    const name = `${BattleScene.skillButtonPrefix}${index + 1}`;
+    return this.uiGraph[name] as SkillButton;
+  }
+
   /**
    * 編成画面へ戻る操作を有効にする
    */
@@ -760,4 +1523,36 @@ export default class BattleScene extends Scene implements BattleLogicDelegate {
 
     GameManager.loadScene(new OrderScene());
   }
+
+  /**
+   * 最後にかかった状態効果に応じてユニットの色を変える
+   * 除外する効果が渡された場合はそれを無視する
+   */
+  private updateStatusEffectTint(
+    entity: AttackableEntity,
+    excluded?: StatusEffectEntity
+  ): void {
+    const attackable = this.attackables.get(entity.id);
+    if (!attackable || attackable.isDestroyed()) {
+      return;
+    }
+    // 拠点は状態効果で色を変えない
+    if (!(entity as UnitEntity).unitId) {
+      return;
+    }
+
+    let tint = 0xffffff;
+    for (let i = 0; i < entity.statusEffects.length; i++) {
+      const effect = entity.statusEffects[i];
+      if (effect === excluded) {
+        continue;
+      }
+      const effectTint = BattleScene.statusEffectTints[effect.type];
+      if (effectTint !== undefined) {
+        tint = effectTint;
+      }
+    }
+
+    attackable.sprite.tint = tint;
+  }
 }
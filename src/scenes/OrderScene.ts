@@ -5,31 +5,75 @@ import GameManager from 'managers/GameManager';
 import IndexedDBManager from 'managers/IndexedDBManager';
 import SoundManager from 'managers/SoundManager';
 import UserBattle from 'interfaces/api/UserBattle';
+import PlayerProfile from 'interfaces/PlayerProfile';
+import DeckPreset, { DeckPresetRecord } from 'interfaces/DeckPreset';
+import StageMaster from 'interfaces/master/StageMaster';
 import UnitMaster from 'interfaces/master/UnitMaster';
+import UnitGrowthMaster from 'interfaces/master/UnitGrowthMaster';
+import UnitAnimationMaster from 'interfaces/master/UnitAnimationMaster';
+import SynergyMaster from 'interfaces/master/SynergyMaster';
+import SkillMaster from 'interfaces/master/SkillMaster';
 import LoaderAddParam from 'interfaces/PixiTypePolyfill/LoaderAddParam';
 import BattleParameter from 'interfaces/BattleParameter';
 import UiNodeFactory from 'modules/UiNodeFactory/UiNodeFactory';
 import UnitButtonFactory from 'modules/UiNodeFactory/battle/UnitButtonFactory';
+import UnitRosterFactory from 'modules/UiNodeFactory/order/UnitRosterFactory';
+import Random from 'modules/Random';
+import ProgressionService from 'modules/ProgressionService';
+import UnitGrowth from 'modules/UnitGrowth';
+import DeckPresetStorage from 'modules/DeckPresetStorage';
+import DeckValidator, { DeckValidationResult } from 'modules/DeckValidator';
+import DeckSynergy from 'modules/DeckSynergy';
+import DeckValidationError from 'enum/DeckValidationError';
 import Scene from 'scenes/Scene';
 import BattleScene from 'scenes/BattleScene';
+import StageSelectScene from 'scenes/StageSelectScene';
+import UnitUpgradeScene from 'scenes/UnitUpgradeScene';
 import Fade from 'scenes/transition/Fade';
 import UnitButton from 'display/battle/UnitButton';
+import UnitDetailModal from 'display/order/UnitDetailModal';
+import DeckNameModal from 'display/order/DeckNameModal';
+import UnitRoster from 'display/order/UnitRoster';
 
 // デバッグ用ユーザID
 const DUMMY_USER_ID = 1;
+// 編成名の最大文字数
+const MAX_DECK_NAME_LENGTH = 12;
 
 /**
  * 編成シーン
  */
 export default class OrderScene extends Scene  {
   /**
-   * ユーザのバトル情報
+   * プレイヤーの進行状況
    */
-  private userBattle: UserBattle | null = null;
+  private profile: PlayerProfile | null = null;
   /**
    * ユニットマスターのキャッシュ
    */
   private unitMasterCache: Map<number, UnitMaster> = new Map();
+  /**
+   * ユニット成長曲線マスターのキャッシュ
+   */
+  private unitGrowthMasterCache: Map<number, UnitGrowthMaster> = new Map();
+  /**
+   * ユニットアニメーションマスターのキャッシュ
+   */
+  private unitAnimationMasterCache: Map<number, UnitAnimationMaster>
+    = new Map();
+  /**
+   * シナジーマスターのキャッシュ
+   */
+  private synergyMasterCache: SynergyMaster[] = [];
+  /**
+   * スキルマスターのキャッシュ
+   */
+  private skillMasterCache: Map<number, SkillMaster> = new Map();
+  /**
+   * スキル枠順のスキル ID 配列
+   * 空き枠は -1
+   */
+  private skillIds: number[] = [];
   /**
    * ユニットIDと紐つけたユニットパネル用のテクスチャマップ
    */
@@ -40,19 +84,48 @@ export default class OrderScene extends Scene  {
   private unitButtons: Map<number, UnitButton> = new Map();
   /**
    * 選択中のステージID
+   * 0 の場合は前回選択したステージを復元する
    */
-  private currentStageId: number = 1;
+  private currentStageId: number = 0;
   /**
    * 前回編成したユニットID配列
    */
   private lastUnitIds: number[] = [];
+  /**
+   * 表示中のユニット詳細モーダル
+   */
+  private unitDetailModal: UnitDetailModal | null = null;
+  /**
+   * 表示中の編成名入力モーダル
+   */
+  private deckNameModal: DeckNameModal | null = null;
+  /**
+   * 選択中のステージのマスター
+   */
+  private stageMaster: StageMaster | null = null;
+  /**
+   * 保存されている編成一覧
+   */
+  private deckPresetRecord: DeckPresetRecord | null = null;
+  /**
+   * ドラッグ中のユニット
+   * 一覧からドラッグしている場合の sourceSlotIndex は -1
+   */
+  private draggingUnit: {
+    unitId: number,
+    sourceSlotIndex: number,
+    ghost: PIXI.Sprite
+  } | null = null;
 
   /**
    * コンストラクタ
+   * ステージ ID が渡されなかった場合は前回選択したステージを用いる
    */
-  constructor() {
+  constructor(stageId: number = 0) {
     super();
 
+    this.currentStageId = stageId;
+
     this.transitionIn  = new Fade(1.0, 0.0, -0.02);
     this.transitionOut = new Fade(0.0, 1.0, 0.02);
   }
@@ -64,6 +137,10 @@ export default class OrderScene extends Scene  {
     const assets = super.createInitialResourceList();
     assets.push(Resource.Api.UserBattle(DUMMY_USER_ID));
     assets.push(Resource.Api.AllUnit());
+    assets.push(Resource.Api.AllUnitGrowth());
+    assets.push(Resource.Api.AllSynergy());
+    assets.push(Resource.Api.AllSkill());
+    assets.push(Resource.Api.Stage(this.currentStageId));
     assets.push(Resource.Audio.Bgm.Title);
     assets.push(Resource.Audio.Se.UnitSpawn);
 
@@ -78,6 +155,10 @@ export default class OrderScene extends Scene  {
     // Indexed DB にレコードが存在すれば最後の編成情報を復元する
     return Promise.all([
       new Promise((resolve) => {
+        if (this.currentStageId > 0) {
+          resolve();
+          return;
+        }
         this.loadStageIdFromDB((stageId) => {
           this.currentStageId = stageId || 1;
           resolve();
@@ -88,8 +169,32 @@ export default class OrderScene extends Scene  {
           this.lastUnitIds = unitIds || [];
           resolve();
         });
+      }),
+      new Promise((resolve) => {
+        this.loadSkillIdsFromDB((skillIds) => {
+          this.skillIds = skillIds || [];
+          resolve();
+        });
+      }),
+      new Promise((resolve) => {
+        ProgressionService.load((profile) => {
+          this.profile = profile;
+          resolve();
+        });
+      }),
+      new Promise((resolve) => {
+        DeckPresetStorage.load((record) => {
+          this.deckPresetRecord = record;
+          resolve();
+        });
       })
     ]).then(() => {
+      this.lastUnitIds = this.filterUnlockedUnitIds(this.lastUnitIds);
+      this.deckPresetRecord = DeckPresetStorage.restoreOrCreate(
+        this.deckPresetRecord,
+        this.lastUnitIds
+      );
+
       return super.beginLoadResource(onLoaded);
     });
   }
@@ -104,27 +209,58 @@ export default class OrderScene extends Scene  {
 
     this.unitButtonTexturesCache.clear();
     this.unitMasterCache.clear();
+    this.unitGrowthMasterCache.clear();
 
     const userBattleUrl = Resource.Api.UserBattle(DUMMY_USER_ID);
-    this.userBattle = resources[userBattleUrl].data;
+    const userBattle: UserBattle = resources[userBattleUrl].data;
 
-    if (!this.userBattle) {
+    if (!userBattle) {
       throw new Error('user_battle record could not be retrieved');
     }
 
+    // 進行状況が保存されていなければ user_battle の内容で作成する
+    this.profile = ProgressionService.restoreOrCreate(this.profile, userBattle);
+
+    this.stageMaster = resources[Resource.Api.Stage(this.currentStageId)].data;
+
     const allUnitMaster = resources[Resource.Api.AllUnit()].data;
     for (let i = 0; i < allUnitMaster.length; i++) {
       const unitMaster = allUnitMaster[i];
       this.unitMasterCache.set(unitMaster.unitId, unitMaster);
     }
 
+    const allUnitGrowthMaster = resources[Resource.Api.AllUnitGrowth()].data;
+    for (let i = 0; i < allUnitGrowthMaster.length; i++) {
+      const growthMaster = allUnitGrowthMaster[i];
+      this.unitGrowthMasterCache.set(growthMaster.unitId, growthMaster);
+    }
+
+    this.synergyMasterCache = resources[Resource.Api.AllSynergy()].data;
+
+    this.skillMasterCache.clear();
+    const allSkillMaster = resources[Resource.Api.AllSkill()].data;
+    for (let i = 0; i < allSkillMaster.length; i++) {
+      const skillMaster = allSkillMaster[i];
+      this.skillMasterCache.set(skillMaster.skillId, skillMaster);
+    }
+
     const seKey = Resource.Audio.Se.UnitSpawn;
     SoundManager.createSound(seKey, (resources[seKey] as any).buffer);
 
-    for (let i = 0; i < this.userBattle.unlockedUnitIds.length; i++) {
-      const unitId = this.userBattle.unlockedUnitIds[i];
+    // 空き枠用のパネル
+    additionalAssets.push(Resource.Dynamic.UnitPanel(-1));
+    for (let i = 0; i < this.profile.unlockedUnitIds.length; i++) {
+      const unitId = this.profile.unlockedUnitIds[i];
       additionalAssets.push(Resource.Dynamic.UnitPanel(unitId));
+
+      // 詳細表示でアニメーションをプレビューするため、有効なユニットのみロードする
+      if (unitId > 0) {
+        additionalAssets.push(Resource.Dynamic.Unit(unitId));
+      }
     }
+    additionalAssets.push(
+      Resource.Api.UnitAnimation(this.profile.unlockedUnitIds)
+    );
 
     return additionalAssets;
   }
@@ -135,88 +271,208 @@ export default class OrderScene extends Scene  {
   protected onResourceLoaded(): void {
     super.onResourceLoaded();
 
-    if (!this.userBattle) {
-      throw new Error('user_battle record missing');
+    if (!this.profile) {
+      throw new Error('player profile missing');
     }
-    for (let i = 0; i < this.userBattle.unlockedUnitIds.length; i++) {
-      const unitId = this.userBattle.unlockedUnitIds[i];
+    for (let i = 0; i < this.profile.unlockedUnitIds.length; i++) {
+      const unitId = this.profile.unlockedUnitIds[i];
       const url = Resource.Dynamic.UnitPanel(unitId);
       const resources = PIXI.loader.resources;
       this.unitButtonTexturesCache.set(unitId, resources[url].texture);
     }
 
+    this.unitAnimationMasterCache.clear();
+    const animationKey = Resource.Api.UnitAnimation(
+      this.profile.unlockedUnitIds
+    );
+    const unitAnimationMasters = PIXI.loader.resources[animationKey].data;
+    for (let i = 0; i < unitAnimationMasters.length; i++) {
+      const master = unitAnimationMasters[i];
+      this.unitAnimationMasterCache.set(master.unitId, master);
+    }
+
     this.initUnitButtons();
+    this.initUnitRoster();
 
     this.updateCurrentStageId(this.currentStageId);
+    this.updateCurrency(this.profile.currency);
+    this.updateDeckPresetName();
+    this.updateDeckStatus();
+    this.initSkillSlots();
 
     this.playBgmIfNeeded();
   }
 
   /**
-   * ユニットの切り替えボタンが押下された時のコールバック
+   * 編成の切り替えボタンが押下された時のコールバック
+   * 切り替えた編成にユニットが保存されていれば枠に反映する
    */
-  public onUnitArrowTapped(slotIndex: number, addValue: number): void {
-    if (!this.userBattle) {
+  public onDeckPresetArrowTapped(addValue: number): void {
+    const record = this.deckPresetRecord;
+    if (!record || this.draggingUnit) {
       return;
     }
-    if (addValue === 0) {
+
+    const presetCount = record.presets.length;
+    record.selectedIndex =
+      (record.selectedIndex + addValue + presetCount) % presetCount;
+
+    // 空の編成に切り替えた場合は現在の編成をそのまま保存できるよう残す
+    const preset = this.getSelectedDeckPreset();
+    if (preset && preset.unitIds.some(unitId => unitId > 0)) {
+      this.applyUnitIds(this.filterUnlockedUnitIds(preset.unitIds));
+    }
+
+    DeckPresetStorage.save(record);
+
+    this.updateDeckPresetName();
+    this.updateDeckStatus();
+    this.playSe(Resource.Audio.Se.UnitSpawn);
+  }
+
+  /**
+   * 編成の保存ボタンが押下された時のコールバック
+   * 現在の枠の内容を選択中の編成に保存する
+   */
+  public onDeckPresetSaveTapped(): void {
+    const record = this.deckPresetRecord;
+    const preset = this.getSelectedDeckPreset();
+    if (!record || !preset) {
       return;
     }
-    const unitButton = this.unitButtons.get(slotIndex);
-    if (!unitButton) {
+
+    preset.unitIds = this.getUnitIds();
+    DeckPresetStorage.save(record);
+
+    this.playSe(Resource.Audio.Se.UnitSpawn);
+  }
+
+  /**
+   * 編成名の変更ボタンが押下された時のコールバック
+   * 編成名の入力モーダルを表示し、確定された名前を保存する
+   */
+  public onDeckPresetRenameTapped(): void {
+    if (this.isModalOpened()) {
+      return;
+    }
+    const record = this.deckPresetRecord;
+    const preset = this.getSelectedDeckPreset();
+    if (!record || !preset) {
       return;
     }
 
-    const availableUnitIds = this.userBattle.unlockedUnitIds;
-    const availableUnitCount = availableUnitIds.length;
+    const modal = new DeckNameModal({
+      name: preset.name,
+      maxLength: MAX_DECK_NAME_LENGTH
+    });
+    modal.onSubmitted = (name: string) => {
+      preset.name = name;
+      DeckPresetStorage.save(record);
+      this.updateDeckPresetName();
+      this.playSe(Resource.Audio.Se.UnitSpawn);
+    };
+    modal.onClosed = () => {
+      this.deckNameModal = null;
+    };
+    this.addChild(modal);
+    this.deckNameModal = modal;
+
+    this.playSe(Resource.Audio.Se.UnitSpawn);
+  }
 
-    let nextIndex = availableUnitIds.indexOf(unitButton.unitId) + addValue;
-    if (nextIndex >= availableUnitCount) {
-      nextIndex = nextIndex % availableUnitCount;
-    } else if (nextIndex < 0) {
-      nextIndex = availableUnitCount + (nextIndex % availableUnitCount);
+  /**
+   * スキル枠が押下された時のコールバック
+   * 他の枠で選択されていない次のスキルに切り替える
+   */
+  public onSkillSlotTapped(slotIndex: number): void {
+    if (this.draggingUnit || this.isModalOpened()) {
+      return;
+    }
+    if (slotIndex < 0 || slotIndex >= this.skillIds.length) {
+      return;
     }
 
-    let cost = -1;
-    const newUnitId = availableUnitIds[nextIndex];
-    if (newUnitId > 0) {
-      const unitMaster = this.unitMasterCache.get(newUnitId);
-      if (unitMaster) {
-        cost = unitMaster.cost;
+    // 空き枠も選択肢に含める
+    const options = [-1];
+    this.skillMasterCache.forEach((_skill, skillId) => {
+      options.push(skillId);
+    });
+
+    const current = options.indexOf(this.skillIds[slotIndex]);
+    for (let i = 1; i < options.length; i++) {
+      const skillId = options[(current + i) % options.length];
+      const selectedIndex = this.skillIds.indexOf(skillId);
+      if (skillId < 0 || selectedIndex === -1) {
+        this.skillIds[slotIndex] = skillId;
+        break;
       }
     }
 
-    unitButton.changeUnit(newUnitId, cost);
-
+    this.updateSkillSlots();
     this.playSe(Resource.Audio.Se.UnitSpawn);
   }
 
   /**
-   * ステージの切り替えボタンが押下された時のコールバック
+   * ユニットの詳細ボタンが押下された時のコールバック
+   * 枠に編成されているユニットの詳細モーダルを表示する
    */
-  public onStageArrowTapped(addValue: number): void {
-    if (!this.userBattle) {
+  public onUnitInfoTapped(slotIndex: number): void {
+    if (this.isModalOpened() || !this.profile) {
+      return;
+    }
+    const unitButton = this.unitButtons.get(slotIndex);
+    if (!unitButton) {
       return;
     }
 
-    let newStageId;
+    const unitId = unitButton.unitId;
+    const unitMaster = this.getLeveledUnitMaster(unitId);
+    const animationMaster = this.unitAnimationMasterCache.get(unitId);
+    if (!unitMaster || !animationMaster) {
+      return;
+    }
+
+    const modal = new UnitDetailModal({
+      unitMaster,
+      animationMaster,
+      level: ProgressionService.getUnitLevel(this.profile, unitId)
+    });
+    modal.onClosed = () => {
+      this.unitDetailModal = null;
+    };
+    this.addChild(modal);
+    this.registerUpdatingObject(modal);
+    this.unitDetailModal = modal;
 
-    const maxStageId = this.userBattle.unlockedStageId;
+    this.playSe(Resource.Audio.Se.UnitSpawn);
+  }
 
-    if (maxStageId === 1) {
-      newStageId = 1;
-    } else {
-      newStageId = this.currentStageId + addValue;
-      if (newStageId > maxStageId) {
-        newStageId = newStageId % maxStageId;
-      } else if (newStageId <= 0) {
-        newStageId = maxStageId + (newStageId % maxStageId);
-      }
+  /**
+   * 戻るボタンが押下された時のコールバック
+   * ステージ選択シーンへ戻る
+   */
+  public onBackButtonTapped(): void {
+    if (this.transitionIn.isActive() || this.transitionOut.isActive()) {
+      return;
     }
 
-    this.updateCurrentStageId(newStageId);
+    this.saveUnitIdsToDB(this.getUnitIds());
+    this.saveSkillIdsToDB(this.skillIds);
+    GameManager.loadScene(new StageSelectScene());
+  }
 
-    this.playSe(Resource.Audio.Se.UnitSpawn);
+  /**
+   * 強化ボタンが押下された時のコールバック
+   * 選択中のステージを引き継いでユニット強化シーンへ遷移する
+   */
+  public onUpgradeButtonTapped(): void {
+    if (this.transitionIn.isActive() || this.transitionOut.isActive()) {
+      return;
+    }
+
+    this.saveUnitIdsToDB(this.getUnitIds());
+    this.saveSkillIdsToDB(this.skillIds);
+    GameManager.loadScene(new UnitUpgradeScene(this.currentStageId));
   }
 
   /**
@@ -243,6 +499,9 @@ export default class OrderScene extends Scene  {
     if (type === 'unit_button') {
       return new UnitButtonFactory();
     }
+    if (type === 'unit_roster') {
+      return new UnitRosterFactory();
+    }
     return null;
   }
 
@@ -254,6 +513,10 @@ export default class OrderScene extends Scene  {
       return false;
     }
 
+    if (!this.updateDeckStatus().isValid) {
+      return false;
+    }
+
     const params = this.createBattleParameter();
     if (!params) {
       return false;
@@ -264,6 +527,7 @@ export default class OrderScene extends Scene  {
 
     this.saveStageIdToDB(params.stageId);
     this.saveUnitIdsToDB(params.unitIds);
+    this.saveSkillIdsToDB(this.skillIds);
 
     GameManager.loadScene(new BattleScene(params));
 
@@ -294,6 +558,7 @@ export default class OrderScene extends Scene  {
         } else {
           unitButton.init(slotIndex);
         }
+        this.attachUnitDragEvents(unitButton, unitButton);
         this.unitButtons.set(slotIndex, unitButton);
         slotIndex++;
         if (slotIndex >= Config.MaxUnitSlotCount) {
@@ -303,6 +568,308 @@ export default class OrderScene extends Scene  {
     }
   }
 
+  /**
+   * スキル枠を初期化する
+   * 存在しないスキルと重複したスキルは空き枠に置き換える
+   */
+  private initSkillSlots(): void {
+    const skillIds: number[] = [];
+    for (let i = 0; i < Config.MaxSkillSlotCount; i++) {
+      const skillId = (i < this.skillIds.length) ? this.skillIds[i] : -1;
+      const isValid = this.skillMasterCache.has(skillId)
+        && skillIds.indexOf(skillId) === -1;
+      skillIds.push(isValid ? skillId : -1);
+    }
+    this.skillIds = skillIds;
+
+    this.updateSkillSlots();
+  }
+
+  /**
+   * スキル枠の表示を更新する
+   */
+  private updateSkillSlots(): void {
+    for (let i = 0; i < this.skillIds.length; i++) {
+      const text = this.uiGraph[`skill_${i + 1}`] as PIXI.Text;
+      if (!text) {
+        continue;
+      }
+      const skill = this.skillMasterCache.get(this.skillIds[i]);
+      text.text = skill ? `[${skill.name}]` : '[ - ]';
+    }
+  }
+
+  /**
+   * UnitRoster に解放済みのユニットを設定する
+   */
+  private initUnitRoster(): void {
+    const roster = this.uiGraph.unit_roster as UnitRoster;
+    if (!roster || !this.profile) {
+      return;
+    }
+
+    const units = [];
+    for (let i = 0; i < this.profile.unlockedUnitIds.length; i++) {
+      const unitId = this.profile.unlockedUnitIds[i];
+      const texture = this.unitButtonTexturesCache.get(unitId);
+      if (unitId > 0 && texture) {
+        units.push({ unitId, texture });
+      }
+    }
+
+    roster.setUnits(units);
+    roster.onUnitPointerDown = (unitId, e) => {
+      this.beginUnitDrag(unitId, -1, e);
+    };
+    this.attachUnitDragEvents(roster);
+  }
+
+  /**
+   * ドラッグの移動と終了を受け取るイベントを設定する
+   * sourceButton が渡された場合はそのボタンからのドラッグ開始も受け付ける
+   */
+  private attachUnitDragEvents(
+    target: PIXI.Container,
+    sourceButton?: UnitButton
+  ): void {
+    target.interactive = true;
+    if (sourceButton) {
+      target.on('pointerdown', (e: PIXI.interaction.InteractionEvent) => {
+        if (sourceButton.unitId > 0) {
+          this.beginUnitDrag(sourceButton.unitId, sourceButton.slotIndex, e);
+        }
+      });
+    }
+    target.on('pointermove', (e: PIXI.interaction.InteractionEvent) => {
+      this.moveUnitDrag(e);
+    });
+    target.on('pointerup', (e: PIXI.interaction.InteractionEvent) => {
+      this.endUnitDrag(e);
+    });
+    target.on('pointerupoutside', (e: PIXI.interaction.InteractionEvent) => {
+      this.endUnitDrag(e);
+    });
+  }
+
+  /**
+   * ユニットのドラッグを開始する
+   */
+  private beginUnitDrag(
+    unitId: number,
+    sourceSlotIndex: number,
+    e: PIXI.interaction.InteractionEvent
+  ): void {
+    if (this.draggingUnit || this.isModalOpened()) {
+      return;
+    }
+    if (this.transitionIn.isActive() || this.transitionOut.isActive()) {
+      return;
+    }
+
+    const texture = this.unitButtonTexturesCache.get(unitId);
+    if (!texture) {
+      return;
+    }
+
+    const ghost = new PIXI.Sprite(texture);
+    ghost.anchor.set(0.5);
+    ghost.alpha = 0.8;
+    ghost.position.copy(e.data.global);
+    this.addChild(ghost);
+
+    this.draggingUnit = { unitId, sourceSlotIndex, ghost };
+  }
+
+  /**
+   * ドラッグ中のユニットをポインタに追従させる
+   * 移動イベントは複数の要素から通知されるため冪等に処理する
+   */
+  private moveUnitDrag(e: PIXI.interaction.InteractionEvent): void {
+    if (!this.draggingUnit) {
+      return;
+    }
+
+    this.draggingUnit.ghost.position.copy(e.data.global);
+  }
+
+  /**
+   * ユニットのドラッグを終了し、ポインタ位置の枠に配置する
+   * 終了イベントは複数の要素から通知されるため最初の 1 回のみ処理する
+   */
+  private endUnitDrag(e: PIXI.interaction.InteractionEvent): void {
+    const dragging = this.draggingUnit;
+    if (!dragging) {
+      return;
+    }
+    this.draggingUnit = null;
+    dragging.ghost.destroy();
+
+    const point = e.data.global;
+    let targetSlotIndex = -1;
+    this.unitButtons.forEach((unitButton, slotIndex) => {
+      if (unitButton.getBounds().contains(point.x, point.y)) {
+        targetSlotIndex = slotIndex;
+      }
+    });
+
+    this.dropUnit(dragging.unitId, dragging.sourceSlotIndex, targetSlotIndex);
+  }
+
+  /**
+   * ドロップされたユニットを枠に配置する
+   * 同じユニットが複数の枠に入らないよう、配置先のユニットとは入れ替える
+   * 枠からドラッグしたユニットを枠の外でドロップした場合は編成から外す
+   */
+  private dropUnit(
+    unitId: number,
+    sourceSlotIndex: number,
+    targetSlotIndex: number
+  ): void {
+    if (sourceSlotIndex === targetSlotIndex) {
+      return;
+    }
+
+    if (targetSlotIndex < 0) {
+      this.changeSlotUnit(sourceSlotIndex, -1);
+    } else {
+      const targetButton = this.unitButtons.get(targetSlotIndex);
+      if (!targetButton) {
+        return;
+      }
+
+      const currentSlotIndex = (sourceSlotIndex >= 0)
+        ? sourceSlotIndex
+        : this.getUnitIds().indexOf(unitId);
+      if (currentSlotIndex >= 0) {
+        this.changeSlotUnit(currentSlotIndex, targetButton.unitId);
+      }
+      this.changeSlotUnit(targetSlotIndex, unitId);
+    }
+
+    this.updateDeckStatus();
+    this.playSe(Resource.Audio.Se.UnitSpawn);
+  }
+
+  /**
+   * 枠のユニットを変更する
+   */
+  private changeSlotUnit(slotIndex: number, unitId: number): void {
+    const unitButton = this.unitButtons.get(slotIndex);
+    if (!unitButton) {
+      return;
+    }
+
+    const unitMaster = this.unitMasterCache.get(unitId);
+    unitButton.changeUnit(unitId, unitMaster ? unitMaster.cost : -1);
+  }
+
+  /**
+   * 枠順のユニット ID 配列を各枠に反映する
+   */
+  private applyUnitIds(unitIds: number[]): void {
+    this.unitButtons.forEach((_unitButton, slotIndex) => {
+      const unitId = (slotIndex < unitIds.length) ? unitIds[slotIndex] : -1;
+      this.changeSlotUnit(slotIndex, unitId);
+    });
+  }
+
+  /**
+   * 解放されていないユニットを空き枠に置き換えた配列を返す
+   */
+  private filterUnlockedUnitIds(unitIds: number[]): number[] {
+    const profile = this.profile;
+    if (!profile) {
+      return unitIds.slice();
+    }
+
+    return unitIds.map((unitId) => {
+      return (profile.unlockedUnitIds.indexOf(unitId) === -1) ? -1 : unitId;
+    });
+  }
+
+  /**
+   * ユニット詳細か編成名入力のモーダルを表示中かどうかを返す
+   */
+  private isModalOpened(): boolean {
+    return !!this.unitDetailModal || !!this.deckNameModal;
+  }
+
+  /**
+   * 選択中の編成を返す
+   */
+  private getSelectedDeckPreset(): DeckPreset | null {
+    const record = this.deckPresetRecord;
+    if (!record) {
+      return null;
+    }
+    return record.presets[record.selectedIndex] || null;
+  }
+
+  /**
+   * 選択中の編成名の表示を更新する
+   */
+  private updateDeckPresetName(): void {
+    const preset = this.getSelectedDeckPreset();
+    (this.uiGraph.deck_name as PIXI.Text).text = preset ? preset.name : '';
+  }
+
+  /**
+   * 編成を検証し、コストの合計と問題点の表示を更新する
+   */
+  private updateDeckStatus(): DeckValidationResult {
+    const maxCost = (this.stageMaster)
+      ? this.stageMaster.maxDeckCost
+      : undefined;
+    const unitIds = this.getUnitIds();
+    const result = DeckValidator.validate(
+      unitIds,
+      this.unitMasterCache,
+      maxCost
+    );
+
+    const costText = (maxCost !== undefined)
+      ? `COST ${result.totalCost}/${maxCost}`
+      : `COST ${result.totalCost}`;
+    (this.uiGraph.deck_cost as PIXI.Text).text = costText;
+
+    const message = (result.errors.length > 0)
+      ? this.getDeckValidationMessage(result.errors[0])
+      : '';
+    (this.uiGraph.deck_message as PIXI.Text).text = message;
+
+    // 発動中のシナジーは 1 行に 2 つずつ表示する
+    const synergies = this.getActiveSynergies();
+    const synergyLines: string[] = [];
+    for (let i = 0; i < synergies.length; i += 2) {
+      const line = synergies.slice(i, i + 2).map((synergy) => {
+        return `${synergy.name}: ${synergy.description}`;
+      });
+      synergyLines.push(line.join('   '));
+    }
+    (this.uiGraph.synergy_text as PIXI.Text).text = (synergyLines.length > 0)
+      ? synergyLines.join('\n')
+      : 'SYNERGY: NONE';
+
+    const roster = this.uiGraph.unit_roster as UnitRoster;
+    if (roster) {
+      roster.setDeployedUnitIds(unitIds);
+    }
+
+    return result;
+  }
+
+  /**
+   * 編成の問題点の表示文言を返す
+   */
+  private getDeckValidationMessage(error: string): string {
+    switch (error) {
+      case DeckValidationError.EMPTY: return 'NO UNITS IN DECK';
+      case DeckValidationError.DUPLICATE_UNIT: return 'DUPLICATE UNITS';
+      case DeckValidationError.COST_OVER: return 'DECK COST OVER LIMIT';
+      default: return '';
+    }
+  }
+
   /**
    * 選択されているステージ ID を更新する
    */
@@ -311,26 +878,102 @@ export default class OrderScene extends Scene  {
     (this.uiGraph.stage_number as PIXI.Text).text = `${stageId}`;
   }
 
+  /**
+   * 所持通貨の表示を更新する
+   */
+  private updateCurrency(currency: number): void {
+    (this.uiGraph.currency_text as PIXI.Text).text = `COIN ${currency}`;
+  }
+
   /**
    * バトル用のパラメータを作成する
    */
   private createBattleParameter(): BattleParameter | null {
-    if (!this.userBattle) {
+    if (!this.profile) {
+      return null;
+    }
+
+    return {
+      unitIds: this.getUnitIds(),
+      unitSlotCount: Config.MaxUnitSlotCount,
+      stageId: this.currentStageId,
+      playerCastle: this.profile.castle,
+      cost: this.profile.cost,
+      seed: Random.createSeed(),
+      playerUnitMasters: this.createPlayerUnitMasters(),
+      synergies: this.getActiveSynergies(),
+      skills: this.getSelectedSkills()
+    };
+  }
+
+  /**
+   * スキル枠で選択されているスキルを枠順に返す
+   */
+  private getSelectedSkills(): SkillMaster[] {
+    const skills: SkillMaster[] = [];
+    for (let i = 0; i < this.skillIds.length; i++) {
+      const skill = this.skillMasterCache.get(this.skillIds[i]);
+      if (skill) {
+        skills.push(skill);
+      }
+    }
+
+    return skills;
+  }
+
+  /**
+   * 現在の編成で発動しているシナジーを返す
+   */
+  private getActiveSynergies(): SynergyMaster[] {
+    return DeckSynergy.getActiveSynergies(
+      this.getUnitIds(),
+      this.unitMasterCache,
+      this.synergyMasterCache
+    );
+  }
+
+  /**
+   * 編成中のユニットのレベルを反映した UnitMaster 配列を作成する
+   */
+  private createPlayerUnitMasters(): UnitMaster[] {
+    const unitMasters: UnitMaster[] = [];
+    const unitIds = this.getUnitIds();
+    for (let i = 0; i < unitIds.length; i++) {
+      const unitMaster = this.getLeveledUnitMaster(unitIds[i]);
+      if (unitMaster) {
+        unitMasters.push(unitMaster);
+      }
+    }
+
+    return unitMasters;
+  }
+
+  /**
+   * レベルを反映した UnitMaster を返す
+   */
+  private getLeveledUnitMaster(unitId: number): UnitMaster | null {
+    const unitMaster = this.unitMasterCache.get(unitId);
+    if (!unitMaster || !this.profile) {
       return null;
     }
 
+    return UnitGrowth.applyLevel(
+      unitMaster,
+      this.unitGrowthMasterCache.get(unitId),
+      ProgressionService.getUnitLevel(this.profile, unitId)
+    );
+  }
+
+  /**
+   * 編成中のユニット ID 配列を返す
+   */
+  private getUnitIds(): number[] {
     const unitIds: number[] = [];
     this.unitButtons.forEach((unitButton) => {
       unitIds.push(unitButton.unitId);
     });
 
-    return {
-      unitIds,
-      unitSlotCount: Config.MaxUnitSlotCount,
-      stageId: this.currentStageId,
-      playerCastle: this.userBattle.castle,
-      cost: this.userBattle.cost
-    };
+    return unitIds;
   }
 
   /**
@@ -361,6 +1004,22 @@ export default class OrderScene extends Scene  {
       (_e) => { callback([]); }
     );
   }
+  /**
+   * DB へスキルID配列を保存する
+   */
+  private saveSkillIdsToDB(skillIds: number[]): void {
+    IndexedDBManager.put('lastSkillIds', skillIds);
+  }
+  /**
+   * DB からスキルID配列を取得する
+   */
+  private loadSkillIdsFromDB(callback: (skillIds: number[]) => void): void {
+    IndexedDBManager.get(
+      'lastSkillIds',
+      (skillIds) => { callback(skillIds); },
+      (_e) => { callback([]); }
+    );
+  }
   /**
    * DB へステージIDを保存する
    */
@@ -0,0 +1,259 @@
+import * as PIXI from 'pixi.js';
+import Resource from 'Resource';
+import GameManager from 'managers/GameManager';
+import SoundManager from 'managers/SoundManager';
+import UserBattle from 'interfaces/api/UserBattle';
+import PlayerProfile from 'interfaces/PlayerProfile';
+import BattleReplay from 'interfaces/BattleReplay';
+import StageInfoMaster from 'interfaces/master/StageInfoMaster';
+import LoaderAddParam from 'interfaces/PixiTypePolyfill/LoaderAddParam';
+import UiNodeFactory from 'modules/UiNodeFactory/UiNodeFactory';
+import StageCardListFactory
+    from 'modules/UiNodeFactory/stage_select/StageCardListFactory';
+import ProgressionService from 'modules/ProgressionService';
+import BattleReplayStorage from 'modules/BattleReplayStorage';
+import Scene from 'scenes/Scene';
+import TitleScene from 'scenes/TitleScene';
+import OrderScene from 'scenes/OrderScene';
+import BattleScene from 'scenes/BattleScene';
+import Fade from 'scenes/transition/Fade';
+import StageCardList from 'display/stage_select/StageCardList';
+
+// デバッグ用ユーザID
+const DUMMY_USER_ID = 1;
+
+/**
+ * ステージ選択シーン
+ * 挑戦するステージを選択して編成シーンへ遷移する
+ */
+export default class StageSelectScene extends Scene  {
+  /**
+   * プレイヤーの進行状況
+   */
+  private profile: PlayerProfile | null = null;
+  /**
+   * ステージ情報マスター
+   */
+  private stageInfoMasters: StageInfoMaster[] = [];
+
+  /**
+   * コンストラクタ
+   */
+  constructor() {
+    super();
+
+    this.transitionIn  = new Fade(1.0, 0.0, -0.02);
+    this.transitionOut = new Fade(0.0, 1.0, 0.02);
+  }
+
+  /**
+   * リソースリストを作成し返却する
+   */
+  protected createInitialResourceList(): (LoaderAddParam | string)[] {
+    const assets = super.createInitialResourceList();
+    assets.push(Resource.Api.UserBattle(DUMMY_USER_ID));
+    assets.push(Resource.Api.AllStageInfo());
+    assets.push(Resource.Audio.Bgm.Title);
+    assets.push(Resource.Audio.Se.UnitSpawn);
+
+    return assets;
+  }
+
+  /**
+   * リソースをロードする
+   * 基本実装をオーバーライドし、 indexed db から進行状況を取得する
+   */
+  public beginLoadResource(onLoaded: () => void): Promise<void> {
+    return new Promise((resolve) => {
+      ProgressionService.load((profile) => {
+        this.profile = profile;
+        resolve();
+      });
+    }).then(() => {
+      return super.beginLoadResource(onLoaded);
+    });
+  }
+
+  /**
+   * リソースがロードされた時のコールバック
+   * ステージのサムネイルを追加でロードする
+   */
+  protected onInitialResourceLoaded(): (LoaderAddParam | string)[] {
+    const additionalAssets = super.onInitialResourceLoaded();
+
+    const resources = PIXI.loader.resources;
+
+    const userBattleUrl = Resource.Api.UserBattle(DUMMY_USER_ID);
+    const userBattle: UserBattle = resources[userBattleUrl].data;
+
+    if (!userBattle) {
+      throw new Error('user_battle record could not be retrieved');
+    }
+
+    // 進行状況が保存されていなければ user_battle の内容で作成する
+    this.profile = ProgressionService.restoreOrCreate(this.profile, userBattle);
+
+    this.stageInfoMasters = resources[Resource.Api.AllStageInfo()].data;
+    for (let i = 0; i < this.stageInfoMasters.length; i++) {
+      additionalAssets.push(this.stageInfoMasters[i].thumbnail);
+    }
+
+    const seKey = Resource.Audio.Se.UnitSpawn;
+    if (!SoundManager.hasSound(seKey)) {
+      SoundManager.createSound(seKey, (resources[seKey] as any).buffer);
+    }
+
+    return additionalAssets;
+  }
+
+  /**
+   * 追加リソースダウンロード完了時コールバック
+   */
+  protected onResourceLoaded(): void {
+    super.onResourceLoaded();
+
+    this.initStageCardList();
+    this.playBgmIfNeeded();
+  }
+
+  /**
+   * 戻るボタンが押下された時のコールバック
+   */
+  public onBackButtonTapped(): void {
+    if (this.transitionIn.isActive() || this.transitionOut.isActive()) {
+      return;
+    }
+
+    // タイトルシーンで BGM を再生し直すため破棄する
+    SoundManager.destroySound(Resource.Audio.Bgm.Title);
+    GameManager.loadScene(new TitleScene());
+  }
+
+  /**
+   * リプレイボタンが押下された時のコールバック
+   * 最後のバトルのリプレイを再生する
+   */
+  public onReplayButtonTapped(): void {
+    if (this.transitionIn.isActive() || this.transitionOut.isActive()) {
+      return;
+    }
+
+    BattleReplayStorage.load((replay) => {
+      if (!replay) {
+        this.showReplayMessage('NO REPLAY SAVED');
+        return;
+      }
+      this.startReplay(replay);
+    });
+  }
+
+  /**
+   * インポートボタンが押下された時のコールバック
+   * 選択された JSON ファイルのリプレイを再生する
+   */
+  public onImportReplayButtonTapped(): void {
+    if (this.transitionIn.isActive() || this.transitionOut.isActive()) {
+      return;
+    }
+
+    BattleReplayStorage.openFile(
+      (replay) => { this.startReplay(replay); },
+      (_e) => { this.showReplayMessage('INVALID REPLAY FILE'); }
+    );
+  }
+
+  /**
+   * エクスポートボタンが押下された時のコールバック
+   * 最後のバトルのリプレイを JSON ファイルとしてダウンロードさせる
+   */
+  public onExportReplayButtonTapped(): void {
+    BattleReplayStorage.load((replay) => {
+      if (!replay) {
+        this.showReplayMessage('NO REPLAY SAVED');
+        return;
+      }
+      BattleReplayStorage.download(replay);
+    });
+  }
+
+  /**
+   * 独自 UiGraph 要素のファクトリを返す
+   */
+  protected getCustomUiGraphFactory(type: string): UiNodeFactory | null {
+    if (type === 'stage_card_list') {
+      return new StageCardListFactory();
+    }
+    return null;
+  }
+
+  /**
+   * StageCardList にステージ情報を設定する
+   */
+  private initStageCardList(): void {
+    const list = this.uiGraph.stage_card_list as StageCardList;
+    if (!list || !this.profile) {
+      return;
+    }
+
+    const stages = ProgressionService.getStageProgresses(
+      this.profile,
+      this.stageInfoMasters
+    );
+
+    list.setStages(stages);
+    list.scrollToStage(this.profile.unlockedStageId);
+    list.onStageSelected = (stageId: number) => this.startOrder(stageId);
+  }
+
+  /**
+   * 選択されたステージの編成シーンへ遷移する
+   */
+  private startOrder(stageId: number): void {
+    if (this.transitionIn.isActive() || this.transitionOut.isActive()) {
+      return;
+    }
+
+    this.playSe(Resource.Audio.Se.UnitSpawn);
+    GameManager.loadScene(new OrderScene(stageId));
+  }
+
+  /**
+   * リプレイを再生するバトルシーンへ遷移する
+   */
+  private startReplay(replay: BattleReplay): void {
+    if (this.transitionIn.isActive() || this.transitionOut.isActive()) {
+      return;
+    }
+
+    const bgm = SoundManager.getSound(Resource.Audio.Bgm.Title);
+    if (bgm) {
+      SoundManager.fade(bgm, 0.01, 0.5, true);
+    }
+    SoundManager.unregisterSound(Resource.Audio.Bgm.Title);
+
+    const params = BattleReplayStorage.createBattleParameter(replay);
+    GameManager.loadScene(new BattleScene(params));
+  }
+
+  /**
+   * リプレイの操作結果をメッセージとして表示する
+   */
+  private showReplayMessage(message: string): void {
+    const text = this.uiGraph.replay_message as PIXI.Text;
+    if (text) {
+      text.text = message;
+    }
+  }
+
+  /**
+   * 必要であれば BGM を再生する
+   */
+  private playBgmIfNeeded(): void {
+    const bgmTitleName = Resource.Audio.Bgm.Title;
+    if (!SoundManager.hasSound(bgmTitleName)) {
+      const resource = PIXI.loader.resources[bgmTitleName] as any;
+      const bgm = SoundManager.createSound(bgmTitleName, resource.buffer);
+      bgm.play(true);
+    }
+  }
+}
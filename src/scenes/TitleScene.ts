@@ -4,7 +4,7 @@ import GameManager from 'managers/GameManager';
 import SoundManager from 'managers/SoundManager';
 import LoaderAddParam from 'interfaces/PixiTypePolyfill/LoaderAddParam';
 import Scene from 'scenes/Scene';
-import OrderScene from 'scenes/OrderScene';
+import StageSelectScene from 'scenes/StageSelectScene';
 import Fade from 'scenes/transition/Fade';
 
 /**
@@ -64,13 +64,14 @@ export default class TitleScene extends Scene  {
   }
 
   /**
-   * 編成ボタンが離されたときのコールバック
+   * 画面が押下されたときのコールバック
+   * ステージ選択シーンへ遷移する
    */
   public startOrder(): void {
     if (this.transitionIn.isActive() || this.transitionOut.isActive()) {
       return;
     }
 
-    GameManager.loadScene(new OrderScene());
+    GameManager.loadScene(new StageSelectScene());
   }
 }
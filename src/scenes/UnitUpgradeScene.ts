@@ -0,0 +1,267 @@
+import * as PIXI from 'pixi.js';
+import Resource from 'Resource';
+import GameManager from 'managers/GameManager';
+import SoundManager from 'managers/SoundManager';
+import UserBattle from 'interfaces/api/UserBattle';
+import PlayerProfile from 'interfaces/PlayerProfile';
+import UnitMaster from 'interfaces/master/UnitMaster';
+import UnitGrowthMaster from 'interfaces/master/UnitGrowthMaster';
+import LoaderAddParam from 'interfaces/PixiTypePolyfill/LoaderAddParam';
+import ProgressionService from 'modules/ProgressionService';
+import UnitGrowth from 'modules/UnitGrowth';
+import Scene from 'scenes/Scene';
+import OrderScene from 'scenes/OrderScene';
+import Fade from 'scenes/transition/Fade';
+import UnitUpgradeRow from 'display/unit_upgrade/UnitUpgradeRow';
+
+// デバッグ用ユーザID
+const DUMMY_USER_ID = 1;
+
+/**
+ * ユニット強化シーン
+ * 通貨を消費して解放済みのユニットのレベルを上げる
+ */
+export default class UnitUpgradeScene extends Scene  {
+  /**
+   * 行を並べ始める座標
+   */
+  public rowsPosition: PIXI.Point = new PIXI.Point(40, 100);
+  /**
+   * 行の幅
+   */
+  public rowWidth: number = 1056;
+  /**
+   * 行の間隔
+   */
+  public rowMargin: number = 4;
+
+  /**
+   * プレイヤーの進行状況
+   */
+  private profile: PlayerProfile | null = null;
+  /**
+   * 編成シーンに戻った際に選択するステージ ID
+   */
+  private stageId: number;
+  /**
+   * ユニットマスターのキャッシュ
+   */
+  private unitMasterCache: Map<number, UnitMaster> = new Map();
+  /**
+   * ユニット成長曲線マスターのキャッシュ
+   */
+  private unitGrowthMasterCache: Map<number, UnitGrowthMaster> = new Map();
+  /**
+   * ユニット ID と紐つけた UnitUpgradeRow のマップ
+   */
+  private unitRows: Map<number, UnitUpgradeRow> = new Map();
+
+  /**
+   * コンストラクタ
+   */
+  constructor(stageId: number) {
+    super();
+
+    this.stageId = stageId;
+
+    this.transitionIn  = new Fade(1.0, 0.0, -0.02);
+    this.transitionOut = new Fade(0.0, 1.0, 0.02);
+  }
+
+  /**
+   * リソースリストを作成し返却する
+   */
+  protected createInitialResourceList(): (LoaderAddParam | string)[] {
+    const assets = super.createInitialResourceList();
+    assets.push(Resource.Api.UserBattle(DUMMY_USER_ID));
+    assets.push(Resource.Api.AllUnit());
+    assets.push(Resource.Api.AllUnitGrowth());
+    assets.push(Resource.Audio.Bgm.Title);
+    assets.push(Resource.Audio.Se.UnitSpawn);
+
+    return assets;
+  }
+
+  /**
+   * リソースをロードする
+   * 基本実装をオーバーライドし、 indexed db から進行状況を取得する
+   */
+  public beginLoadResource(onLoaded: () => void): Promise<void> {
+    return new Promise((resolve) => {
+      ProgressionService.load((profile) => {
+        this.profile = profile;
+        resolve();
+      });
+    }).then(() => {
+      return super.beginLoadResource(onLoaded);
+    });
+  }
+
+  /**
+   * リソースがロードされた時のコールバック
+   * 解放済みのユニットのパネルを追加でロードする
+   */
+  protected onInitialResourceLoaded(): (LoaderAddParam | string)[] {
+    const additionalAssets = super.onInitialResourceLoaded();
+
+    const resources = PIXI.loader.resources;
+
+    const userBattleUrl = Resource.Api.UserBattle(DUMMY_USER_ID);
+    const userBattle: UserBattle = resources[userBattleUrl].data;
+
+    if (!userBattle) {
+      throw new Error('user_battle record could not be retrieved');
+    }
+
+    // 進行状況が保存されていなければ user_battle の内容で作成する
+    this.profile = ProgressionService.restoreOrCreate(this.profile, userBattle);
+
+    this.unitMasterCache.clear();
+    this.unitGrowthMasterCache.clear();
+
+    const allUnitMaster = resources[Resource.Api.AllUnit()].data;
+    for (let i = 0; i < allUnitMaster.length; i++) {
+      const unitMaster = allUnitMaster[i];
+      this.unitMasterCache.set(unitMaster.unitId, unitMaster);
+    }
+
+    const allUnitGrowthMaster = resources[Resource.Api.AllUnitGrowth()].data;
+    for (let i = 0; i < allUnitGrowthMaster.length; i++) {
+      const growthMaster = allUnitGrowthMaster[i];
+      this.unitGrowthMasterCache.set(growthMaster.unitId, growthMaster);
+    }
+
+    const seKey = Resource.Audio.Se.UnitSpawn;
+    if (!SoundManager.hasSound(seKey)) {
+      SoundManager.createSound(seKey, (resources[seKey] as any).buffer);
+    }
+
+    const unitIds = this.getUpgradableUnitIds();
+    for (let i = 0; i < unitIds.length; i++) {
+      additionalAssets.push(Resource.Dynamic.UnitPanel(unitIds[i]));
+    }
+
+    return additionalAssets;
+  }
+
+  /**
+   * 追加リソースダウンロード完了時コールバック
+   */
+  protected onResourceLoaded(): void {
+    super.onResourceLoaded();
+
+    this.initUnitRows();
+    this.updateView();
+    this.playBgmIfNeeded();
+  }
+
+  /**
+   * 戻るボタンが押下された時のコールバック
+   * 編成シーンへ戻る
+   */
+  public onBackButtonTapped(): void {
+    if (this.transitionIn.isActive() || this.transitionOut.isActive()) {
+      return;
+    }
+
+    GameManager.loadScene(new OrderScene(this.stageId));
+  }
+
+  /**
+   * UnitUpgradeRow を初期化する
+   */
+  private initUnitRows(): void {
+    this.unitRows.clear();
+
+    const resources = PIXI.loader.resources;
+    const unitIds = this.getUpgradableUnitIds();
+    for (let i = 0; i < unitIds.length; i++) {
+      const unitId = unitIds[i];
+      const texture = resources[Resource.Dynamic.UnitPanel(unitId)].texture;
+      const row = new UnitUpgradeRow(unitId, texture, this.rowWidth);
+      row.position.set(
+        this.rowsPosition.x,
+        this.rowsPosition.y + (UnitUpgradeRow.rowHeight + this.rowMargin) * i
+      );
+      row.onUpgradeTapped = (id: number) => this.upgradeUnit(id);
+      this.uiGraphContainer.addChild(row);
+      this.unitRows.set(unitId, row);
+    }
+  }
+
+  /**
+   * ユニットのレベルを上げる
+   */
+  private upgradeUnit(unitId: number): void {
+    if (this.transitionIn.isActive() || this.transitionOut.isActive()) {
+      return;
+    }
+
+    const growthMaster = this.unitGrowthMasterCache.get(unitId);
+    if (!this.profile || !growthMaster) {
+      return;
+    }
+
+    if (ProgressionService.upgradeUnit(this.profile, growthMaster)) {
+      this.playSe(Resource.Audio.Se.UnitSpawn);
+      this.updateView();
+    }
+  }
+
+  /**
+   * 所持通貨と各ユニットの表示を更新する
+   */
+  private updateView(): void {
+    const profile = this.profile;
+    if (!profile) {
+      return;
+    }
+
+    const currencyText = this.uiGraph.currency_text as PIXI.Text;
+    currencyText.text = `COIN ${profile.currency}`;
+
+    this.unitRows.forEach((row, unitId) => {
+      const unitMaster = this.unitMasterCache.get(unitId);
+      const growthMaster = this.unitGrowthMasterCache.get(unitId);
+      if (!unitMaster || !growthMaster) {
+        return;
+      }
+
+      const level = ProgressionService.getUnitLevel(profile, unitId);
+      const upgradeCost = UnitGrowth.getUpgradeCost(growthMaster, level);
+      row.setStatus({
+        level,
+        upgradeCost,
+        maxLevel: growthMaster.maxLevel,
+        unitMaster: UnitGrowth.applyLevel(unitMaster, growthMaster, level),
+        affordable: profile.currency >= upgradeCost
+      });
+    });
+  }
+
+  /**
+   * 解放済みで成長曲線が定義されているユニット ID 配列を返す
+   */
+  private getUpgradableUnitIds(): number[] {
+    if (!this.profile) {
+      return [];
+    }
+
+    return this.profile.unlockedUnitIds.filter((unitId) => {
+      return this.unitMasterCache.has(unitId)
+        && this.unitGrowthMasterCache.has(unitId);
+    });
+  }
+
+  /**
+   * 必要であれば BGM を再生する
+   */
+  private playBgmIfNeeded(): void {
+    const bgmTitleName = Resource.Audio.Bgm.Title;
+    if (!SoundManager.hasSound(bgmTitleName)) {
+      const resource = PIXI.loader.resources[bgmTitleName] as any;
+      const bgm = SoundManager.createSound(bgmTitleName, resource.buffer);
+      bgm.play(true);
+    }
+  }
+}
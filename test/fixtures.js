@@ -0,0 +1,200 @@
+import BattleLogic from 'modules/BattleLogic';
+import HeadlessBattleDelegate from 'modules/HeadlessBattleDelegate';
+import UnitEntity from 'entity/UnitEntity';
+import AttackableState from 'enum/AttackableState';
+
+/**
+ * スペック間で共有するテスト用のマスターやバトルの生成処理
+ */
+
+/**
+ * テスト用の拠点マスターを生成する
+ */
+export function createCastleMaster(castleId, params = {}) {
+  return Object.assign({
+    castleId,
+    cost: 0,
+    maxHealth: 100,
+    power: 0,
+    speed: 0,
+    knockBackFrames: 0,
+    knockBackSpeed: 0
+  }, params);
+}
+
+/**
+ * テスト用のユニットマスターを生成する
+ */
+export function createUnitMaster(unitId, params = {}) {
+  return Object.assign({
+    unitId,
+    cost: 10,
+    maxHealth: 100,
+    power: 10,
+    speed: 1,
+    knockBackFrames: 0,
+    knockBackSpeed: 0
+  }, params);
+}
+
+/**
+ * テスト用のユニットアニメーションマスターを生成する
+ */
+export function createUnitAnimationMaster(unitId) {
+  const createType = (type, count, updateDuration) => {
+    const frames = [];
+    for (let i = 1; i <= count; i++) {
+      frames.push(`troop_${unitId}_${type}_1_${i}.png`);
+    }
+    return { updateDuration, frames };
+  };
+
+  return {
+    unitId,
+    hitFrame: 3,
+    types: {
+      wait: createType('wait', 2, 12),
+      walk: createType('walk', 4, 8),
+      attack: createType('attack', 6, 4),
+      damage: createType('damage', 1, 1)
+    }
+  };
+}
+
+/**
+ * テスト用のステージマスターを生成する
+ */
+export function createStageMaster(params = {}) {
+  return Object.assign({
+    id: 1,
+    length: 2000,
+    zLines: 8,
+    aiCastleId: 2,
+    waves: []
+  }, params);
+}
+
+/**
+ * テスト用のステージ一覧を生成する
+ */
+export function createStageInfoMasters(stageIds) {
+  return stageIds.map(stageId => ({
+    stageId,
+    name: `stage ${stageId}`,
+    thumbnail: '',
+    recommendedCost: 0
+  }));
+}
+
+/**
+ * テスト用のバトル結果を生成する
+ */
+export function createOutcome(isPlayerWon, stars) {
+  return {
+    isPlayerWon,
+    stars,
+    maxStars: 3,
+    objectives: [],
+    frameCount: 1000,
+    spawnedUnitCount: 5,
+    spentCost: 100,
+    damageDealt: 200
+  };
+}
+
+/**
+ * テスト用に初期化した BattleLogic とデリゲータを返す
+ * params は BattleLogic.init のパラメータを上書きする
+ * stage と unitAnimationMasters はそれぞれステージマスターとデリゲータに渡す
+ */
+export function createBattleLogic(params = {}) {
+  const delegator = new HeadlessBattleDelegate(
+    params.unitAnimationMasters || []
+  );
+  const initParams = Object.assign({
+    unitMasters: [],
+    ai: {
+      castle: createCastleMaster(2)
+    }
+  }, params, {
+    delegator,
+    stageMaster: createStageMaster(params.stage),
+    player: Object.assign({
+      unitIds: [],
+      castle: createCastleMaster(1)
+    }, params.player)
+  });
+  delete initParams.stage;
+  delete initParams.unitAnimationMasters;
+
+  const battleLogic = new BattleLogic();
+  battleLogic.init(initParams);
+
+  return { battleLogic, delegator };
+}
+
+/**
+ * テスト用のユニットエンティティを生成する
+ */
+export function createUnitEntity(isPlayer, distance, params = {}) {
+  const entity = new UnitEntity(params.unitId || 1, isPlayer);
+  entity.distance = distance;
+  entity.hitbox = 120;
+  return Object.assign(entity, params);
+}
+
+/**
+ * ユニットエンティティを BattleLogic の管理下に追加する
+ */
+export function addUnitEntity(battleLogic, entity) {
+  entity.id = battleLogic.nextEntityId++;
+  entity.maxHealth = entity.maxHealth || 100;
+  entity.currentHealth = entity.currentHealth || entity.maxHealth;
+  entity.state = entity.state || AttackableState.IDLE;
+  battleLogic.attackableEntities.push(entity);
+  return entity;
+}
+
+/**
+ * 指定したフレーム数だけバトルを進める
+ * デリゲータが渡された場合は経過フレーム数も進める
+ */
+export function updateFrames(battleLogic, count, delegator = null) {
+  for (let i = 0; i < count; i++) {
+    battleLogic.update();
+    if (delegator) {
+      delegator.frameCount++;
+    }
+  }
+}
+
+/**
+ * 生成されたユニットの ID を生成順に返す
+ */
+export function getSpawnedUnitIds(delegator, isPlayer) {
+  const unitIds = [];
+  delegator.unitRecords.forEach((record) => {
+    if (record.isPlayer === isPlayer) {
+      unitIds.push(record.unitId);
+    }
+  });
+  return unitIds;
+}
+
+/**
+ * 初回の更新時だけ指定したユニットの生成をリクエストする AI の行動方針を生成する
+ * 受け取ったバトル状態は states に記録する
+ */
+export function createOneShotAIStrategy(unitIds, consumesCost = true) {
+  return {
+    consumesCost,
+    states: [],
+    update(state) {
+      this.states.push(state);
+      if (this.states.length > 1) {
+        return [];
+      }
+      return unitIds.map(unitId => ({ unitId, lane: 0 }));
+    }
+  };
+}
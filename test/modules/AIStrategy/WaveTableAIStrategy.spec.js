@@ -0,0 +1,193 @@
+import { expect } from 'chai';
+import WaveTableAIStrategy from 'modules/AIStrategy/WaveTableAIStrategy';
+import { createStageMaster } from '../../fixtures';
+
+/**
+ * テスト用の AI 向けバトル状態を生成する
+ */
+function createState(passedFrameCount, aiUnits = []) {
+  return {
+    passedFrameCount,
+    aiUnits,
+    stageLength: 1000,
+    laneCount: 1,
+    availableCost: 0,
+    maxAvailableCost: 0,
+    castles: {
+      player: { currentHealth: 100, maxHealth: 100 },
+      ai: { currentHealth: 100, maxHealth: 100 }
+    },
+    playerUnits: []
+  };
+}
+
+/**
+ * テスト用の AI ユニットの状態を生成する
+ */
+function createUnitState(unitId, tag) {
+  return {
+    unitId,
+    tag,
+    lane: 0,
+    distance: 0,
+    range: 0,
+    currentHealth: 10,
+    maxHealth: 10
+  };
+}
+
+describe('WaveTableAIStrategy', () => {
+  describe('compileWaves', () => {
+    it('should convert the legacy wave table into frame conditions', () => {
+      const stageMaster = createStageMaster({
+        waves: {
+          10: [{ unitId: 1 }],
+          120: [{ unitId: 2 }, { unitId: 3 }]
+        }
+      });
+
+      const groups = WaveTableAIStrategy.compileWaves(stageMaster);
+
+      expect(groups).to.deep.equal([
+        {
+          spawns: [{ unitId: 1 }],
+          conditions: [{ type: 'frame', frame: 10 }]
+        },
+        {
+          spawns: [{ unitId: 2 }, { unitId: 3 }],
+          conditions: [{ type: 'frame', frame: 120 }]
+        }
+      ]);
+    });
+
+    it('should return wave groups as they are', () => {
+      const waves = [
+        {
+          id: 'first',
+          spawns: [{ unitId: 1, count: 2 }],
+          repeat: 3,
+          interval: 60
+        }
+      ];
+
+      const groups = WaveTableAIStrategy.compileWaves(
+        createStageMaster({ waves })
+      );
+
+      expect(groups).to.equal(waves);
+    });
+
+    it('should reject duplicated group ids', () => {
+      const stageMaster = createStageMaster({ waves: [
+        { id: 'first', spawns: [{ unitId: 1 }] },
+        { spawns: [{ unitId: 2 }] },
+        { id: 'first', spawns: [{ unitId: 3 }] }
+      ] });
+
+      expect(
+        () => WaveTableAIStrategy.compileWaves(stageMaster)
+      ).to.throw(/duplicate wave group id: first/);
+    });
+
+    it('should return an empty array when waves are missing', () => {
+      const groups = WaveTableAIStrategy.compileWaves(
+        createStageMaster({ waves: undefined })
+      );
+
+      expect(groups).to.deep.equal([]);
+    });
+  });
+
+  describe('update', () => {
+    it('should spawn legacy waves on their frames', () => {
+      const strategy = new WaveTableAIStrategy(createStageMaster({ waves: {
+        10: [{ unitId: 1 }]
+      } }));
+
+      expect(strategy.update(createState(9))).to.deep.equal([]);
+
+      const requests = strategy.update(createState(10));
+      expect(requests.map(request => request.unitId)).to.deep.equal([1]);
+      expect(strategy.update(createState(11))).to.deep.equal([]);
+    });
+
+    it('should repeat the spawns every interval frames', () => {
+      const strategy = new WaveTableAIStrategy(createStageMaster({ waves: [
+        {
+          spawns: [{ unitId: 1, count: 2 }],
+          repeat: 2,
+          interval: 30,
+          conditions: [{ type: 'frame', frame: 10 }]
+        }
+      ] }));
+
+      const counts = [];
+      for (let frame = 0; frame <= 100; frame++) {
+        const requests = strategy.update(createState(frame));
+        if (requests.length > 0) {
+          counts.push({ frame, count: requests.length });
+        }
+      }
+
+      expect(counts).to.deep.equal([
+        { frame: 10, count: 2 },
+        { frame: 40, count: 2 }
+      ]);
+    });
+
+    it('should start a group after the referenced group is dead', () => {
+      const strategy = new WaveTableAIStrategy(createStageMaster({ waves: [
+        {
+          id: 'vanguard',
+          spawns: [{ unitId: 1 }]
+        },
+        {
+          spawns: [{ unitId: 2 }],
+          conditions: [{ type: 'group_dead', groupId: 'vanguard' }]
+        }
+      ] }));
+
+      const first = strategy.update(createState(0));
+      expect(first.map(request => request.unitId)).to.deep.equal([1]);
+
+      const vanguard = createUnitState(1, first[0].tag);
+      expect(strategy.update(createState(1, [vanguard]))).to.deep.equal([]);
+
+      const second = strategy.update(createState(2));
+      expect(second.map(request => request.unitId)).to.deep.equal([2]);
+    });
+
+    it('should not mix up a group id with the index of another group', () => {
+      const strategy = new WaveTableAIStrategy(createStageMaster({ waves: [
+        {
+          spawns: [{ unitId: 1 }]
+        },
+        {
+          spawns: [{ unitId: 2 }],
+          conditions: [{ type: 'frame', frame: 10 }]
+        },
+        {
+          id: '1',
+          spawns: [{ unitId: 3 }]
+        },
+        {
+          spawns: [{ unitId: 4 }],
+          conditions: [{ type: 'group_dead', groupId: '1' }]
+        }
+      ] }));
+
+      const first = strategy.update(createState(0));
+      expect(first.map(request => request.unitId)).to.deep.equal([1, 3]);
+      expect(first[0].tag).to.not.equal(first[1].tag);
+
+      const named = createUnitState(3, first[1].tag);
+      const second = strategy.update(createState(10, [named]));
+      expect(second.map(request => request.unitId)).to.deep.equal([2]);
+
+      // インデックス 1 のグループが生存していても ID '1' のグループは全滅と判定する
+      const indexed = createUnitState(2, second[0].tag);
+      const third = strategy.update(createState(11, [indexed]));
+      expect(third.map(request => request.unitId)).to.deep.equal([4]);
+    });
+  });
+});
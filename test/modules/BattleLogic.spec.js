@@ -0,0 +1,1323 @@
+import { expect } from 'chai';
+import BattleLogicConfig from 'modules/BattleLogicConfig';
+import AttackableState from 'enum/AttackableState';
+import StatusEffectType from 'enum/StatusEffectType';
+import StageObjectiveType from 'enum/StageObjectiveType';
+import SkillType from 'enum/SkillType';
+import {
+  createCastleMaster,
+  createUnitMaster,
+  createUnitAnimationMaster,
+  createBattleLogic,
+  createUnitEntity,
+  addUnitEntity,
+  updateFrames,
+  getSpawnedUnitIds,
+  createOneShotAIStrategy
+} from '../fixtures';
+
+describe('BattleLogic', () => {
+  describe('getFieldPosition', () => {
+    it('should offset player entities from the player side', () => {
+      const { battleLogic } = createBattleLogic();
+
+      const entity = createUnitEntity(true, 100);
+
+      expect(battleLogic.getFieldPosition(entity)).to.equal(300);
+    });
+
+    it('should mirror ai entities from the other side', () => {
+      const { battleLogic } = createBattleLogic();
+
+      const entity = createUnitEntity(false, 100);
+
+      expect(battleLogic.getFieldPosition(entity)).to.equal(1700);
+    });
+
+    it('should place both castles on the shared coordinate', () => {
+      const { battleLogic, delegator } = createBattleLogic();
+
+      expect(
+        battleLogic.getFieldPosition(delegator.castles.player)
+      ).to.equal(200);
+      expect(
+        battleLogic.getFieldPosition(delegator.castles.ai)
+      ).to.equal(1800);
+    });
+  });
+
+  describe('isInReach', () => {
+    it('should engage melee entities when their hitboxes touch', () => {
+      const { battleLogic } = createBattleLogic();
+
+      const attacker = createUnitEntity(true, 700);
+      const touching = createUnitEntity(false, 780);
+      const apart = createUnitEntity(false, 779);
+
+      expect(battleLogic.isInReach(attacker, touching)).to.equal(true);
+      expect(battleLogic.isInReach(attacker, apart)).to.equal(false);
+    });
+
+    it('should reach the edge of the target hitbox with a range', () => {
+      const { battleLogic } = createBattleLogic();
+
+      const attacker = createUnitEntity(true, 500, { range: 300 });
+      const edge = createUnitEntity(false, 740);
+      const beyond = createUnitEntity(false, 739);
+
+      expect(battleLogic.isInReach(attacker, edge)).to.equal(true);
+      expect(battleLogic.isInReach(attacker, beyond)).to.equal(false);
+    });
+
+    it('should use the hitbox of each entity', () => {
+      const { battleLogic } = createBattleLogic();
+
+      const attacker = createUnitEntity(false, 700, { hitbox: 200 });
+      const target = createUnitEntity(true, 750, { hitbox: 100 });
+
+      expect(battleLogic.isInReach(attacker, target)).to.equal(true);
+      expect(battleLogic.isInReach(target, attacker)).to.equal(true);
+
+      target.distance = 749;
+      expect(battleLogic.isInReach(attacker, target)).to.equal(false);
+    });
+  });
+
+  describe('outcome', () => {
+    const objectives = [
+      { type: StageObjectiveType.WIN_WITHIN_FRAMES, frames: 100 },
+      { type: StageObjectiveType.CASTLE_HEALTH_ABOVE, healthRate: 0.5 },
+      { type: StageObjectiveType.COST_AT_MOST, cost: 0 }
+    ];
+    const stage = { objectives };
+
+    it('should add a star for each achieved objective', () => {
+      const { battleLogic, delegator } = createBattleLogic({ stage });
+
+      updateFrames(battleLogic, 10);
+      delegator.castles.ai.currentHealth = 0;
+      battleLogic.update();
+
+      const outcome = delegator.outcome;
+      expect(outcome.isPlayerWon).to.equal(true);
+      expect(outcome.stars).to.equal(4);
+      expect(outcome.maxStars).to.equal(4);
+      expect(outcome.frameCount).to.equal(10);
+      expect(outcome.objectives.map(objective => objective.achieved))
+        .to.deep.equal([true, true, true]);
+    });
+
+    it('should not add stars for missed objectives', () => {
+      const { battleLogic, delegator } = createBattleLogic({ stage });
+
+      updateFrames(battleLogic, 101);
+      delegator.castles.player.currentHealth = 40;
+      delegator.castles.ai.currentHealth = 0;
+      battleLogic.update();
+
+      const outcome = delegator.outcome;
+      expect(outcome.stars).to.equal(2);
+      expect(outcome.objectives.map(objective => objective.achieved))
+        .to.deep.equal([false, false, true]);
+    });
+
+    it('should give no stars when the player lost', () => {
+      const { battleLogic, delegator } = createBattleLogic({ stage });
+
+      delegator.castles.player.currentHealth = 0;
+      battleLogic.update();
+
+      const outcome = delegator.outcome;
+      expect(outcome.isPlayerWon).to.equal(false);
+      expect(outcome.stars).to.equal(0);
+      expect(outcome.maxStars).to.equal(4);
+      expect(outcome.objectives.map(objective => objective.achieved))
+        .to.deep.equal([false, false, false]);
+    });
+
+    it('should give a single star for a stage without objectives', () => {
+      const { battleLogic, delegator } = createBattleLogic();
+
+      delegator.castles.ai.currentHealth = 0;
+      battleLogic.update();
+
+      const outcome = delegator.outcome;
+      expect(outcome.stars).to.equal(1);
+      expect(outcome.maxStars).to.equal(1);
+      expect(outcome.objectives).to.deep.equal([]);
+    });
+  });
+
+  describe('splash', () => {
+    const splash = { radius: 100, falloff: 1 };
+
+    it('should reduce the damage towards the edge of the radius', () => {
+      const { battleLogic } = createBattleLogic();
+
+      const attacker = addUnitEntity(battleLogic, createUnitEntity(true, 0));
+      const target = addUnitEntity(battleLogic, createUnitEntity(false, 500));
+      const near = addUnitEntity(battleLogic, createUnitEntity(false, 550));
+      const edge = addUnitEntity(battleLogic, createUnitEntity(false, 600));
+      const outside = addUnitEntity(
+        battleLogic,
+        createUnitEntity(false, 601)
+      );
+
+      battleLogic.applyAttack(attacker, target, 20, splash, []);
+
+      expect(target.currentHealth).to.equal(80);
+      expect(near.currentHealth).to.equal(90);
+      expect(edge.currentHealth).to.equal(100);
+      expect(outside.currentHealth).to.equal(100);
+    });
+
+    it('should never heal the victims', () => {
+      const { battleLogic } = createBattleLogic();
+
+      const attacker = addUnitEntity(battleLogic, createUnitEntity(true, 0));
+      const target = addUnitEntity(battleLogic, createUnitEntity(false, 500));
+      const edge = addUnitEntity(battleLogic, createUnitEntity(false, 600));
+
+      battleLogic.applyAttack(
+        attacker,
+        target,
+        20,
+        { radius: 100, falloff: 2 },
+        []
+      );
+
+      expect(target.currentHealth).to.equal(80);
+      expect(edge.currentHealth).to.equal(100);
+    });
+
+    it('should reject a falloff outside of 0 and 1', () => {
+      const unitMaster = createUnitMaster(1, {
+        splash: { radius: 100, falloff: 1.5 }
+      });
+
+      const params = { unitMasters: [unitMaster] };
+
+      expect(() => createBattleLogic(params)).to.throw(/falloff/);
+
+      unitMaster.splash.falloff = -0.1;
+      expect(() => createBattleLogic(params)).to.throw(/falloff/);
+
+      unitMaster.splash.falloff = 1;
+      expect(() => createBattleLogic(params)).to.not.throw();
+    });
+  });
+
+  describe('ai spawn', () => {
+    const stageParams = {
+      ai: {
+        strategy: 'reactive',
+        cost: { max: 100, recoveryPerFrame: 1 }
+      }
+    };
+    const unitMasters = [
+      createUnitMaster(1, { cost: 10 }),
+      createUnitMaster(2, { cost: 1 })
+    ];
+
+    it('should keep an unaffordable request until the cost recovers', () => {
+      const aiStrategy = createOneShotAIStrategy([1]);
+      const { battleLogic, delegator } = createBattleLogic({
+        aiStrategy,
+        unitMasters,
+        stage: stageParams
+      });
+
+      updateFrames(battleLogic, 9);
+      expect(getSpawnedUnitIds(delegator, false)).to.deep.equal([]);
+
+      battleLogic.update();
+      expect(getSpawnedUnitIds(delegator, false)).to.deep.equal([1]);
+
+      updateFrames(battleLogic, 20);
+      expect(getSpawnedUnitIds(delegator, false)).to.deep.equal([1]);
+    });
+
+    it('should spawn the queued requests in order', () => {
+      const aiStrategy = createOneShotAIStrategy([1, 2]);
+      const { battleLogic, delegator } = createBattleLogic({
+        aiStrategy,
+        unitMasters,
+        stage: stageParams
+      });
+
+      updateFrames(battleLogic, 10);
+      expect(getSpawnedUnitIds(delegator, false)).to.deep.equal([1]);
+
+      battleLogic.update();
+      expect(getSpawnedUnitIds(delegator, false)).to.deep.equal([1, 2]);
+    });
+
+    it('should not offer the cost reserved by queued requests', () => {
+      const aiStrategy = createOneShotAIStrategy([1]);
+      const { battleLogic } = createBattleLogic({
+        aiStrategy,
+        unitMasters,
+        stage: stageParams
+      });
+
+      updateFrames(battleLogic, 5);
+
+      const state = aiStrategy.states[4];
+      expect(state.availableCost).to.equal(-5);
+    });
+  });
+
+  describe('healer', () => {
+    const unitMasters = [
+      createUnitMaster(1, { speed: 0 }),
+      createUnitMaster(2, { behavior: 'healer', range: 200, speed: 1 })
+    ];
+
+    /**
+     * 回復役のエンティティを追加する
+     */
+    function addHealer(battleLogic, distance) {
+      return addUnitEntity(
+        battleLogic,
+        createUnitEntity(true, distance, { unitId: 2, range: 200 })
+      );
+    }
+
+    it('should engage the ally who lost the most health', () => {
+      const { battleLogic } = createBattleLogic({ unitMasters });
+
+      const healer = addHealer(battleLogic, 500);
+      addUnitEntity(
+        battleLogic,
+        createUnitEntity(true, 600, { currentHealth: 80 })
+      );
+      const wounded = addUnitEntity(
+        battleLogic,
+        createUnitEntity(true, 650, { currentHealth: 50 })
+      );
+      addUnitEntity(battleLogic, createUnitEntity(false, 850));
+
+      battleLogic.update();
+
+      expect(healer.state).to.equal(AttackableState.ENGAGED);
+      expect(healer.engagedEntity).to.equal(wounded);
+    });
+
+    it('should hold without engaging hostiles in reach', () => {
+      const { battleLogic } = createBattleLogic({ unitMasters });
+
+      const healer = addHealer(battleLogic, 500);
+      const enemy = addUnitEntity(
+        battleLogic,
+        createUnitEntity(false, 850)
+      );
+
+      updateFrames(battleLogic, 60);
+
+      expect(healer.state).to.equal(AttackableState.IDLE);
+      expect(healer.engagedEntity).to.equal(null);
+      expect(healer.distance).to.equal(500);
+      expect(enemy.currentHealth).to.equal(100);
+    });
+
+    it('should keep walking without hostiles in reach', () => {
+      const { battleLogic } = createBattleLogic({ unitMasters });
+
+      const healer = addHealer(battleLogic, 500);
+      addUnitEntity(battleLogic, createUnitEntity(false, 800));
+
+      updateFrames(battleLogic, 10);
+
+      expect(healer.state).to.equal(AttackableState.IDLE);
+      expect(healer.distance).to.equal(510);
+    });
+
+    it('should release a healed ally instead of turning to hostiles', () => {
+      const { battleLogic } = createBattleLogic({ unitMasters });
+
+      const healer = addHealer(battleLogic, 500);
+      const ally = addUnitEntity(
+        battleLogic,
+        createUnitEntity(true, 600, { currentHealth: 50 })
+      );
+      addUnitEntity(battleLogic, createUnitEntity(false, 850));
+
+      battleLogic.update();
+      expect(healer.engagedEntity).to.equal(ally);
+
+      ally.currentHealth = ally.maxHealth;
+      battleLogic.update();
+
+      expect(healer.state).to.equal(AttackableState.IDLE);
+      expect(healer.engagedEntity).to.equal(null);
+    });
+  });
+
+  describe('boss', () => {
+    const stageParams = {
+      ai: {
+        strategy: 'reactive',
+        cost: { max: 100, recoveryPerFrame: 0 }
+      }
+    };
+    const unitMasters = [
+      createUnitMaster(1, { speed: 0 }),
+      createUnitMaster(2, { speed: 0 }),
+      createUnitMaster(3, { cost: 50, speed: 0 }),
+      createUnitMaster(6, { cost: 0, speed: 0 })
+    ];
+    const bossMasters = [{
+      unitId: 6,
+      name: 'boss',
+      phases: [
+        {
+          healthRate: 0.6,
+          speedRate: 1.3,
+          powerRate: 1.5,
+          summons: [{ unitId: 1, count: 2 }]
+        },
+        {
+          healthRate: 0.3,
+          speedRate: 1.2,
+          knockBackImmune: true,
+          summons: [{ unitId: 2 }]
+        },
+        {
+          healthRate: 0.1,
+          powerRate: 2
+        }
+      ]
+    }];
+
+    /**
+     * ボスを生成したバトルを返す
+     * コストの足りない AI ユニットの生成リクエストも持ち越させておく
+     */
+    function createBossBattle() {
+      const aiStrategy = createOneShotAIStrategy([6, 3]);
+      const battle = createBattleLogic({
+        aiStrategy,
+        unitMasters,
+        bossMasters,
+        stage: stageParams
+      });
+      battle.battleLogic.update();
+      battle.boss = battle.battleLogic.attackableEntities.find(
+        entity => entity.unitId === 6
+      );
+      return battle;
+    }
+
+    it('should go through every phase crossed in a single frame', () => {
+      const { battleLogic, boss } = createBossBattle();
+
+      boss.currentHealth = 20;
+      battleLogic.update();
+
+      expect(boss.bossPhaseIndex).to.equal(1);
+      expect(boss.speedRate).to.be.closeTo(1.56, 1e-9);
+      expect(boss.powerRate).to.be.closeTo(1.5, 1e-9);
+      expect(boss.isKnockBackImmune).to.equal(true);
+    });
+
+    it('should multiply the rates of the previous phases', () => {
+      const { battleLogic, boss } = createBossBattle();
+
+      boss.currentHealth = 50;
+      battleLogic.update();
+      expect(boss.bossPhaseIndex).to.equal(0);
+      expect(boss.isKnockBackImmune).to.equal(false);
+
+      boss.currentHealth = 5;
+      battleLogic.update();
+
+      expect(boss.bossPhaseIndex).to.equal(2);
+      expect(boss.speedRate).to.be.closeTo(1.56, 1e-9);
+      expect(boss.powerRate).to.be.closeTo(3, 1e-9);
+    });
+
+    it('should summon the units of each phase without spending cost', () => {
+      const { battleLogic, delegator, boss } = createBossBattle();
+      expect(getSpawnedUnitIds(delegator, false)).to.deep.equal([6]);
+
+      boss.currentHealth = 20;
+      updateFrames(battleLogic, 2);
+
+      expect(getSpawnedUnitIds(delegator, false)).to.deep.equal([6, 1, 1, 2]);
+      expect(battleLogic.aiAvailableCost).to.equal(0);
+      expect(
+        battleLogic.spawnRequestedUnitUnitIds.map(request => request.unitId)
+      ).to.deep.equal([3]);
+    });
+  });
+
+  describe('replay', () => {
+    const params = {
+      config: new BattleLogicConfig({
+        costRecoveryPerFrame: 1,
+        maxAvailableCost: 100
+      }),
+      stage: {
+        length: 1000,
+        waves: [{
+          spawns: [{ unitId: 2 }],
+          repeat: 3,
+          interval: 60,
+          conditions: [{ type: 'frame', frame: 30 }]
+        }]
+      },
+      unitMasters: [
+        createUnitMaster(1, { cost: 15, speed: 3 }),
+        createUnitMaster(2, { speed: 2, power: 20 })
+      ],
+      unitAnimationMasters: [
+        createUnitAnimationMaster(1),
+        createUnitAnimationMaster(2)
+      ],
+      player: {
+        unitIds: [1]
+      }
+    };
+
+    /**
+     * バトルの経過を比較できる形で返す
+     */
+    function summarize(delegator) {
+      const units = [];
+      delegator.unitRecords.forEach(record => units.push(record));
+      return {
+        units,
+        castles: {
+          player: delegator.castles.player.currentHealth,
+          ai: delegator.castles.ai.currentHealth
+        }
+      };
+    }
+
+    it('should record the player spawn requests with frame and lane', () => {
+      const { battleLogic } = createBattleLogic(params);
+
+      updateFrames(battleLogic, 20);
+      battleLogic.requestSpawnPlayer(1, 3);
+      battleLogic.requestSpawnAI(2);
+      updateFrames(battleLogic, 10);
+      battleLogic.requestSpawnPlayer(1);
+
+      expect(battleLogic.getSpawnRequestLog()).to.deep.equal([
+        { unitId: 1, lane: 0, frame: 20 },
+        { unitId: 1, lane: 0, frame: 30 }
+      ]);
+    });
+
+    it('should reproduce the battle from the recorded requests', () => {
+      const recorded = createBattleLogic(params);
+      for (let frame = 0; frame < 600; frame++) {
+        if (frame === 20 || frame === 25 || frame === 200) {
+          recorded.battleLogic.requestSpawnPlayer(1);
+        }
+        updateFrames(recorded.battleLogic, 1, recorded.delegator);
+      }
+      const log = recorded.battleLogic.getSpawnRequestLog();
+
+      const replayed = createBattleLogic(Object.assign({
+        replaySpawnRequests: log
+      }, params));
+      updateFrames(replayed.battleLogic, 600, replayed.delegator);
+
+      const summary = summarize(recorded.delegator);
+      expect(summary.units.filter(unit => unit.isPlayer).length).to.equal(2);
+      expect(summarize(replayed.delegator)).to.deep.equal(summary);
+      expect(replayed.battleLogic.getSpawnRequestLog()).to.deep.equal(log);
+    });
+  });
+
+  describe('projectile', () => {
+    const params = {
+      unitMasters: [
+        createUnitMaster(1, { speed: 0 }),
+        createUnitMaster(3, {
+          range: 300,
+          projectile: { flightFrames: 10, arcHeight: 0, color: 0 }
+        })
+      ],
+      unitAnimationMasters: [createUnitAnimationMaster(3)]
+    };
+
+    /**
+     * 射程内に敵がいる遠距離ユニットを配置したバトルを返す
+     */
+    function createArcherBattle() {
+      const { battleLogic } = createBattleLogic(params);
+      const archer = addUnitEntity(
+        battleLogic,
+        createUnitEntity(true, 500, { unitId: 3, range: 300 })
+      );
+      const enemy = addUnitEntity(
+        battleLogic,
+        createUnitEntity(false, 750)
+      );
+
+      return { battleLogic, archer, enemy };
+    }
+
+    /**
+     * 射程内の敵に向けて飛翔体が発射されるまでバトルを進める
+     */
+    function createShootingBattle() {
+      const { battleLogic, archer, enemy } = createArcherBattle();
+
+      for (let i = 0; i < 60; i++) {
+        battleLogic.update();
+        if (battleLogic.projectileEntities.length > 0) {
+          break;
+        }
+      }
+
+      return { battleLogic, archer, enemy };
+    }
+
+    it('should stop and engage an enemy within range', () => {
+      const { battleLogic, archer, enemy } = createArcherBattle();
+
+      battleLogic.update();
+
+      expect(archer.state).to.equal(AttackableState.ENGAGED);
+      expect(archer.engagedEntity).to.equal(enemy);
+
+      const distance = archer.distance;
+      updateFrames(battleLogic, 5);
+      expect(archer.distance).to.equal(distance);
+    });
+
+    it('should damage the target when the projectile lands', () => {
+      const { battleLogic, enemy } = createShootingBattle();
+      expect(battleLogic.projectileEntities.length).to.equal(1);
+
+      updateFrames(battleLogic, 8);
+      expect(enemy.currentHealth).to.equal(100);
+
+      battleLogic.update();
+      expect(enemy.currentHealth).to.equal(90);
+      expect(battleLogic.projectileEntities.length).to.equal(0);
+    });
+
+    it('should not damage a target defeated before the landing', () => {
+      const { battleLogic, enemy } = createShootingBattle();
+
+      enemy.currentHealth = 0;
+      updateFrames(battleLogic, 9);
+
+      expect(enemy.currentHealth).to.equal(0);
+      expect(battleLogic.projectileEntities.length).to.equal(0);
+    });
+  });
+
+  describe('status effects', () => {
+    const params = {
+      unitMasters: [
+        createUnitMaster(1, { speed: 0 }),
+        createUnitMaster(2, { speed: 1 })
+      ]
+    };
+
+    /**
+     * 接敵しない位置に状態効果の対象と発生源を配置したバトルを返す
+     */
+    function createStatusEffectBattle() {
+      const { battleLogic, delegator } = createBattleLogic(params);
+      const source = addUnitEntity(
+        battleLogic,
+        createUnitEntity(false, 100)
+      );
+      const target = addUnitEntity(
+        battleLogic,
+        createUnitEntity(true, 100, { unitId: 2 })
+      );
+
+      const expired = [];
+      delegator.onStatusEffectExpired = (entity, effect) => {
+        expired.push({ entity, type: effect.type });
+      };
+
+      return { battleLogic, delegator, source, target, expired };
+    }
+
+    const poison = {
+      type: StatusEffectType.POISON,
+      durationFrames: 30,
+      value: 5,
+      tickIntervalFrames: 10
+    };
+
+    it('should deal the poison damage on every tick until it expires', () => {
+      const { battleLogic, source, target, expired } =
+        createStatusEffectBattle();
+
+      battleLogic.applyStatusEffect(target, poison, source);
+      updateFrames(battleLogic, 9);
+      expect(target.currentHealth).to.equal(100);
+
+      battleLogic.update();
+      expect(target.currentHealth).to.equal(95);
+
+      updateFrames(battleLogic, 20);
+      expect(target.currentHealth).to.equal(85);
+      expect(target.statusEffects).to.deep.equal([]);
+      expect(expired).to.deep.equal([
+        { entity: target, type: StatusEffectType.POISON }
+      ]);
+    });
+
+    it('should add stacks up to the max stacks', () => {
+      const { battleLogic, source, target } = createStatusEffectBattle();
+      const stackable = Object.assign({}, poison, {
+        stacking: 'stack',
+        maxStacks: 2
+      });
+
+      for (let i = 0; i < 3; i++) {
+        battleLogic.applyStatusEffect(target, stackable, source);
+      }
+      updateFrames(battleLogic, 10);
+
+      expect(target.statusEffects.length).to.equal(1);
+      expect(target.statusEffects[0].stacks).to.equal(2);
+      expect(target.currentHealth).to.equal(90);
+    });
+
+    it('should refresh or keep the duration by the stacking rule', () => {
+      const { battleLogic, source, target } = createStatusEffectBattle();
+      const refresh = Object.assign({}, poison, { stacking: 'refresh' });
+      const ignore = {
+        type: StatusEffectType.SLOW,
+        durationFrames: 30,
+        value: 0.5,
+        stacking: 'ignore'
+      };
+
+      battleLogic.applyStatusEffect(target, refresh, source);
+      battleLogic.applyStatusEffect(target, ignore, source);
+      updateFrames(battleLogic, 10);
+      battleLogic.applyStatusEffect(target, refresh, source);
+      battleLogic.applyStatusEffect(target, ignore, source);
+
+      const remaining = target.statusEffects.map(effect => ({
+        type: effect.type,
+        remainingFrameCount: effect.remainingFrameCount,
+        stacks: effect.stacks
+      }));
+      expect(remaining).to.deep.equal([
+        { type: StatusEffectType.POISON, remainingFrameCount: 30, stacks: 1 },
+        { type: StatusEffectType.SLOW, remainingFrameCount: 20, stacks: 1 }
+      ]);
+    });
+
+    it('should slow down walking by the rate', () => {
+      const { battleLogic, source, target } = createStatusEffectBattle();
+      battleLogic.applyStatusEffect(target, {
+        type: StatusEffectType.SLOW,
+        durationFrames: 10,
+        value: 0.5
+      }, source);
+
+      updateFrames(battleLogic, 4);
+      expect(target.distance).to.equal(102);
+
+      // 効果が切れた後は元の速度で移動する
+      updateFrames(battleLogic, 10);
+      const distance = target.distance;
+      battleLogic.update();
+      expect(target.distance).to.equal(distance + 1);
+    });
+
+    const stun = { type: StatusEffectType.STUN, durationFrames: 10 };
+
+    it('should keep stunned entities from walking', () => {
+      const { battleLogic, source, target } = createStatusEffectBattle();
+      battleLogic.applyStatusEffect(target, stun, source);
+
+      updateFrames(battleLogic, 5);
+      expect(target.distance).to.equal(100);
+
+      // 効果が切れた後は再び移動できる
+      updateFrames(battleLogic, 10);
+      expect(target.distance).to.be.above(100);
+    });
+
+    it('should keep stunned entities from attacking', () => {
+      const { battleLogic, delegator, source, target } =
+        createStatusEffectBattle();
+      delegator.shouldDamage = () => true;
+      source.distance = 1400;
+      target.engagedEntity = source;
+      battleLogic.applyStatusEffect(target, stun, source);
+
+      battleLogic.updateDamage(target, params.unitMasters[1]);
+      expect(source.currentHealth).to.equal(100);
+
+      target.statusEffects = [];
+      battleLogic.updateDamage(target, params.unitMasters[1]);
+      expect(source.currentHealth).to.equal(90);
+    });
+
+    it('should multiply the power up rate by the stacks', () => {
+      const { battleLogic, source, target } = createStatusEffectBattle();
+      const powerUp = {
+        type: StatusEffectType.POWER_UP,
+        durationFrames: 10,
+        value: 1.5,
+        stacking: 'stack',
+        maxStacks: 3
+      };
+
+      battleLogic.applyStatusEffect(target, powerUp, source);
+      battleLogic.applyStatusEffect(target, powerUp, source);
+
+      expect(
+        battleLogic.getStatusEffectRate(target, StatusEffectType.POWER_UP)
+      ).to.equal(2.25);
+      expect(
+        battleLogic.getStatusEffectRate(target, StatusEffectType.SLOW)
+      ).to.equal(1);
+    });
+
+    it('should apply on hit effects to the target or the attacker', () => {
+      const { battleLogic, source, target } = createStatusEffectBattle();
+      const effects = [
+        poison,
+        { type: StatusEffectType.POWER_UP, durationFrames: 10, target: 'self' }
+      ];
+
+      battleLogic.applyAttack(source, target, 10, null, effects);
+
+      expect(target.currentHealth).to.equal(90);
+      expect(target.statusEffects.map(effect => effect.type))
+        .to.deep.equal([StatusEffectType.POISON]);
+      expect(source.statusEffects.map(effect => effect.type))
+        .to.deep.equal([StatusEffectType.POWER_UP]);
+    });
+
+    it('should clear the effects of defeated entities', () => {
+      const { battleLogic, source, target, expired } =
+        createStatusEffectBattle();
+      battleLogic.applyStatusEffect(target, poison, source);
+
+      target.currentHealth = 0;
+      updateFrames(battleLogic, 2);
+
+      expect(battleLogic.attackableEntities).to.not.include(target);
+      expect(target.statusEffects).to.deep.equal([]);
+      expect(expired.map(record => record.entity)).to.deep.equal([target]);
+    });
+  });
+
+  describe('castle', () => {
+    const unitMasters = [createUnitMaster(1, { speed: 0 })];
+
+    /**
+     * 指定した拠点マスターをプレイヤーの拠点とし、AI ユニットを 2 体配置したバトルを返す
+     */
+    function createCastleBattle(castleParams) {
+      const { battleLogic } = createBattleLogic({
+        unitMasters,
+        player: {
+          castle: createCastleMaster(1, castleParams)
+        }
+      });
+      const near = addUnitEntity(battleLogic, createUnitEntity(false, 1300));
+      const far = addUnitEntity(battleLogic, createUnitEntity(false, 1200));
+
+      return { battleLogic, near, far };
+    }
+
+    it('should attack the nearest enemy in range on a cooldown', () => {
+      const { battleLogic, near, far } = createCastleBattle({
+        power: 10,
+        range: 400,
+        attackIntervalFrames: 30
+      });
+
+      battleLogic.update();
+      expect(near.currentHealth).to.equal(90);
+      expect(far.currentHealth).to.equal(100);
+
+      updateFrames(battleLogic, 30);
+      expect(near.currentHealth).to.equal(90);
+
+      battleLogic.update();
+      expect(near.currentHealth).to.equal(80);
+    });
+
+    it('should not attack without power', () => {
+      const { battleLogic, near } = createCastleBattle({ range: 400 });
+
+      updateFrames(battleLogic, 60);
+
+      expect(near.currentHealth).to.equal(100);
+    });
+
+    it('should fire the cannon at every enemy once charged', () => {
+      const { battleLogic, near, far } = createCastleBattle({
+        cannon: { power: 30, maxCharge: 10, chargePerFrame: 1 }
+      });
+
+      updateFrames(battleLogic, 5);
+      battleLogic.requestCastleCannon();
+      battleLogic.update();
+      expect(near.currentHealth).to.equal(100);
+
+      updateFrames(battleLogic, 4);
+      battleLogic.requestCastleCannon();
+      battleLogic.update();
+
+      expect(near.currentHealth).to.equal(70);
+      expect(far.currentHealth).to.equal(70);
+      expect(battleLogic.castleCannonCharge).to.equal(0);
+      expect(battleLogic.getCastleCannonRequestLog()).to.deep.equal([10]);
+    });
+  });
+
+  describe('spawn cooldown', () => {
+    /**
+     * クールダウンを持つユニット 1 と持たないユニット 2 を編成したバトルを返す
+     * デリゲータに通知されたクールダウンは cooldowns に記録する
+     */
+    function createCooldownBattle() {
+      const { battleLogic, delegator } = createBattleLogic({
+        config: new BattleLogicConfig({
+          costRecoveryPerFrame: 50,
+          maxAvailableCost: 100
+        }),
+        unitMasters: [
+          createUnitMaster(1, { speed: 0, spawnCooldownFrames: 5 }),
+          createUnitMaster(2, { speed: 0 })
+        ],
+        player: {
+          unitIds: [1, 2]
+        }
+      });
+
+      const cooldowns = [];
+      delegator.onSpawnCooldownUpdated = (unitId, remaining, frames) => {
+        cooldowns.push({ unitId, remaining, frames });
+      };
+
+      return { battleLogic, delegator, cooldowns };
+    }
+
+    it('should reject the same unit until the cooldown ends', () => {
+      const { battleLogic, delegator } = createCooldownBattle();
+
+      battleLogic.requestSpawnPlayer(1);
+      battleLogic.update();
+      expect(getSpawnedUnitIds(delegator, true)).to.deep.equal([1]);
+
+      for (let i = 0; i < 4; i++) {
+        battleLogic.requestSpawnPlayer(1);
+        battleLogic.update();
+      }
+      expect(getSpawnedUnitIds(delegator, true)).to.deep.equal([1]);
+
+      battleLogic.requestSpawnPlayer(1);
+      battleLogic.update();
+      expect(getSpawnedUnitIds(delegator, true)).to.deep.equal([1, 1]);
+    });
+
+    it('should not block other units or spend cost while cooling down', () => {
+      const { battleLogic, delegator } = createCooldownBattle();
+
+      battleLogic.requestSpawnPlayer(1);
+      battleLogic.update();
+      const cost = battleLogic.availableCost;
+
+      battleLogic.requestSpawnPlayer(1);
+      battleLogic.requestSpawnPlayer(2);
+      battleLogic.requestSpawnAI(1);
+      battleLogic.update();
+
+      expect(getSpawnedUnitIds(delegator, true)).to.deep.equal([1, 2]);
+      expect(getSpawnedUnitIds(delegator, false)).to.deep.equal([1]);
+      expect(battleLogic.availableCost).to.equal(cost + 50 - 10);
+    });
+
+    it('should report the remaining frames to the delegator', () => {
+      const { battleLogic, cooldowns } = createCooldownBattle();
+
+      battleLogic.requestSpawnPlayer(1);
+      updateFrames(battleLogic, 6);
+
+      expect(cooldowns.map(cooldown => cooldown.remaining))
+        .to.deep.equal([5, 4, 3, 2, 1, 0]);
+      expect(cooldowns.every(cooldown => cooldown.unitId === 1)).to.equal(true);
+      expect(cooldowns.every(cooldown => cooldown.frames === 5)).to.equal(true);
+    });
+  });
+
+  describe('lanes', () => {
+    const params = {
+      stage: { lanes: 3 },
+      unitMasters: [createUnitMaster(1, { speed: 0 })]
+    };
+
+    it('should clamp the requested lane to the lanes of the stage', () => {
+      const { battleLogic } = createBattleLogic(params);
+
+      battleLogic.requestSpawnPlayer(1, 5);
+      battleLogic.requestSpawnPlayer(1, -1);
+
+      expect(battleLogic.getLaneCount()).to.equal(3);
+      expect(battleLogic.getSpawnRequestLog().map(request => request.lane))
+        .to.deep.equal([2, 0]);
+    });
+
+    it('should treat a stage without lanes as a single lane', () => {
+      const { battleLogic } = createBattleLogic();
+
+      battleLogic.requestSpawnPlayer(1, 2);
+
+      expect(battleLogic.getLaneCount()).to.equal(1);
+      expect(battleLogic.getSpawnRequestLog()[0].lane).to.equal(0);
+    });
+
+    it('should only engage enemies on the same lane', () => {
+      const { battleLogic } = createBattleLogic(params);
+      const attacker = addUnitEntity(
+        battleLogic,
+        createUnitEntity(true, 700, { lane: 1 })
+      );
+      const other = addUnitEntity(
+        battleLogic,
+        createUnitEntity(false, 790, { lane: 0 })
+      );
+      const same = addUnitEntity(
+        battleLogic,
+        createUnitEntity(false, 780, { lane: 1 })
+      );
+
+      battleLogic.update();
+
+      expect(attacker.engagedEntity).to.equal(same);
+      expect(other.state).to.equal(AttackableState.IDLE);
+      expect(other.engagedEntity).to.equal(null);
+    });
+
+    it('should reach the castle from every lane', () => {
+      const { battleLogic, delegator } = createBattleLogic(params);
+      const attacker = addUnitEntity(
+        battleLogic,
+        createUnitEntity(true, 1500, { lane: 2 })
+      );
+
+      battleLogic.update();
+
+      expect(attacker.engagedEntity).to.equal(delegator.castles.ai);
+    });
+
+    it('should keep the splash damage within the lane of the target', () => {
+      const { battleLogic } = createBattleLogic(params);
+      const attacker = addUnitEntity(battleLogic, createUnitEntity(true, 0));
+      const target = addUnitEntity(
+        battleLogic,
+        createUnitEntity(false, 500, { lane: 1 })
+      );
+      const same = addUnitEntity(
+        battleLogic,
+        createUnitEntity(false, 510, { lane: 1 })
+      );
+      const other = addUnitEntity(
+        battleLogic,
+        createUnitEntity(false, 510, { lane: 2 })
+      );
+
+      battleLogic.applyAttack(attacker, target, 20, { radius: 100 }, []);
+
+      expect(target.currentHealth).to.equal(80);
+      expect(same.currentHealth).to.equal(80);
+      expect(other.currentHealth).to.equal(100);
+    });
+
+    it('should assign the ai requests without a lane in turn', () => {
+      const aiStrategy = {
+        consumesCost: false,
+        update: state => (state.passedFrameCount < 4)
+          ? [{ unitId: 1 }]
+          : []
+      };
+      const { battleLogic } = createBattleLogic(
+        Object.assign({ aiStrategy }, params)
+      );
+
+      updateFrames(battleLogic, 4);
+
+      const lanes = battleLogic.attackableEntities
+        .filter(entity => entity.unitId && !entity.isPlayer)
+        .map(entity => entity.lane);
+      expect(lanes).to.deep.equal([0, 1, 2, 0]);
+    });
+  });
+
+  describe('skills', () => {
+    const config = new BattleLogicConfig({
+      costRecoveryPerFrame: 1,
+      maxAvailableCost: 100
+    });
+    const unitMasters = [createUnitMaster(1, { speed: 0 })];
+
+    /**
+     * テスト用のスキルマスターを生成する
+     */
+    function createSkill(type, params = {}) {
+      return Object.assign({
+        type,
+        skillId: 1,
+        name: type,
+        cost: 0,
+        chargeFrames: 0
+      }, params);
+    }
+
+    /**
+     * 渡したスキルを持ち、AI ユニットを 3 体配置したバトルを返す
+     * 発動したスキルは activations に記録する
+     */
+    function createSkillBattle(skill, params = {}) {
+      const { battleLogic, delegator } = createBattleLogic(Object.assign({
+        config,
+        unitMasters,
+        skills: [skill]
+      }, params));
+      const enemies = [600, 500, 100].map((distance) => {
+        return addUnitEntity(battleLogic, createUnitEntity(false, distance));
+      });
+
+      const activations = [];
+      delegator.onSkillActivated = (activated, targets, fieldPosition) => {
+        activations.push({ skill: activated, targets, fieldPosition });
+      };
+
+      return { battleLogic, delegator, enemies, activations };
+    }
+
+    it('should accept a request only when charged and affordable', () => {
+      const skill = createSkill(SkillType.COST_REFUND, {
+        cost: 20,
+        chargeFrames: 30
+      });
+      const { battleLogic, activations } = createSkillBattle(skill);
+
+      updateFrames(battleLogic, 10);
+      battleLogic.requestSkill(1);
+      battleLogic.update();
+      expect(activations).to.have.lengthOf(0);
+
+      updateFrames(battleLogic, 19);
+      const frame = battleLogic.passedFrameCount;
+      battleLogic.requestSkill(1);
+      battleLogic.requestSkill(1);
+      battleLogic.update();
+
+      expect(activations).to.have.lengthOf(1);
+      expect(battleLogic.availableCost).to.equal(11);
+      expect(battleLogic.getSkillRequestLog()).to.deep.equal([
+        { skillId: 1, frame }
+      ]);
+
+      battleLogic.requestSkill(1);
+      expect(battleLogic.getSkillRequestLog()).to.have.lengthOf(1);
+    });
+
+    it('should not accept a request without enough cost', () => {
+      const skill = createSkill(SkillType.COST_REFUND, { cost: 50 });
+      const { battleLogic, activations } = createSkillBattle(skill);
+
+      updateFrames(battleLogic, 10);
+      battleLogic.requestSkill(1);
+      battleLogic.update();
+
+      expect(activations).to.have.lengthOf(0);
+      expect(battleLogic.getSkillRequestLog()).to.deep.equal([]);
+    });
+
+    it('should damage the enemies around the foremost one with meteor', () => {
+      const skill = createSkill(SkillType.METEOR, {
+        power: 30,
+        radius: 150
+      });
+      const { battleLogic, enemies, activations } = createSkillBattle(skill);
+
+      battleLogic.requestSkill(1);
+      battleLogic.update();
+
+      expect(enemies.map(enemy => enemy.currentHealth)).to.deep.equal(
+        [70, 70, 100]
+      );
+      expect(activations[0].fieldPosition).to.equal(1200);
+      expect(activations[0].targets).to.deep.equal(enemies.slice(0, 2));
+    });
+
+    it('should apply the status effect to every enemy with freeze', () => {
+      const skill = createSkill(SkillType.FREEZE, {
+        statusEffect: { type: StatusEffectType.STUN, durationFrames: 60 }
+      });
+      const { battleLogic, enemies } = createSkillBattle(skill);
+      const ally = addUnitEntity(battleLogic, createUnitEntity(true, 100));
+
+      battleLogic.requestSkill(1);
+      battleLogic.update();
+
+      enemies.forEach((enemy) => {
+        expect(enemy.statusEffects.map(effect => effect.type)).to.deep.equal(
+          [StatusEffectType.STUN]
+        );
+      });
+      expect(ally.statusEffects).to.deep.equal([]);
+    });
+
+    it('should refund the cost up to the max cost with cost refund', () => {
+      const skill = createSkill(SkillType.COST_REFUND, {
+        cost: 10,
+        value: 40
+      });
+      const { battleLogic } = createSkillBattle(skill);
+
+      updateFrames(battleLogic, 20);
+      battleLogic.requestSkill(1);
+      battleLogic.update();
+      expect(battleLogic.availableCost).to.equal(51);
+
+      updateFrames(battleLogic, 40);
+      battleLogic.requestSkill(1);
+      battleLogic.update();
+      expect(battleLogic.availableCost).to.equal(100);
+    });
+
+    it('should reproduce the recorded skill requests', () => {
+      const skill = createSkill(SkillType.METEOR, {
+        cost: 10,
+        chargeFrames: 20,
+        power: 30,
+        radius: 150
+      });
+      const recorded = createSkillBattle(skill);
+      updateFrames(recorded.battleLogic, 25);
+      recorded.battleLogic.requestSkill(1);
+      updateFrames(recorded.battleLogic, 5);
+      const log = recorded.battleLogic.getSkillRequestLog();
+
+      const replayed = createSkillBattle(skill, {
+        replaySkillRequests: log
+      });
+      updateFrames(replayed.battleLogic, 30);
+
+      expect(log).to.have.lengthOf(1);
+      expect(replayed.activations).to.have.lengthOf(1);
+      expect(replayed.enemies.map(enemy => enemy.currentHealth)).to.deep.equal(
+        recorded.enemies.map(enemy => enemy.currentHealth)
+      );
+      expect(replayed.battleLogic.getSkillRequestLog()).to.deep.equal(log);
+    });
+  });
+
+  describe('cost levels', () => {
+    const config = new BattleLogicConfig({
+      costRecoveryPerFrame: 1,
+      maxAvailableCost: 100
+    });
+    const costLevels = [
+      { level: 3, price: 100, recoveryRate: 3, maxCostRate: 2 },
+      { level: 1, price: 0, recoveryRate: 1, maxCostRate: 1 },
+      { level: 2, price: 30, recoveryRate: 2, maxCostRate: 1.5 }
+    ];
+
+    /**
+     * コストレベルを持つバトルを返す
+     * コストレベルの上昇は updates に記録する
+     */
+    function createCostLevelBattle(params = {}) {
+      const { battleLogic, delegator } = createBattleLogic(Object.assign({
+        config,
+        costLevels
+      }, params));
+
+      const updates = [];
+      delegator.onCostLevelUpdated = (costLevel, nextCostLevel) => {
+        updates.push({
+          level: costLevel.level,
+          nextLevel: (nextCostLevel) ? nextCostLevel.level : -1
+        });
+      };
+
+      return { battleLogic, updates };
+    }
+
+    it('should not accept a request without enough cost', () => {
+      const { battleLogic, updates } = createCostLevelBattle();
+
+      updateFrames(battleLogic, 10);
+      battleLogic.requestCostLevelUp();
+      battleLogic.update();
+
+      expect(updates).to.deep.equal([]);
+      expect(battleLogic.getCostLevelUpRequestLog()).to.deep.equal([]);
+    });
+
+    it('should spend the price and raise the recovery and max cost', () => {
+      const { battleLogic, updates } = createCostLevelBattle();
+
+      updateFrames(battleLogic, 40);
+      const frame = battleLogic.passedFrameCount;
+      battleLogic.requestCostLevelUp();
+      battleLogic.requestCostLevelUp();
+      battleLogic.update();
+
+      expect(battleLogic.availableCost).to.equal(11);
+      expect(updates).to.deep.equal([{ level: 2, nextLevel: 3 }]);
+      expect(battleLogic.getCostLevelUpRequestLog()).to.deep.equal([frame]);
+
+      battleLogic.update();
+      expect(battleLogic.availableCost).to.equal(13);
+
+      updateFrames(battleLogic, 100);
+      expect(battleLogic.availableCost).to.equal(150);
+    });
+
+    it('should not accept a request at the max level', () => {
+      const { battleLogic, updates } = createCostLevelBattle();
+
+      updateFrames(battleLogic, 30);
+      battleLogic.requestCostLevelUp();
+      updateFrames(battleLogic, 60);
+      battleLogic.requestCostLevelUp();
+      updateFrames(battleLogic, 60);
+      battleLogic.requestCostLevelUp();
+      battleLogic.update();
+
+      expect(updates).to.deep.equal([
+        { level: 2, nextLevel: 3 },
+        { level: 3, nextLevel: -1 }
+      ]);
+      expect(battleLogic.getCostLevelUpRequestLog()).to.have.lengthOf(2);
+    });
+
+    it('should reproduce the recorded cost level up requests', () => {
+      const recorded = createCostLevelBattle();
+      updateFrames(recorded.battleLogic, 35);
+      recorded.battleLogic.requestCostLevelUp();
+      updateFrames(recorded.battleLogic, 25);
+      const log = recorded.battleLogic.getCostLevelUpRequestLog();
+
+      const replayed = createCostLevelBattle({
+        replayCostLevelUpRequests: log
+      });
+      updateFrames(replayed.battleLogic, 60);
+
+      expect(replayed.updates).to.deep.equal(recorded.updates);
+      expect(replayed.battleLogic.availableCost).to.equal(
+        recorded.battleLogic.availableCost
+      );
+      expect(replayed.battleLogic.getCostLevelUpRequestLog()).to.deep.equal(
+        log
+      );
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { expect } from 'chai';
+import BattleReplayStorage from 'modules/BattleReplayStorage';
+import { createCastleMaster } from '../fixtures';
+
+/**
+ * テスト用のリプレイを生成する
+ */
+function createReplay() {
+  return {
+    unitSlotCount: 5,
+    stageId: 2,
+    unitIds: [1, 3, -1, -1, -1],
+    playerCastle: createCastleMaster(1),
+    cost: { recoveryPerFrame: 0.05, max: 100 },
+    seed: 12345,
+    spawnRequests: [
+      { frame: 20, unitId: 1, lane: 0 },
+      { frame: 90, unitId: 3, lane: 1 }
+    ],
+    cannonRequests: [300],
+    skillRequests: [{ frame: 400, skillId: 2 }],
+    costLevelUpRequests: [120]
+  };
+}
+
+describe('BattleReplayStorage', () => {
+  describe('importJson', () => {
+    it('should restore the exported replay', () => {
+      const replay = createReplay();
+
+      const json = BattleReplayStorage.exportJson(replay);
+
+      expect(BattleReplayStorage.importJson(json)).to.deep.equal(replay);
+    });
+
+    it('should reject json without the required fields', () => {
+      const replay = createReplay();
+      delete replay.spawnRequests;
+      const json = JSON.stringify(replay);
+
+      expect(
+        () => BattleReplayStorage.importJson(json)
+      ).to.throw(/invalid battle replay json/);
+    });
+
+    it('should reject malformed json', () => {
+      expect(() => BattleReplayStorage.importJson('{')).to.throw();
+    });
+  });
+
+  describe('createBattleParameter', () => {
+    it('should start the battle with the recorded parameters', () => {
+      const replay = createReplay();
+
+      const params = BattleReplayStorage.createBattleParameter(replay);
+
+      expect(params.replay).to.equal(replay);
+      expect(params.stageId).to.equal(2);
+      expect(params.seed).to.equal(12345);
+      expect(params.unitIds).to.deep.equal(replay.unitIds);
+      expect(params.unitIds).to.not.equal(replay.unitIds);
+    });
+  });
+
+  describe('save', () => {
+    it('should report an error while the database is not open', () => {
+      let failed = false;
+
+      BattleReplayStorage.save(createReplay(), undefined, () => {
+        failed = true;
+      });
+
+      expect(failed).to.equal(true);
+    });
+  });
+
+  describe('load', () => {
+    it('should pass undefined while the database is not open', () => {
+      let loaded = null;
+
+      BattleReplayStorage.load((replay) => {
+        loaded = replay;
+      });
+
+      expect(loaded).to.equal(undefined);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { expect } from 'chai';
+import BattleSimulator from 'modules/BattleSimulator';
+import {
+  createCastleMaster,
+  createUnitMaster,
+  createUnitAnimationMaster,
+  createStageMaster
+} from '../fixtures';
+
+/**
+ * テスト用のシミュレーションパラメータを生成する
+ */
+function createParameter() {
+  const spawns = [];
+  for (let frame = 30; frame < 1200; frame += 120) {
+    spawns.push({ frame, unitId: 1 });
+  }
+
+  return {
+    stageMaster: createStageMaster({
+      length: 1000,
+      waves: [
+        {
+          spawns: [{ unitId: 2 }],
+          repeat: 3,
+          interval: 180,
+          conditions: [{ type: 'frame', frame: 60 }]
+        }
+      ]
+    }),
+    unitMasters: [
+      createUnitMaster(1, {
+        maxHealth: 60,
+        power: 12,
+        speed: 3,
+        knockBackFrames: 10,
+        knockBackSpeed: 2
+      }),
+      createUnitMaster(2, {
+        maxHealth: 30,
+        power: 4,
+        speed: 2,
+        knockBackFrames: 10,
+        knockBackSpeed: 2
+      })
+    ],
+    unitAnimationMasters: [
+      createUnitAnimationMaster(1),
+      createUnitAnimationMaster(2)
+    ],
+    player: {
+      unitIds: [1],
+      castle: createCastleMaster(1)
+    },
+    aiCastle: createCastleMaster(2, { maxHealth: 400 }),
+    cost: {
+      recoveryPerFrame: 1,
+      max: 100
+    },
+    spawns,
+    maxFrameCount: 6000
+  };
+}
+
+describe('BattleSimulator', () => {
+  describe('run', () => {
+    it('should finish the battle with the same result every time', () => {
+      const first = new BattleSimulator(createParameter()).run();
+      const second = new BattleSimulator(createParameter()).run();
+
+      expect(first.winner).to.equal('player');
+      expect(first.castles.ai.currentHealth).to.be.at.most(0);
+      expect(first.frameCount).to.be.below(6000);
+      expect(second).to.deep.equal(first);
+    });
+
+    it('should record the spawned units of both sides', () => {
+      const result = new BattleSimulator(createParameter()).run();
+
+      const playerUnits = result.units.filter(unit => unit.isPlayer);
+      const aiUnits = result.units.filter(unit => !unit.isPlayer);
+      expect(playerUnits.length).to.be.above(0);
+      expect(aiUnits.length).to.equal(3);
+      expect(playerUnits[0].spawnedFrame).to.equal(30);
+    });
+
+    it('should stop at maxFrameCount when no one wins', () => {
+      const params = createParameter();
+      params.spawns = [];
+      params.stageMaster.waves = [];
+      params.maxFrameCount = 300;
+
+      const result = new BattleSimulator(params).run();
+
+      expect(result.winner).to.equal('none');
+      expect(result.frameCount).to.equal(300);
+      expect(result.stars).to.equal(0);
+      expect(result.units).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import BattleTimeController from 'modules/BattleTimeController';
+
+/**
+ * 同じ delta の tick を指定回数与え、進んだ論理フレーム数の合計を返す
+ */
+function consumeTicks(controller, delta, count) {
+  let stepCount = 0;
+  for (let i = 0; i < count; i++) {
+    stepCount += controller.consumeStepCount(delta);
+  }
+  return stepCount;
+}
+
+describe('BattleTimeController', () => {
+  describe('consumeStepCount', () => {
+    it('should advance one frame per tick at the base frame rate', () => {
+      const controller = new BattleTimeController();
+
+      expect(consumeTicks(controller, 1, 60)).to.equal(60);
+    });
+
+    it('should keep the same pace on faster and slower displays', () => {
+      const fast = new BattleTimeController();
+      const slow = new BattleTimeController();
+
+      expect(consumeTicks(fast, 0.5, 120)).to.equal(60);
+      expect(consumeTicks(slow, 2, 30)).to.equal(60);
+    });
+
+    it('should carry the fraction over to the next tick', () => {
+      const controller = new BattleTimeController();
+
+      const stepCounts = [];
+      for (let i = 0; i < 4; i++) {
+        stepCounts.push(controller.consumeStepCount(0.75));
+      }
+
+      expect(stepCounts).to.deep.equal([0, 1, 1, 1]);
+    });
+
+    it('should multiply the frames by the speed', () => {
+      const controller = new BattleTimeController();
+
+      expect(controller.toggleSpeed()).to.equal(2);
+      expect(consumeTicks(controller, 1, 30)).to.equal(60);
+    });
+
+    it('should limit the frames advanced in a single tick', () => {
+      const controller = new BattleTimeController();
+
+      expect(controller.consumeStepCount(100)).to.equal(
+        BattleTimeController.maxStepCount
+      );
+      expect(controller.consumeStepCount(1)).to.equal(1);
+    });
+
+    it('should not advance while paused', () => {
+      const controller = new BattleTimeController();
+
+      controller.pause();
+      expect(consumeTicks(controller, 1, 10)).to.equal(0);
+
+      controller.resume();
+      expect(consumeTicks(controller, 1, 10)).to.equal(10);
+    });
+  });
+
+  describe('getInterpolationRate', () => {
+    it('should return the fraction towards the next frame', () => {
+      const controller = new BattleTimeController();
+
+      controller.consumeStepCount(1.25);
+      expect(controller.getInterpolationRate()).to.equal(0.25);
+
+      controller.pause();
+      expect(controller.getInterpolationRate()).to.equal(1);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { expect } from 'chai';
+import DeckSynergy from 'modules/DeckSynergy';
+import BattleLogicConfig from 'modules/BattleLogicConfig';
+import SynergyEffectType from 'enum/SynergyEffectType';
+import { createUnitMaster } from '../fixtures';
+
+/**
+ * テスト用のユニットマスターの Map を生成する
+ */
+function createUnitMasters() {
+  const unitMasters = new Map();
+  unitMasters.set(1, createUnitMaster(1, { tags: ['melee', 'guard'] }));
+  unitMasters.set(2, createUnitMaster(2, { tags: ['melee'] }));
+  unitMasters.set(3, createUnitMaster(3, { tags: ['ranged'] }));
+  return unitMasters;
+}
+
+/**
+ * テスト用のシナジーマスターを生成する
+ */
+function createSynergy(synergyId, conditions, effects = []) {
+  return Object.assign({
+    synergyId,
+    effects,
+    name: `synergy ${synergyId}`,
+    description: ''
+  }, conditions);
+}
+
+describe('DeckSynergy', () => {
+  describe('getActiveSynergies', () => {
+    it('should activate synergies whose units are all deployed', () => {
+      const pair = createSynergy(1, { requiredUnitIds: [1, 3] });
+      const missing = createSynergy(2, { requiredUnitIds: [1, 4] });
+
+      const synergies = DeckSynergy.getActiveSynergies(
+        [1, -1, 3],
+        createUnitMasters(),
+        [pair, missing]
+      );
+
+      expect(synergies).to.deep.equal([pair]);
+    });
+
+    it('should count distinct units for the required tag', () => {
+      const melee = createSynergy(1, {
+        requiredTag: 'melee',
+        requiredTagCount: 2
+      });
+
+      const unitMasters = createUnitMasters();
+      expect(
+        DeckSynergy.getActiveSynergies([1, 1, 3], unitMasters, [melee])
+      ).to.deep.equal([]);
+      expect(
+        DeckSynergy.getActiveSynergies([1, 2, 3], unitMasters, [melee])
+      ).to.deep.equal([melee]);
+    });
+
+    it('should require a single tagged unit by default', () => {
+      const ranged = createSynergy(1, { requiredTag: 'ranged' });
+
+      const unitMasters = createUnitMasters();
+      expect(
+        DeckSynergy.getActiveSynergies([1, 2], unitMasters, [ranged])
+      ).to.deep.equal([]);
+      expect(
+        DeckSynergy.getActiveSynergies([3], unitMasters, [ranged])
+      ).to.deep.equal([ranged]);
+    });
+  });
+
+  describe('applyToUnitMaster', () => {
+    it('should add up the rates of the matching effects', () => {
+      const synergies = [
+        createSynergy(1, {}, [
+          { type: SynergyEffectType.UNIT_POWER_RATE, value: 0.2 },
+          { type: SynergyEffectType.UNIT_SPEED_RATE, value: 0.5 }
+        ]),
+        createSynergy(2, {}, [
+          { type: SynergyEffectType.UNIT_POWER_RATE, value: 0.1 },
+          {
+            type: SynergyEffectType.UNIT_MAX_HEALTH_RATE,
+            value: 0.25,
+            targetTag: 'guard'
+          }
+        ])
+      ];
+
+      const unitMasters = createUnitMasters();
+      const guard = DeckSynergy.applyToUnitMaster(
+        unitMasters.get(1),
+        synergies
+      );
+      expect(guard.power).to.equal(13);
+      expect(guard.maxHealth).to.equal(125);
+      expect(guard.speed).to.equal(1.5);
+
+      const other = DeckSynergy.applyToUnitMaster(
+        unitMasters.get(2),
+        synergies
+      );
+      expect(other.maxHealth).to.equal(100);
+    });
+
+    it('should not modify the original master', () => {
+      const unitMaster = createUnitMaster(1, { tags: [] });
+      const synergies = [
+        createSynergy(1, {}, [
+          { type: SynergyEffectType.UNIT_POWER_RATE, value: 1 }
+        ])
+      ];
+
+      const applied = DeckSynergy.applyToUnitMaster(unitMaster, synergies);
+
+      expect(applied.power).to.equal(20);
+      expect(unitMaster.power).to.equal(10);
+    });
+  });
+
+  describe('applyToConfig', () => {
+    it('should raise the cost recovery and the max cost', () => {
+      const config = new BattleLogicConfig({
+        costRecoveryPerFrame: 0.1,
+        maxAvailableCost: 100
+      });
+      const synergies = [
+        createSynergy(1, {}, [
+          { type: SynergyEffectType.COST_RECOVERY_RATE, value: 0.5 },
+          { type: SynergyEffectType.MAX_COST, value: 20 }
+        ]),
+        createSynergy(2, {}, [
+          { type: SynergyEffectType.MAX_COST, value: 30 }
+        ])
+      ];
+
+      const applied = DeckSynergy.applyToConfig(config, synergies);
+
+      expect(applied).to.be.an.instanceof(BattleLogicConfig);
+      expect(applied.costRecoveryPerFrame).to.be.closeTo(0.15, 1e-9);
+      expect(applied.maxAvailableCost).to.equal(150);
+      expect(config.costRecoveryPerFrame).to.equal(0.1);
+      expect(config.maxAvailableCost).to.equal(100);
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import DeckValidator from 'modules/DeckValidator';
+import DeckValidationError from 'enum/DeckValidationError';
+import { createUnitMaster } from '../fixtures';
+
+/**
+ * テスト用のユニットマスターの Map を生成する
+ */
+function createUnitMasters() {
+  const unitMasters = new Map();
+  const costs = [10, 20, 30];
+  for (let i = 0; i < costs.length; i++) {
+    const unitId = i + 1;
+    unitMasters.set(unitId, createUnitMaster(unitId, { cost: costs[i] }));
+  }
+  return unitMasters;
+}
+
+describe('DeckValidator', () => {
+  describe('validate', () => {
+    it('should accept a deck of distinct units', () => {
+      const result = DeckValidator.validate([1, 2, 3], createUnitMasters());
+
+      expect(result).to.deep.equal({
+        isValid: true,
+        totalCost: 60,
+        errors: []
+      });
+    });
+
+    it('should treat non positive unit ids as empty slots', () => {
+      const result = DeckValidator.validate([-1, 2, 0], createUnitMasters());
+
+      expect(result.isValid).to.equal(true);
+      expect(result.totalCost).to.equal(20);
+    });
+
+    it('should reject an empty deck', () => {
+      const result = DeckValidator.validate([-1, -1], createUnitMasters());
+
+      expect(result.isValid).to.equal(false);
+      expect(result.errors).to.deep.equal([DeckValidationError.EMPTY]);
+    });
+
+    it('should report duplicated units once without counting their cost', () => {
+      const result = DeckValidator.validate(
+        [1, 1, 2, 1, 2],
+        createUnitMasters()
+      );
+
+      expect(result.isValid).to.equal(false);
+      expect(result.totalCost).to.equal(30);
+      expect(result.errors).to.deep.equal([
+        DeckValidationError.DUPLICATE_UNIT
+      ]);
+    });
+
+    it('should reject a deck over the max cost', () => {
+      const unitMasters = createUnitMasters();
+
+      const over = DeckValidator.validate([1, 2, 3], unitMasters, 50);
+      expect(over.isValid).to.equal(false);
+      expect(over.errors).to.deep.equal([DeckValidationError.COST_OVER]);
+
+      const exact = DeckValidator.validate([1, 2, 3], unitMasters, 60);
+      expect(exact.isValid).to.equal(true);
+    });
+
+    it('should ignore the cost of units without masters', () => {
+      const result = DeckValidator.validate([1, 99], createUnitMasters(), 10);
+
+      expect(result.isValid).to.equal(true);
+      expect(result.totalCost).to.equal(10);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { expect } from 'chai';
+import ProgressionService from 'modules/ProgressionService';
+import {
+  createCastleMaster,
+  createOutcome,
+  createStageInfoMasters
+} from '../fixtures';
+
+/**
+ * テスト用の進行状況を生成する
+ */
+function createProfile() {
+  return ProgressionService.createProfile({
+    unlockedUnitIds: [1, 2],
+    unlockedStageId: 1,
+    castle: createCastleMaster(1),
+    cost: {
+      max: 100,
+      recoveryPerFrame: 0.05
+    }
+  });
+}
+
+describe('ProgressionService', () => {
+  describe('createProfile', () => {
+    it('should copy the user battle without sharing references', () => {
+      const seed = {
+        unlockedUnitIds: [1],
+        unlockedStageId: 1,
+        castle: createProfile().castle,
+        cost: { max: 100, recoveryPerFrame: 0.05 }
+      };
+
+      const profile = ProgressionService.createProfile(seed);
+      profile.unlockedUnitIds.push(2);
+      profile.castle.maxHealth = 200;
+
+      expect(seed.unlockedUnitIds).to.deep.equal([1]);
+      expect(seed.castle.maxHealth).to.equal(100);
+      expect(profile.currency).to.equal(0);
+      expect(profile.stageRecords).to.deep.equal({});
+      expect(profile.unitLevels).to.deep.equal({});
+    });
+  });
+
+  describe('applyBattleOutcome', () => {
+    const reward = {
+      currency: 100,
+      firstClearCurrency: 500,
+      unlockUnitIds: [2, 3]
+    };
+
+    it('should not change the profile when the player lost', () => {
+      const profile = createProfile();
+      const expected = createProfile();
+
+      const result = ProgressionService.applyBattleOutcome(
+        profile,
+        1,
+        createOutcome(false, 0),
+        createStageInfoMasters([1, 2]),
+        reward
+      );
+
+      expect(result).to.deep.equal({
+        isFirstClear: false,
+        currency: 0,
+        unlockedStageId: 1,
+        unlockedUnitIds: []
+      });
+      expect(profile).to.deep.equal(expected);
+    });
+
+    it('should grant the first clear reward and unlock the next stage', () => {
+      const profile = createProfile();
+
+      const result = ProgressionService.applyBattleOutcome(
+        profile,
+        1,
+        createOutcome(true, 2),
+        createStageInfoMasters([1, 2, 3]),
+        reward
+      );
+
+      expect(result).to.deep.equal({
+        isFirstClear: true,
+        currency: 600,
+        unlockedStageId: 2,
+        unlockedUnitIds: [3]
+      });
+      expect(profile.currency).to.equal(600);
+      expect(profile.unlockedStageId).to.equal(2);
+      expect(profile.unlockedUnitIds).to.deep.equal([1, 2, 3]);
+      expect(profile.stageRecords[1]).to.deep.equal({
+        clearCount: 1,
+        bestStars: 2
+      });
+    });
+
+    it('should only grant the currency after the first clear', () => {
+      const profile = createProfile();
+      const stageInfoMasters = createStageInfoMasters([1, 2]);
+      ProgressionService.applyBattleOutcome(
+        profile,
+        1,
+        createOutcome(true, 3),
+        stageInfoMasters,
+        reward
+      );
+
+      const result = ProgressionService.applyBattleOutcome(
+        profile,
+        1,
+        createOutcome(true, 1),
+        stageInfoMasters,
+        reward
+      );
+
+      expect(result.isFirstClear).to.equal(false);
+      expect(result.currency).to.equal(100);
+      expect(result.unlockedUnitIds).to.deep.equal([]);
+      expect(profile.currency).to.equal(700);
+      expect(profile.stageRecords[1]).to.deep.equal({
+        clearCount: 2,
+        bestStars: 3
+      });
+    });
+
+    it('should not unlock a stage missing from the stage list', () => {
+      const profile = createProfile();
+
+      const result = ProgressionService.applyBattleOutcome(
+        profile,
+        1,
+        createOutcome(true, 1),
+        createStageInfoMasters([1])
+      );
+
+      expect(result.isFirstClear).to.equal(true);
+      expect(result.currency).to.equal(0);
+      expect(result.unlockedStageId).to.equal(1);
+      expect(profile.unlockedStageId).to.equal(1);
+    });
+  });
+
+  describe('getNextStageId', () => {
+    it('should return the smallest stage id after the given one', () => {
+      const stageInfoMasters = createStageInfoMasters([5, 1, 3]);
+
+      expect(
+        ProgressionService.getNextStageId(1, stageInfoMasters)
+      ).to.equal(3);
+      expect(
+        ProgressionService.getNextStageId(3, stageInfoMasters)
+      ).to.equal(5);
+    });
+
+    it('should return -1 for the last stage', () => {
+      const stageInfoMasters = createStageInfoMasters([1, 2]);
+
+      expect(
+        ProgressionService.getNextStageId(2, stageInfoMasters)
+      ).to.equal(-1);
+    });
+  });
+
+  describe('getStageProgresses', () => {
+    it('should lock the stages after the unlocked stage', () => {
+      const profile = createProfile();
+      const stageInfoMasters = createStageInfoMasters([1, 2, 3]);
+
+      const progresses = ProgressionService.getStageProgresses(
+        profile,
+        stageInfoMasters
+      );
+
+      expect(progresses.map(progress => progress.master)).to.deep.equal(
+        stageInfoMasters
+      );
+      expect(progresses.map(progress => progress.locked)).to.deep.equal(
+        [false, true, true]
+      );
+      expect(progresses.map(progress => progress.bestStars)).to.deep.equal(
+        [0, 0, 0]
+      );
+    });
+
+    it('should reflect the best stars and the unlocked stage of a clear', () => {
+      const profile = createProfile();
+      const stageInfoMasters = createStageInfoMasters([1, 2, 3]);
+      ProgressionService.applyBattleOutcome(
+        profile,
+        1,
+        createOutcome(true, 3),
+        stageInfoMasters
+      );
+      ProgressionService.applyBattleOutcome(
+        profile,
+        1,
+        createOutcome(true, 1),
+        stageInfoMasters
+      );
+
+      const progresses = ProgressionService.getStageProgresses(
+        profile,
+        stageInfoMasters
+      );
+
+      expect(progresses.map(progress => progress.locked)).to.deep.equal(
+        [false, false, true]
+      );
+      expect(progresses.map(progress => progress.bestStars)).to.deep.equal(
+        [3, 0, 0]
+      );
+    });
+  });
+
+  describe('getUnitLevel', () => {
+    it('should return 1 for units without a level', () => {
+      const profile = createProfile();
+      profile.unitLevels[2] = 3;
+
+      expect(ProgressionService.getUnitLevel(profile, 1)).to.equal(1);
+      expect(ProgressionService.getUnitLevel(profile, 2)).to.equal(3);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import Random from 'modules/Random';
+
+describe('Random', () => {
+  describe('next', () => {
+    it('should return the same sequence for the same seed', () => {
+      const a = new Random(12345);
+      const b = new Random(12345);
+
+      for (let i = 0; i < 100; i++) {
+        expect(a.next()).to.equal(b.next());
+      }
+    });
+
+    it('should return a different sequence for a different seed', () => {
+      const a = new Random(1);
+      const b = new Random(2);
+
+      const sequenceA = [];
+      const sequenceB = [];
+      for (let i = 0; i < 10; i++) {
+        sequenceA.push(a.next());
+        sequenceB.push(b.next());
+      }
+
+      expect(sequenceA).to.not.deep.equal(sequenceB);
+    });
+
+    it('should return values between 0 and 1', () => {
+      const random = new Random(42);
+
+      for (let i = 0; i < 1000; i++) {
+        const value = random.next();
+        expect(value).to.be.at.least(0);
+        expect(value).to.be.below(1);
+      }
+    });
+  });
+
+  describe('seed', () => {
+    it('should be normalized to an unsigned 32 bit integer', () => {
+      expect(new Random(-1).seed).to.equal(0xffffffff);
+      expect(new Random(0x100000001).seed).to.equal(1);
+    });
+  });
+
+  describe('range', () => {
+    it('should return values between min and max', () => {
+      const random = new Random(7);
+
+      for (let i = 0; i < 1000; i++) {
+        const value = random.range(-5, 5);
+        expect(value).to.be.at.least(-5);
+        expect(value).to.be.below(5);
+      }
+    });
+  });
+
+  describe('int', () => {
+    it('should return integers between 0 and max', () => {
+      const random = new Random(99);
+      const counts = [0, 0, 0];
+
+      for (let i = 0; i < 300; i++) {
+        const value = random.int(3);
+        expect(Number.isInteger(value)).to.equal(true);
+        counts[value]++;
+      }
+
+      expect(counts[0]).to.be.above(0);
+      expect(counts[1]).to.be.above(0);
+      expect(counts[2]).to.be.above(0);
+    });
+  });
+
+  describe('createSeed', () => {
+    it('should return an unsigned 32 bit integer', () => {
+      const seed = Random.createSeed();
+
+      expect(Number.isInteger(seed)).to.equal(true);
+      expect(seed).to.be.at.least(0);
+      expect(seed).to.be.at.most(0xffffffff);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import UnitGrowth from 'modules/UnitGrowth';
+import { createUnitMaster } from '../fixtures';
+
+/**
+ * テスト用の成長曲線マスターを生成する
+ */
+function createGrowthMaster() {
+  return {
+    unitId: 1,
+    maxLevel: 5,
+    maxHealthRate: 0.1,
+    powerRate: 0.25,
+    speedRate: 0.05,
+    baseUpgradeCost: 100,
+    upgradeCostRate: 1.5
+  };
+}
+
+describe('UnitGrowth', () => {
+  describe('applyLevel', () => {
+    it('should keep the base values at level 1', () => {
+      const unitMaster = createUnitMaster(1, { power: 15, speed: 2 });
+
+      const applied = UnitGrowth.applyLevel(
+        unitMaster,
+        createGrowthMaster(),
+        1
+      );
+
+      expect(applied).to.deep.equal(unitMaster);
+      expect(applied).to.not.equal(unitMaster);
+    });
+
+    it('should grow the values linearly with the level', () => {
+      const applied = UnitGrowth.applyLevel(
+        createUnitMaster(1, { power: 15, speed: 2 }),
+        createGrowthMaster(),
+        3
+      );
+
+      expect(applied.maxHealth).to.equal(120);
+      expect(applied.power).to.equal(22);
+      expect(applied.speed).to.be.closeTo(2.2, 1e-9);
+      expect(applied.cost).to.equal(10);
+    });
+
+    it('should clamp the level between 1 and the max level', () => {
+      const unitMaster = createUnitMaster(1, { power: 15, speed: 2 });
+      const growthMaster = createGrowthMaster();
+
+      expect(
+        UnitGrowth.applyLevel(unitMaster, growthMaster, 10)
+      ).to.deep.equal(UnitGrowth.applyLevel(unitMaster, growthMaster, 5));
+      expect(
+        UnitGrowth.applyLevel(unitMaster, growthMaster, 0)
+      ).to.deep.equal(unitMaster);
+    });
+
+    it('should return the master as it is without a growth master', () => {
+      const unitMaster = createUnitMaster(1, { power: 15, speed: 2 });
+
+      expect(
+        UnitGrowth.applyLevel(unitMaster, undefined, 3)
+      ).to.equal(unitMaster);
+    });
+  });
+
+  describe('getUpgradeCost', () => {
+    it('should grow the cost geometrically with the level', () => {
+      const growthMaster = createGrowthMaster();
+
+      expect(UnitGrowth.getUpgradeCost(growthMaster, 1)).to.equal(100);
+      expect(UnitGrowth.getUpgradeCost(growthMaster, 2)).to.equal(150);
+      expect(UnitGrowth.getUpgradeCost(growthMaster, 4)).to.equal(337);
+    });
+
+    it('should return -1 at the max level', () => {
+      expect(UnitGrowth.getUpgradeCost(createGrowthMaster(), 5)).to.equal(-1);
+    });
+  });
+
+  describe('isMaxLevel', () => {
+    it('should return whether the level reached the max level', () => {
+      const growthMaster = createGrowthMaster();
+
+      expect(UnitGrowth.isMaxLevel(growthMaster, 4)).to.equal(false);
+      expect(UnitGrowth.isMaxLevel(growthMaster, 5)).to.equal(true);
+      expect(UnitGrowth.isMaxLevel(growthMaster, 6)).to.equal(true);
+    });
+  });
+});
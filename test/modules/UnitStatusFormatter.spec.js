@@ -0,0 +1,48 @@
+import { expect } from 'chai';
+import UnitStatusFormatter from 'modules/UnitStatusFormatter';
+import UnitBehavior from 'enum/UnitBehavior';
+import { createUnitMaster } from '../fixtures';
+
+describe('UnitStatusFormatter', () => {
+  describe('format', () => {
+    it('should list the stats of an attacker', () => {
+      const master = createUnitMaster(1, {
+        cost: 30,
+        maxHealth: 250,
+        power: 40,
+        speed: 1.666,
+        knockBackFrames: 10,
+        knockBackSpeed: 2
+      });
+
+      expect(UnitStatusFormatter.format(master)).to.deep.equal([
+        'TYPE  ATTACKER',
+        'COST  30',
+        'HP    250',
+        'ATK   40',
+        'SPD   1.67',
+        'KNOCKBACK  10F x2'
+      ]);
+    });
+
+    it('should show the power of a healer as the heal amount', () => {
+      const master = createUnitMaster(1, {
+        behavior: UnitBehavior.HEALER,
+        power: 15
+      });
+
+      const lines = UnitStatusFormatter.format(master);
+
+      expect(lines[0]).to.equal('TYPE  HEALER');
+      expect(lines[3]).to.equal('HEAL  15');
+    });
+
+    it('should append the range only when the unit has one', () => {
+      const melee = createUnitMaster(1);
+      const ranged = createUnitMaster(2, { range: 600 });
+
+      expect(UnitStatusFormatter.format(melee)).to.have.lengthOf(6);
+      expect(UnitStatusFormatter.format(ranged)[6]).to.equal('RANGE 600');
+    });
+  });
+});